@@ -0,0 +1,332 @@
+import { pipeline, Readable, Transform } from 'stream';
+import { createGunzip, createGzip } from 'zlib';
+import crc32 from 'buffer-crc32';
+import { extract as extractTar, pack as packTar } from 'tar-stream';
+import { fromRandomAccessReaderPromise, RandomAccessReader } from 'yauzl';
+import { ZipFile } from 'yazl';
+
+import { GCUtilsError } from '../core';
+
+/**
+ * Formats supported by `.archive` and `.extract`
+ */
+export type TArchiveFormat = 'zip' | 'tar.gz';
+
+/**
+ * Content type of the archive objects by format
+ */
+export const ARCHIVE_CONTENT_TYPES: { [format in TArchiveFormat]: string } = {
+    zip: 'application/zip',
+    'tar.gz': 'application/gzip',
+};
+
+/**
+ * Progress reported after each entry added or extracted
+ */
+export interface IArchiveProgress {
+    /**
+     * number of entries processed so far
+     */
+    entries: number;
+    /**
+     * number of uncompressed bytes processed so far
+     */
+    bytes: number;
+    /**
+     * name of the last entry processed
+     */
+    name: string;
+}
+
+/**
+ * Options for `.archive` and `.extract`
+ */
+export interface IArchiveOptions {
+    /**
+     * format of the archive.  Default to the format of the extension of the
+     * archive name, `.zip`, `.tar.gz` or `.tgz`, and to `zip` when archiving
+     * into a stream.
+     */
+    format?: TArchiveFormat;
+    /**
+     * called after each entry added or extracted
+     */
+    onProgress?: (progress: IArchiveProgress) => void;
+}
+
+/**
+ * Result of `.archive` and `.extract`
+ */
+export interface IArchiveReport {
+    entries: number;
+    /**
+     * total of uncompressed bytes of the entries
+     */
+    bytes: number;
+}
+
+/**
+ * Entry to be added to an archive
+ */
+export interface IArchiveSource {
+    /**
+     * name of the entry within the archive
+     */
+    name: string;
+    size: number;
+    mtime: Date;
+    /**
+     * open the content, called once the entry is written
+     */
+    open(): Readable;
+}
+
+/**
+ * Return the format of an archive from its name, or format if provided
+ *
+ * @param name
+ * @param format
+ * @returns undefined if the format cannot be inferred
+ */
+export function resolveArchiveFormat(
+    name: string | undefined,
+    format?: TArchiveFormat,
+): TArchiveFormat | undefined {
+    if (format !== undefined) {
+        if (format !== 'zip' && format !== 'tar.gz') {
+            throw new GCUtilsError(`Unsupported archive format ${format}`);
+        }
+        return format;
+    }
+    const lower = name?.toLowerCase() ?? '';
+    if (lower.endsWith('.zip')) {
+        return 'zip';
+    }
+    if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) {
+        return 'tar.gz';
+    }
+    return undefined;
+}
+
+/**
+ * Return the content of a source, calling onEntry with the number of bytes
+ * read once the content ends
+ *
+ * @param source
+ * @param onEntry
+ * @returns
+ */
+function openSource(
+    source: IArchiveSource,
+    onEntry?: (source: IArchiveSource, size: number) => void,
+): Readable {
+    let size = 0;
+    const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            size += chunk.length;
+            callback(null, chunk);
+        },
+        flush(callback) {
+            onEntry?.(source, size);
+            callback();
+        },
+    });
+    pipeline([source.open(), counter], () => undefined);
+    return counter;
+}
+
+/**
+ * Generate a zip archive of the sources, deflating each entry.  Zip64 is
+ * used once the archive exceeds the limits of the zip format.
+ *
+ * @param sources
+ * @param onEntry called after each entry read
+ * @returns
+ */
+function createZipStream(
+    sources: AsyncIterable<IArchiveSource>,
+    onEntry?: (source: IArchiveSource, size: number) => void,
+): Readable {
+    const zip = new ZipFile();
+    const output = zip.outputStream as Readable;
+    zip.on('error', (err: Error) => output.destroy(err));
+
+    const addEntries = async () => {
+        for await (const source of sources) {
+            zip.addReadStreamLazy(
+                source.name,
+                { mtime: source.mtime, size: source.size },
+                (callback) => {
+                    const content = openSource(source, onEntry);
+                    content.on('error', (err) => zip.emit('error', err));
+                    callback(null, content);
+                },
+            );
+        }
+        zip.end();
+    };
+    addEntries().catch((err: Error) => zip.emit('error', err));
+    return output;
+}
+
+/**
+ * Generate a gzipped tar archive of the sources.  Names longer than 100
+ * bytes use a pax extended header and sizes above 8 GB a base-256 size.
+ *
+ * @param sources
+ * @param onEntry called after each entry read
+ * @returns
+ */
+function createTarGzStream(
+    sources: AsyncIterable<IArchiveSource>,
+    onEntry?: (source: IArchiveSource, size: number) => void,
+): Readable {
+    const tar = packTar();
+    const output = createGzip();
+    pipeline(tar, output, () => undefined);
+
+    const addEntries = async () => {
+        for await (const source of sources) {
+            await new Promise<void>((resolve, reject) => {
+                const entry = tar.entry(
+                    {
+                        name: source.name,
+                        size: source.size,
+                        mtime: source.mtime,
+                    },
+                    (err) => (err ? reject(err) : resolve()),
+                );
+                entry.on('error', reject);
+                const content = openSource(source, onEntry);
+                content.on('error', reject);
+                content.pipe(entry);
+            });
+        }
+        tar.finalize();
+    };
+    addEntries().catch((err: Error) => tar.destroy(err));
+    return output;
+}
+
+/**
+ * Generate an archive of the sources, reading the content of each source
+ * only once the previous entries are written
+ *
+ * @param format
+ * @param sources
+ * @param onEntry called after each entry read
+ * @returns
+ */
+export function createArchiveStream(
+    format: TArchiveFormat,
+    sources: AsyncIterable<IArchiveSource>,
+    onEntry?: (source: IArchiveSource, size: number) => void,
+): Readable {
+    return format === 'zip'
+        ? createZipStream(sources, onEntry)
+        : createTarGzStream(sources, onEntry);
+}
+
+/**
+ * Read a gzipped tar archive, calling onEntry with the content of each
+ * regular file.  The content must be consumed before onEntry resolves;
+ * entries other than regular files are skipped.
+ *
+ * @param source gzipped tar content
+ * @param onEntry
+ */
+export async function readTarGz(
+    source: Readable,
+    onEntry: (name: string, content: Readable) => Promise<void>,
+): Promise<void> {
+    const tar = extractTar();
+    pipeline([source, createGunzip(), tar], () => undefined);
+    for await (const entry of tar) {
+        const { name, type } = entry.header;
+        if (type === 'file' || type === 'contiguous-file') {
+            await onEntry(name, Readable.from(entry));
+        }
+        // Skip what onEntry did not consume
+        entry.resume();
+    }
+}
+
+/**
+ * Reader of a zip by ranges of bytes
+ */
+class ZipRangeReader extends RandomAccessReader {
+    constructor(
+        protected readonly readRange: (start: number, end: number) => Readable,
+    ) {
+        super();
+    }
+
+    _readStreamForRange(start: number, end: number): Readable {
+        return start === end ? Readable.from([]) : this.readRange(start, end);
+    }
+}
+
+/**
+ * Return the uncompressed content of a zip entry, raising GCUtilsError once
+ * read if its CRC-32 doesn't match the central directory
+ *
+ * @param name
+ * @param expected CRC-32 of the central directory
+ * @param content
+ * @returns
+ */
+function verifyZipEntry(
+    name: string,
+    expected: number,
+    content: Readable,
+): Readable {
+    let value = 0;
+    const verifier = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            value = crc32.unsigned(chunk, value);
+            callback(null, chunk);
+        },
+        flush(callback) {
+            callback(
+                value === expected
+                    ? undefined
+                    : new GCUtilsError(
+                          `Content of zip entry ${name} is corrupted`,
+                      ),
+            );
+        },
+    });
+    pipeline([content, verifier], () => undefined);
+    return verifier;
+}
+
+/**
+ * Read a zip archive through ranges of bytes, calling onEntry with the
+ * uncompressed content of each file.  Directory entries are skipped.
+ *
+ * @param size size of the archive
+ * @param readRange return the bytes from start to end excluded
+ * @param onEntry
+ */
+export async function readZip(
+    size: number,
+    readRange: (start: number, end: number) => Readable,
+    onEntry: (name: string, content: Readable) => Promise<void>,
+): Promise<void> {
+    const reader = new ZipRangeReader(readRange);
+    const zip = await fromRandomAccessReaderPromise(reader, size, {
+        lazyEntries: true,
+    }).catch((err: Error) => {
+        throw new GCUtilsError(`Invalid zip archive: ${err.message}`, err);
+    });
+    for await (const entry of zip.eachEntry()) {
+        if (entry.fileName.endsWith('/')) {
+            continue;
+        }
+        const content = await zip.openReadStreamPromise(entry);
+        await onEntry(
+            entry.fileName,
+            verifyZipEntry(entry.fileName, entry.crc32, content),
+        );
+    }
+}
@@ -1,16 +1,131 @@
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
 import * as nodePath from 'path';
-import { Readable, Writable } from 'stream';
+import { IncomingHttpHeaders } from 'http';
+import {
+    pipeline as pipelineStreams,
+    Readable,
+    Transform,
+    Writable,
+} from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
 import { Observable } from 'rxjs';
 import { isEmpty, JLogger } from 'jlog-facade';
+import { createEntityAndValidate } from '@fp8/simple-config';
 import {
     Storage,
     File,
+    CopyOptions,
+    CreateReadStreamOptions,
     CreateWriteStreamOptions,
     Bucket,
+    FileOptions,
+    GetFilesOptions,
+    GetFilesResponse,
     StorageOptions,
 } from '@google-cloud/storage';
 
-import { GCUtilsError, createLogger } from '../core';
+import {
+    GCUtilsError,
+    convertToDate,
+    createLogger,
+    retry,
+    RetryError,
+    settleWithConcurrency,
+    TCreateEntityCallback,
+} from '../core';
+import {
+    IGsObjectMetadata,
+    IMetadataPatch,
+    toGsObjectMetadata,
+    toMetadataRequest,
+} from './metadata';
+import { ICsvOptions, parseCsv, splitLines } from './parsers';
+import {
+    generateDirectoryUri,
+    IDirectoryListing,
+    IListDirectoryOptions,
+    IWalkEntry,
+} from './directory';
+import { globPrefix, globToRegExp, isGlob } from './glob';
+import {
+    computeChecksum,
+    createChecksumStream,
+    createChecksumVerifier,
+    IChecksums,
+    parseGoogHash,
+    verifyChecksums,
+} from './checksum';
+import { createDecompressStream, isGzip } from './compression';
+import {
+    chunkItems,
+    createTempName,
+    DEFAULT_UPLOAD_PARTS,
+    IComposeOptions,
+    IParallelUploadOptions,
+    MAX_COMPOSE_SOURCES,
+    splitIntoParts,
+} from './compose';
+import { createLocalStorage } from './local-storage';
+import {
+    diffSnapshots,
+    IWatchEvent,
+    IWatchOptions,
+    IWatchPollResult,
+    resolveWatchInterval,
+    sleep,
+    TWatchSnapshot,
+} from './watch';
+import {
+    ARCHIVE_CONTENT_TYPES,
+    createArchiveStream,
+    IArchiveOptions,
+    IArchiveReport,
+    IArchiveSource,
+    readTarGz,
+    readZip,
+    resolveArchiveFormat,
+} from './archive';
+import { GsPath } from './gs-path';
+import { IReadCacheEntry, IReadCacheOptions, ReadCache } from './cache';
+import {
+    CONTENT_SNIFF_BYTES,
+    DEFAULT_CONTENT_TYPES,
+    GENERIC_CONTENT_TYPE,
+    IContentTypeFailure,
+    IContentTypeFix,
+    IFixContentTypesOptions,
+    IFixContentTypesReport,
+    lookupContentType,
+    mergeContentTypes,
+    peekStream,
+    readFileHead,
+    sniffContentType,
+    TContentTypeMap,
+} from './content-type';
+import {
+    compareGenerations,
+    IObjectVersion,
+    IPurgeVersionsOptions,
+    selectVersionsToPurge,
+} from './versions';
+import {
+    createProgressStream,
+    deleteUploadSession,
+    IDownloadOptions,
+    IUploadOptions,
+    IUploadSession,
+    loadUploadSession,
+    saveUploadSession,
+} from './transfer';
+import {
+    isSameContent,
+    ISyncEntry,
+    ISyncOptions,
+    ISyncReport,
+    listLocalFiles,
+} from './sync';
 
 const logger = createLogger('cloud-storage.base');
 
@@ -19,6 +134,16 @@ const logger = createLogger('cloud-storage.base');
  */
 export type TMetaData = { [key: string]: unknown };
 
+/**
+ * Content type used by `BStore.writeJson`
+ */
+export const CONTENT_TYPE_JSON = 'application/json';
+
+/**
+ * Default number of objects processed at the same time by prefix operations
+ */
+export const DEFAULT_CONCURRENCY = 10;
+
 /**
  * Define the Google Cloud Storage protocal code
  */
@@ -64,6 +189,16 @@ export interface IGsUri {
      * extension name
      */
     extname: string;
+    /**
+     * glob pattern of the path such as `exports/**\/2024-*.csv`, only set
+     * when the path contains `*`, `?`, `[` or `{`
+     */
+    glob?: string;
+    /**
+     * generation of the object, set by the `gs://bucket/path#generation`
+     * notation.  Reading a path with generation reads that generation.
+     */
+    generation?: string;
 }
 
 /**
@@ -77,7 +212,7 @@ export interface IRetrieveResult {
     /**
      * metadata of gspath
      */
-    meta: TMetaData;
+    meta: IGsObjectMetadata;
     /**
      * content of gspath as instance of Buffer
      */
@@ -85,249 +220,3099 @@ export interface IRetrieveResult {
 }
 
 /**
- * Parse a Google Storage path, breaking it into componets
- * defined by [IGsUri] interface
- *
- * @param gspath Google Storage path
+ * Data accepted by `BStore.write`
  */
-export function parseGsPath(gspath: string): IGsUri {
-    const uri = new URL(gspath);
-    const hostname = uri.hostname;
-    let path = uri.pathname || '';
+export type TWriteData = Buffer | string | Readable;
 
-    if (isEmpty(hostname) || typeof hostname !== 'string') {
-        throw new Error('No valid host passed in path uri ' + gspath);
-    }
+/**
+ * Options for `BStore.write`
+ */
+export interface IWriteOptions {
+    /**
+     * content type of the object, e.g. `application/pdf`
+     */
+    contentType?: string;
+    /**
+     * custom metadata to be set on the object
+     */
+    metadata?: { [key: string]: string };
+    /**
+     * cache control header of the object
+     */
+    cacheControl?: string;
+    /**
+     * use resumable upload.  Default to the Cloud Storage SDK's behavior
+     */
+    resumable?: boolean;
+    /**
+     * only write if the generation of the object matches.  Use `0` to only
+     * write if the object doesn't exist.  Failed precondition raises an error
+     * with code 412.
+     */
+    ifGenerationMatch?: number | string;
+    /**
+     * gzip the content before upload and set `contentEncoding` to `gzip`
+     * so it's decompressed upon read.  Default to false
+     */
+    compress?: boolean;
+}
 
-    if (uri.protocol !== BSTORE_PROTOCOL) {
-        throw new Error('Invalid protocol of "' + uri.protocol + '" detected');
-    }
+/**
+ * Range of bytes used by `BStore.readRange`
+ */
+export interface IReadRangeOptions {
+    /**
+     * first byte to read starting from 0.  Default to 0
+     */
+    start?: number;
+    /**
+     * last byte to read, inclusive.  Default to the last byte of the object
+     */
+    end?: number;
+}
 
-    // Strip leading '/' from path
-    if (path.startsWith('/')) {
-        path = path.substring(1);
-    }
+/**
+ * Range resolved against the size of the object by `BStore.readRange`,
+ * `BStore.head` and `BStore.tail`
+ */
+export type TByteRange =
+    IReadRangeOptions | { head: number } | { tail: number };
 
-    // Break the path to it's components
-    // eslint-disable-next-line prefer-const, @typescript-eslint/no-unused-vars
-    let { root, dir, base, ext, name } = nodePath.parse(path);
+/**
+ * Options for `BStore.read`, `BStore.retrieve` and `.createReadableStream`.
+ * A range is read from the stored bytes, never decompressed.
+ */
+export interface IReadOptions extends IReadRangeOptions {
+    /**
+     * decompress the gzip content detected by the `gzip` content encoding
+     * of the object or by the gzip magic bytes.  Set to false to return the
+     * stored bytes.  Default to only decompress the content with `gzip`
+     * content encoding.
+     */
+    decompress?: boolean;
+}
 
-    // If path is provided, the last part of the path shouldn't be considered as a file
-    if (path.endsWith('/')) {
-        name = '';
-        dir = `${dir}/${base}`;
-        base = '';
-    }
+/**
+ * Resolve the range of bytes to read from an object of size, raising
+ * GCUtilsError if the range is invalid or starts after the end of the object.
+ * The end is capped to the last byte; an empty object returns an empty range
+ * where `end` is lower than `start`.
+ *
+ * @param path gs path of the object used in the error message
+ * @param size size of the object
+ * @param range
+ * @returns
+ */
+export function resolveByteRange(
+    path: string,
+    size: number,
+    range: TByteRange,
+): { start: number; end: number } {
+    const isValid = (value: number | undefined, min: number) =>
+        value === undefined || (Number.isInteger(value) && value >= min);
 
-    // Strip leading '/' from dirname
-    if (dir.startsWith('/')) {
-        dir = dir.substring(1);
+    if ('head' in range || 'tail' in range) {
+        const bytes = 'head' in range ? range.head : range.tail;
+        if (!Number.isInteger(bytes) || bytes < 1) {
+            throw new GCUtilsError(
+                `Number of bytes to read from ${path} must be a positive integer but got ${bytes}`,
+            );
+        }
+        return 'head' in range
+            ? { start: 0, end: Math.min(bytes, size) - 1 }
+            : { start: Math.max(size - bytes, 0), end: size - 1 };
     }
 
-    return {
-        basename: name,
-        bucket: hostname,
-        dirname: dir,
-        extname: ext,
-        filename: base,
-        path,
-    };
+    const start = range.start ?? 0;
+    if (
+        !isValid(range.start, 0) ||
+        !isValid(range.end, start) ||
+        (start > 0 && start >= size)
+    ) {
+        throw new GCUtilsError(
+            `Invalid range ${range.start ?? ''}-${range.end ?? ''} for ${path} of ${size} bytes`,
+        );
+    }
+    return { start, end: Math.min(range.end ?? size - 1, size - 1) };
 }
 
 /**
- * Create the IGsUri data structure based on bucket and file parts
+ * Convert the IWriteOptions into CreateWriteStreamOptions used by Cloud Storage SDK
  *
- * @param bucket
- * @param filepath
- * @param dirname
+ * @param options
  * @returns
  */
-export function generateGsUri(
-    bucket: string,
-    filepath: string,
-    dirname?: string,
-): IGsUri {
-    let fullpath = '';
-
-    // Using the path.join to handle scenario where dirname is passed and filepath also contains path
-    if (dirname === undefined) {
-        fullpath = filepath;
-    } else {
-        fullpath = nodePath.join(dirname, filepath);
+export function createWriteStreamOptions(
+    options?: IWriteOptions,
+): CreateWriteStreamOptions {
+    const result: CreateWriteStreamOptions = {};
+    if (options === undefined) {
+        return result;
     }
 
-    // Break the filepath to it's basic components
-    const { root: _ignore, dir, base, ext, name } = nodePath.parse(fullpath);
-
-    // if filename is not provided, the dirname is sourced from the filepath components
-    if (dirname === undefined) {
-        dirname = dir;
+    const metadata: TMetaData = {};
+    if (options.contentType) {
+        result.contentType = options.contentType;
     }
-
-    return {
-        basename: name,
-        bucket,
-        dirname: dirname,
-        extname: ext,
-        filename: base,
-        path: fullpath,
-    };
+    if (options.cacheControl) {
+        metadata.cacheControl = options.cacheControl;
+    }
+    if (options.metadata) {
+        metadata.metadata = options.metadata;
+    }
+    if (options.compress) {
+        metadata.contentEncoding = 'gzip';
+    }
+    if (Object.keys(metadata).length) {
+        result.metadata = metadata;
+    }
+    if (options.resumable !== undefined) {
+        result.resumable = options.resumable;
+    }
+    if (options.ifGenerationMatch !== undefined) {
+        result.preconditionOpts = {
+            ifGenerationMatch: options.ifGenerationMatch,
+        };
+    }
+    return result;
 }
 
 /**
- * Build the string path to Google Storage from a instance [IGsUri] object.
- *
- * Trapping error as this method is often used by this.logger
- *
- * @param gsuri
+ * Content of an object with the generation it was read from
  */
-export function generateGsPath(gsuri: IGsUri): string {
-    if (isEmpty(gsuri) || isEmpty(gsuri.bucket) || isEmpty(gsuri.path)) {
-        throw new Error(
-            'Invalid gsuri passed to generateGsPath: ' + JSON.stringify(gsuri),
-        );
-    }
+export interface IGenerationResult {
+    /**
+     * content of the object as instance of Buffer
+     */
+    buffer: Buffer;
+    /**
+     * generation of the object read
+     */
+    generation: string;
+    /**
+     * content encoding of the object, `gzip` if the buffer was decompressed
+     */
+    contentEncoding?: string;
+}
 
-    // Create a new URL passig the path and hostname
-    const url = new URL(gsuri.path, `${BSTORE_PROTOCOL}//${gsuri.bucket}`);
-    return url.toString();
+/**
+ * Options for `BStore.delete`
+ */
+export interface IDeleteOptions {
+    /**
+     * only delete if the generation of the object matches
+     */
+    ifGenerationMatch?: number | string;
+    /**
+     * do not raise an error if the object doesn't exist.  Default to false
+     */
+    ignoreNotFound?: boolean;
 }
 
 /**
- * The error callback used by the contractor of AbstractBStore
+ * Callback of `BStore.modify` receiving the current content of the object,
+ * or undefined if it doesn't exist, and returning the new content
  */
-export type TErrorCallback = (err: Error) => void;
+export type TModifyCallback = (
+    content: Buffer | undefined,
+    generation: string,
+) => TWriteData | Promise<TWriteData>;
 
 /**
- * Default error handler for BStore used if no error handler is passed in the constructor.
+ * Options for `BStore.modify`
+ */
+export interface IModifyOptions extends Omit<
+    IWriteOptions,
+    'ifGenerationMatch'
+> {
+    /**
+     * maximum number of attempts upon concurrent update.  Default to 5
+     */
+    maxRetry?: number;
+    /**
+     * number of milliseconds to wait before the next attempt.  Default to 100
+     */
+    waitFor?: number;
+}
+
+/**
+ * Check if the error is a failed precondition (412) raised by Cloud Storage
  *
  * @param err
+ * @returns
  */
-const defaultErrorHandler: TErrorCallback = (err: Error): void => {
-    const message =
-        'Make sure to pass a specific ErrorHandler in the constructor of BStore';
-    logger.error(`Unhandled error in BStore: ${err.message}.  ${message}`, err);
-    // Error is not rethrown as it will be caught again by this error handler
-};
+export function isPreconditionFailed(err: unknown): boolean {
+    return hasErrorCode(err, 412);
+}
 
 /**
- * Options for the BStore classes
+ * Check if the error, or its cause, has the provided http status code
+ *
+ * @param err
+ * @param code
+ * @returns
  */
-export interface IBStoreOptions extends StorageOptions {
-    errorHandler?: TErrorCallback;
+function hasErrorCode(err: unknown, code: number): boolean {
+    if (!(err instanceof Error)) {
+        return false;
+    }
+    if ((err as { code?: unknown }).code === code) {
+        return true;
+    }
+    return hasErrorCode(err.cause, code);
 }
 
 /**
- * Abstract class for core methods of the Google Cloud Storage.
- *
- * NOTE: it's is critical to use the error handler callback on
- * the constructor or listen to `error` event when working with
- * reable or writeable streams.  Otherwise, any error will cause
- * node js' uncaughtException making error handling impossible.
+ * Options for `BStore.copy` and `BStore.move`.  Metadata of the source object
+ * is preserved unless overridden by the options.
  */
-export abstract class AbstractBStore {
+export interface ICopyOptions {
     /**
-     * Flag to indicate if the error handler was set in the constructor
-     * or not.  If not, the defaultErrorHandler will be used.
+     * override the content type of the destination
      */
-    #errorHandlerSetInConstructor = false;
-
+    contentType?: string;
     /**
-     * Optional instance of error handler
+     * override the cache control header of the destination
      */
-    protected _errorHandler: TErrorCallback = defaultErrorHandler;
-
+    cacheControl?: string;
     /**
-     * this.logger for BStore
+     * override the custom metadata of the destination
      */
-    protected abstract logger: JLogger;
-
+    metadata?: { [key: string]: string };
     /**
-     * Instance of Google Storage
+     * number of objects copied at the same time by the prefix operations.
+     * Default to `DEFAULT_CONCURRENCY`
      */
-    readonly #storage: Storage;
+    concurrency?: number;
+}
 
+/**
+ * An object successfully processed by a prefix operation
+ */
+export interface ITransferEntry {
     /**
-     * Allow caller to pass errorHandler to handle the error event thrown
-     * by Storage operations
-     *
-     * @param options
+     * gs path of the source object
      */
-    constructor(options?: IBStoreOptions) {
-        this.#storage = new Storage(options);
-        if (options?.errorHandler) {
-            this.setErrorHandler(options.errorHandler);
-        }
-    }
-
+    source: string;
     /**
-     * Allow caller to set/replace the error handler callback.
-     *
-     * @param errorHandler
+     * gs path of the destination object
      */
-    public setErrorHandler(errorHandler: TErrorCallback): void {
-        this.#errorHandlerSetInConstructor = true;
-        this._errorHandler = errorHandler;
-    }
+    destination: string;
+}
+
+/**
+ * An object that failed to be processed by a prefix operation
+ */
+export interface ITransferFailure extends ITransferEntry {
+    error: Error;
+}
+
+/**
+ * Report of `BStore.copyPrefix` and `BStore.movePrefix`
+ */
+export interface ITransferReport {
+    succeeded: ITransferEntry[];
+    failed: ITransferFailure[];
+}
 
+/**
+ * Options for `BStore.processFiles`
+ */
+export interface IProcessFilesOptions {
     /**
-     * Return an instance of Google Cloud Storage File
-     *
-     * @param input
-     * @returns
+     * number of actions in progress at the same time.  Default to `DEFAULT_CONCURRENCY`
      */
-    public blob(input: IGsUri | string): File {
-        return this.getBlob(input);
-    }
+    concurrency?: number;
+    /**
+     * keep processing the remaining files after a failed action.  Default to
+     * false where no new action is started after the first failure.
+     */
+    continueOnError?: boolean;
+    /**
+     * stop starting new actions once aborted
+     */
+    signal?: AbortSignal;
+}
 
+/**
+ * A file successfully processed by `BStore.processFiles`
+ */
+export interface IProcessFilesSuccess<T> {
+    file: File;
+    result: T;
     /**
-     * Return a reable stream.  Need to use the error callback in the constructor
-     * or listen to the `error` event of the resulting Readable
-     *
-     * @param gspath
-     * @returns
+     * duration of the action in milliseconds
      */
-    public createReadableStream(gspath: File | IGsUri | string): Readable {
-        const stream = this.getBlob(gspath).createReadStream();
+    duration: number;
+}
+
+/**
+ * A file for which the action of `BStore.processFiles` failed
+ */
+export interface IProcessFilesFailure {
+    file: File;
+    error: Error;
+    /**
+     * duration of the action in milliseconds
+     */
+    duration: number;
+}
+
+/**
+ * Report of `BStore.processFiles`.  Files not processed due to a failure
+ * or an abort are listed in `skipped`.
+ */
+export interface IProcessFilesReport<T> {
+    succeeded: IProcessFilesSuccess<T>[];
+    failed: IProcessFilesFailure[];
+    skipped: File[];
+    /**
+     * total duration in milliseconds
+     */
+    duration: number;
+}
+
+/**
+ * Options for `BStore.deleteFiles`
+ */
+export interface IDeleteFilesOptions {
+    /**
+     * only return the objects that would be deleted.  Default to false
+     */
+    dryRun?: boolean;
+    /**
+     * must be set to delete from the root of the bucket.  Default to false
+     */
+    confirmBucketRoot?: boolean;
+    /**
+     * only delete objects last updated before this date
+     */
+    olderThan?: Date;
+    /**
+     * number of objects deleted at the same time.  Default to `DEFAULT_CONCURRENCY`
+     */
+    concurrency?: number;
+}
+
+/**
+ * An object that failed to be deleted by `BStore.deleteFiles`
+ */
+export interface IDeleteFailure {
+    /**
+     * gs path of the object
+     */
+    path: string;
+    error: Error;
+}
+
+/**
+ * Report of `BStore.deleteFiles`.  On dry run, `deleted` lists the objects
+ * that would be deleted.
+ */
+export interface IDeleteFilesReport {
+    dryRun: boolean;
+    /**
+     * gs path of the deleted objects
+     */
+    deleted: string[];
+    failed: IDeleteFailure[];
+}
+
+/**
+ * Return the options of `Bucket.file` pinning the generation of gs, if any
+ *
+ * @param gs
+ * @returns
+ */
+function createFileOptions(gs: IGsUri): FileOptions | undefined {
+    return gs.generation === undefined
+        ? undefined
+        : { generation: gs.generation };
+}
+
+/**
+ * Return the path of a file used as key of the read cache, without generation
+ *
+ * @param blob
+ * @returns
+ */
+function toCachePath(blob: File): string {
+    return generateGsPath(generateGsUri(blob.bucket.name, blob.name));
+}
+
+/**
+ * Convert the ICopyOptions into CopyOptions used by Cloud Storage SDK
+ *
+ * @param options
+ * @returns
+ */
+export function createCopyOptions(options?: ICopyOptions): CopyOptions {
+    const result: CopyOptions = {};
+    if (options?.contentType) {
+        result.contentType = options.contentType;
+    }
+    if (options?.cacheControl) {
+        result.cacheControl = options.cacheControl;
+    }
+    if (options?.metadata) {
+        result.metadata = options.metadata;
+    }
+    return result;
+}
+
+/**
+ * Options for `BStore.iterateFiles`
+ */
+export interface IListFilesOptions {
+    /**
+     * number of objects requested per api call
+     */
+    pageSize?: number;
+    /**
+     * resume the listing from a token reported by `onPageToken`
+     */
+    pageToken?: string;
+    /**
+     * only list objects whose name is lexicographically equal or after
+     */
+    startOffset?: string;
+    /**
+     * only list objects whose name is lexicographically before
+     */
+    endOffset?: string;
+    /**
+     * called once all files of a page have been consumed with the token of
+     * the next page, undefined on the last page.  Pass the last token
+     * reported as `pageToken` to resume the listing.
+     */
+    onPageToken?: (pageToken: string | undefined) => void;
+}
+
+/**
+ * Create the `Bucket.getFiles` options listing the path of gs.  For a glob,
+ * the prefix is the part before the first pattern and `matchGlob` is set.
+ * The matcher returned must also be applied for backends ignoring `matchGlob`.
+ *
+ * @param gs
+ * @param options
+ * @returns
+ */
+export function createListQuery(
+    gs: IGsUri,
+    options: GetFilesOptions = {},
+): { query: GetFilesOptions; matcher?: RegExp } {
+    const query: GetFilesOptions = { ...options };
+    if (gs.glob) {
+        const prefix = globPrefix(gs.glob);
+        if (prefix) {
+            query.prefix = prefix;
+        }
+        query.matchGlob = gs.glob;
+        return { query, matcher: globToRegExp(gs.glob) };
+    }
+    if (gs.path) {
+        query.prefix = gs.path;
+    }
+    return { query };
+}
+
+/**
+ * Maximum expiration of V4 signed url and policy in seconds (7 days)
+ */
+export const MAX_SIGNED_EXPIRES_IN = 604800;
+
+/**
+ * Service account key used to sign url and policy without calling Google Cloud
+ */
+export interface IServiceAccountKey {
+    client_email: string;
+    private_key: string;
+}
+
+/**
+ * Options for `BStore.getSignedUrl`
+ */
+export interface ISignedUrlOptions {
+    /**
+     * action allowed by the url.  Default to `read`
+     */
+    action?: 'read' | 'write' | 'resumable';
+    /**
+     * number of seconds before the url expires.  Default to 900 (15 minutes)
+     */
+    expiresIn?: number;
+    /**
+     * content type that must be sent by the client
+     */
+    contentType?: string;
+    /**
+     * Content-Disposition header returned on read, e.g. `attachment; filename="report.pdf"`
+     */
+    responseDisposition?: string;
+    /**
+     * sign using this key instead of the credentials of the storage
+     */
+    credentials?: IServiceAccountKey;
+}
+
+/**
+ * Options for `BStore.getSignedPostPolicy`
+ */
+export interface ISignedPostPolicyOptions {
+    /**
+     * number of seconds before the policy expires.  Default to 900 (15 minutes)
+     */
+    expiresIn?: number;
+    /**
+     * content type that must be sent by the client
+     */
+    contentType?: string;
+    /**
+     * minimum size of the upload in bytes
+     */
+    minSize?: number;
+    /**
+     * maximum size of the upload in bytes
+     */
+    maxSize?: number;
+    /**
+     * additional form fields to be included in the policy
+     */
+    fields?: { [key: string]: string };
+    /**
+     * sign using this key instead of the credentials of the storage
+     */
+    credentials?: IServiceAccountKey;
+}
+
+/**
+ * Url and form fields of a signed POST policy to be used in a html form
+ */
+export interface ISignedPostPolicy {
+    url: string;
+    fields: { [key: string]: string };
+}
+
+/**
+ * Convert the number of seconds before expiration into a Date
+ *
+ * @param expiresIn
+ * @returns
+ */
+function computeExpires(expiresIn = 900): Date {
+    if (!(expiresIn > 0 && expiresIn <= MAX_SIGNED_EXPIRES_IN)) {
+        throw new GCUtilsError(
+            `expiresIn must be between 1 and ${MAX_SIGNED_EXPIRES_IN} seconds [${expiresIn}]`,
+        );
+    }
+    return new Date(Date.now() + expiresIn * 1000);
+}
+
+/**
+ * Parse a Google Storage path, breaking it into componets
+ * defined by [IGsUri] interface.  If the path contains a glob pattern
+ * such as `gs://bucket/exports/**\/2024-*.csv`, the path is kept verbatim
+ * and also set in `glob`.
+ *
+ * @param gspath Google Storage path
+ */
+export function parseGsPath(gspath: string): IGsUri {
+    const uri = new URL(gspath);
+    const hostname = uri.hostname;
+    let path = uri.pathname || '';
+
+    if (isEmpty(hostname) || typeof hostname !== 'string') {
+        throw new Error('No valid host passed in path uri ' + gspath);
+    }
+
+    if (uri.protocol !== BSTORE_PROTOCOL) {
+        throw new Error('Invalid protocol of "' + uri.protocol + '" detected');
+    }
+
+    // Strip leading '/' from path
+    if (path.startsWith('/')) {
+        path = path.substring(1);
+    }
+
+    // URL encodes or splits the glob characters; use the raw path instead
+    let rawPath = /^[^/]*\/\/[^/]*\/(.*)$/.exec(gspath)?.[1] ?? '';
+
+    // Generation set with the gs://bucket/path#generation notation
+    const generation = /^#(\d+)$/.exec(uri.hash)?.[1];
+    if (generation !== undefined) {
+        rawPath = rawPath.substring(0, rawPath.length - uri.hash.length);
+    }
+
+    const glob = isGlob(rawPath) ? rawPath : undefined;
+    if (glob !== undefined) {
+        path = glob;
+    }
+
+    const result = splitGsPath(hostname, path, glob);
+    if (generation !== undefined) {
+        result.generation = generation;
+    }
+    return result;
+}
+
+/**
+ * Break the path of an object into the components of IGsUri.  A path ending
+ * with `/` is a directory without filename.
+ *
+ * @param bucket
+ * @param path path of the object without leading `/`
+ * @param glob glob pattern of the path, if any
+ * @returns
+ */
+export function splitGsPath(
+    bucket: string,
+    path: string,
+    glob?: string,
+): IGsUri {
+    // Break the path to it's components
+    // eslint-disable-next-line prefer-const, @typescript-eslint/no-unused-vars
+    let { root, dir, base, ext, name } = nodePath.parse(path);
+
+    // If path is provided, the last part of the path shouldn't be considered as a file
+    if (path.endsWith('/')) {
+        name = '';
+        dir = `${dir}/${base}`;
+        base = '';
+    }
+
+    // Strip leading '/' from dirname
+    if (dir.startsWith('/')) {
+        dir = dir.substring(1);
+    }
+
+    const result: IGsUri = {
+        basename: name,
+        bucket,
+        dirname: dir,
+        extname: ext,
+        filename: base,
+        path,
+    };
+    if (glob !== undefined) {
+        result.glob = glob;
+    }
+    return result;
+}
+
+/**
+ * Create the IGsUri data structure based on bucket and file parts
+ *
+ * @param bucket
+ * @param filepath
+ * @param dirname
+ * @returns
+ */
+export function generateGsUri(
+    bucket: string,
+    filepath: string,
+    dirname?: string,
+): IGsUri {
+    let fullpath = '';
+
+    // Using the path.join to handle scenario where dirname is passed and filepath also contains path
+    if (dirname === undefined) {
+        fullpath = filepath;
+    } else {
+        fullpath = nodePath.join(dirname, filepath);
+    }
+
+    // Break the filepath to it's basic components
+    const { root: _ignore, dir, base, ext, name } = nodePath.parse(fullpath);
+
+    // if filename is not provided, the dirname is sourced from the filepath components
+    if (dirname === undefined) {
+        dirname = dir;
+    }
+
+    return {
+        basename: name,
+        bucket,
+        dirname: dirname,
+        extname: ext,
+        filename: base,
+        path: fullpath,
+    };
+}
+
+/**
+ * Build the string path to Google Storage from a instance [IGsUri] object.
+ *
+ * Trapping error as this method is often used by this.logger
+ *
+ * @param gsuri
+ */
+export function generateGsPath(gsuri: IGsUri): string {
+    if (isEmpty(gsuri) || isEmpty(gsuri.bucket) || isEmpty(gsuri.path)) {
+        throw new Error(
+            'Invalid gsuri passed to generateGsPath: ' + JSON.stringify(gsuri),
+        );
+    }
+
+    const suffix = gsuri.generation ? `#${gsuri.generation}` : '';
+
+    // Glob would be encoded by URL
+    if (gsuri.glob) {
+        return `${BSTORE_PROTOCOL}//${gsuri.bucket}/${gsuri.glob}${suffix}`;
+    }
+
+    // Create a new URL passig the path and hostname
+    const url = new URL(gsuri.path, `${BSTORE_PROTOCOL}//${gsuri.bucket}`);
+    return `${url.toString()}${suffix}`;
+}
+
+/**
+ * The error callback used by the contractor of AbstractBStore
+ */
+export type TErrorCallback = (err: Error) => void;
+
+/**
+ * Default error handler for BStore used if no error handler is passed in the constructor.
+ *
+ * @param err
+ */
+const defaultErrorHandler: TErrorCallback = (err: Error): void => {
+    const message =
+        'Make sure to pass a specific ErrorHandler in the constructor of BStore';
+    logger.error(`Unhandled error in BStore: ${err.message}.  ${message}`, err);
+    // Error is not rethrown as it will be caught again by this error handler
+};
+
+/**
+ * Options for the BStore classes
+ */
+export interface IBStoreOptions extends StorageOptions {
+    errorHandler?: TErrorCallback;
+    createEntityCallback?: TCreateEntityCallback;
+    /**
+     * verify the CRC32C and MD5 checksums of the content read and written,
+     * raising ChecksumMismatchError upon mismatch.  Default to true
+     */
+    verifyChecksum?: boolean;
+    /**
+     * keep the objects locally instead of Google Cloud Storage, addressed by
+     * the same `gs://` paths: `file://` followed by the directory holding a
+     * sub directory per bucket or `mem://` followed by an optional name
+     * shared by the instances using the same backend.  Default to Google
+     * Cloud Storage.
+     */
+    backend?: string;
+    /**
+     * cache the content read by `BStore.read` and `BStore.retrieve`, keyed
+     * by path and generation.  Default to no cache.
+     */
+    cache?: IReadCacheOptions;
+    /**
+     * set the content type of the objects written without one from their
+     * extension or, for an unknown extension, from the first bytes of the
+     * content.  Default to true
+     */
+    detectContentType?: boolean;
+    /**
+     * content type by extension, such as `{ '.sql': 'application/sql' }`,
+     * extending or overriding `DEFAULT_CONTENT_TYPES`
+     */
+    contentTypes?: TContentTypeMap;
+}
+
+/**
+ * Abstract class for core methods of the Google Cloud Storage.
+ *
+ * NOTE: it's is critical to use the error handler callback on
+ * the constructor or listen to `error` event when working with
+ * reable or writeable streams.  Otherwise, any error will cause
+ * node js' uncaughtException making error handling impossible.
+ */
+export abstract class AbstractBStore {
+    /**
+     * Flag to indicate if the error handler was set in the constructor
+     * or not.  If not, the defaultErrorHandler will be used.
+     */
+    #errorHandlerSetInConstructor = false;
+
+    /**
+     * Optional instance of error handler
+     */
+    protected _errorHandler: TErrorCallback = defaultErrorHandler;
+
+    /**
+     * Optional callback used by `.readJson` to create an entity from the json
+     */
+    protected createEntityCallback: TCreateEntityCallback | undefined =
+        undefined;
+
+    /**
+     * Verify the checksums of the content read and written
+     */
+    protected verifyChecksum = true;
+
+    /**
+     * Cache of the content read, undefined if not enabled
+     */
+    protected readCache: ReadCache | undefined = undefined;
+
+    /**
+     * Detect the content type of the objects written without one
+     */
+    protected detectContentType = true;
+
+    /**
+     * Content type by extension used to detect the content type
+     */
+    protected contentTypes: Readonly<TContentTypeMap> = DEFAULT_CONTENT_TYPES;
+
+    /**
+     * this.logger for BStore
+     */
+    protected abstract logger: JLogger;
+
+    /**
+     * Instance of Google Storage
+     */
+    readonly #storage: Storage;
+
+    /**
+     * Allow caller to pass errorHandler to handle the error event thrown
+     * by Storage operations
+     *
+     * @param options
+     */
+    constructor(options?: IBStoreOptions) {
+        this.#storage = options?.backend
+            ? createLocalStorage(options.backend)
+            : new Storage(options);
+        if (options?.errorHandler) {
+            this.setErrorHandler(options.errorHandler);
+        }
+        this.createEntityCallback = options?.createEntityCallback;
+        this.verifyChecksum = options?.verifyChecksum ?? true;
+        if (options?.cache) {
+            this.readCache = new ReadCache(options.cache);
+        }
+        this.detectContentType = options?.detectContentType ?? true;
+        if (options?.contentTypes) {
+            this.contentTypes = mergeContentTypes(options.contentTypes);
+        }
+    }
+
+    /**
+     * Allow caller to set/replace the error handler callback.
+     *
+     * @param errorHandler
+     */
+    public setErrorHandler(errorHandler: TErrorCallback): void {
+        this.#errorHandlerSetInConstructor = true;
+        this._errorHandler = errorHandler;
+    }
+
+    /**
+     * Return an instance of Google Cloud Storage File
+     *
+     * @param input
+     * @returns
+     */
+    public blob(input: IGsUri | string): File {
+        return this.getBlob(input);
+    }
+
+    /**
+     * Return a reable stream.  Need to use the error callback in the constructor
+     * or listen to the `error` event of the resulting Readable
+     *
+     * @param gspath
+     * @param options decompression of gzip content
+     * @returns
+     */
+    public createReadableStream(
+        gspath: File | IGsUri | string,
+        options?: IReadOptions,
+    ): Readable {
+        const blob = this.getBlob(gspath);
+        // Decompress after the verification of the stored bytes
+        const readOptions: CreateReadStreamOptions = { decompress: false };
+        if (options?.start !== undefined) {
+            readOptions.start = options.start;
+        }
+        if (options?.end !== undefined) {
+            readOptions.end = options.end;
+        }
+        const source = blob.createReadStream(readOptions);
+        const transforms: Transform[] = [];
+
+        let contentEncoding: string | undefined;
+        let expected: Partial<IChecksums> | undefined;
+        source.on('response', (res: { headers?: IncomingHttpHeaders }) => {
+            const headers = res.headers ?? {};
+            contentEncoding = headers['content-encoding'];
+            // Only the stored content can be verified; not a range or a transcoded content
+            if (
+                headers['content-range'] === undefined &&
+                (headers['x-goog-stored-content-encoding'] !== 'gzip' ||
+                    contentEncoding === 'gzip')
+            ) {
+                expected = parseGoogHash(headers['x-goog-hash']);
+            }
+        });
+
+        if (this.verifyChecksum) {
+            transforms.push(
+                createChecksumVerifier(this.toGsPath(gspath), () => expected),
+            );
+        }
+        const decompress = options?.decompress;
+        const isRange = 'start' in readOptions || 'end' in readOptions;
+        if (decompress !== false && !isRange) {
+            transforms.push(
+                createDecompressStream(
+                    (head) =>
+                        contentEncoding === 'gzip' ||
+                        (decompress === true && isGzip(head)),
+                ),
+            );
+        }
+
+        let stream: Readable = source;
+        if (transforms.length) {
+            // Error of the source is sent to the last stream that also closes the source if destroyed
+            pipelineStreams([source, ...transforms], () => undefined);
+            stream = transforms[transforms.length - 1];
+        }
 
         stream.on('error', (err) => {
-            const error = new GCUtilsError(err);
+            const error =
+                err instanceof GCUtilsError ? err : new GCUtilsError(err);
             const logMessage = `Reable error event for ${gspath}: ${error.message}`;
             // Only log if the error handler was set in the constructor incase caller doesn't log anything
             // If it's not set, the default error handler will log a warning
             if (this.#errorHandlerSetInConstructor) {
                 this.logger.debug(logMessage);
             }
-            this._errorHandler(error);
+            this._errorHandler(error);
+        });
+
+        return stream;
+    }
+
+    /**
+     * Return a writable stream.  Need to use the error callback in the constructor
+     * or listen to the `error` event of the resulting Readable.  The content
+     * type is set from the extension if not provided.
+     *
+     * @param gspath
+     */
+    public createWriteableStream(
+        gspath: File | IGsUri | string,
+        options?: CreateWriteStreamOptions,
+    ): Writable {
+        const blob = this.getBlob(gspath);
+        let writeOptions = options;
+        if (!options?.contentType && !options?.metadata?.contentType) {
+            const contentType = this.inferContentType(gspath);
+            if (contentType !== undefined) {
+                writeOptions = { ...options, contentType };
+            }
+        }
+        const stream = blob.createWriteStream(writeOptions);
+
+        stream.on('error', (err) => {
+            const error = new GCUtilsError(err);
+            const logMessage = `Wriable error event for ${gspath}: ${error.message}`;
+            // Only log if the error handler was set in the constructor incase caller doesn't log anything
+            // If it's not set, the default error handler will log a warning
+            if (this.#errorHandlerSetInConstructor) {
+                this.logger.debug(logMessage);
+            }
+            this._errorHandler(error);
+        });
+
+        return stream;
+    }
+
+    /**
+     * Write data to a Google Storage File and return the metadata of the
+     * resulting object.  Error on the writeable stream is also sent to the
+     * error handler.
+     *
+     * @param gspath
+     * @param data
+     * @param options
+     * @returns
+     */
+    protected async writeData(
+        gspath: File | IGsUri | string,
+        data: TWriteData,
+        options?: IWriteOptions,
+    ): Promise<IGsObjectMetadata> {
+        const blob = this.getBlob(gspath);
+        let source =
+            data instanceof Readable
+                ? data
+                : Readable.from([
+                      typeof data === 'string' ? Buffer.from(data) : data,
+                  ]);
+
+        // Detect the content type from the first chunk if the extension is unknown
+        let contentType = options?.contentType || this.inferContentType(gspath);
+        if (contentType === undefined && this.detectContentType) {
+            let head: Buffer;
+            if (data instanceof Readable) {
+                ({ head, stream: source } = await peekStream(data));
+            } else {
+                head = typeof data === 'string' ? Buffer.from(data) : data;
+            }
+            contentType = sniffContentType(
+                head.subarray(0, CONTENT_SNIFF_BYTES),
+            );
+        }
+
+        const destination = this.createWriteableStream(
+            blob,
+            createWriteStreamOptions({ ...options, contentType }),
+        );
+        const transforms: Transform[] = options?.compress ? [createGzip()] : [];
+        return this.pipeToBlob(
+            gspath,
+            blob,
+            [source, ...transforms],
+            destination,
+        );
+    }
+
+    /**
+     * Pipe the streams into the write stream of blob, verifying the checksums
+     * of the resulting object, and return its metadata
+     *
+     * @param gspath path of blob reported upon checksum mismatch
+     * @param blob
+     * @param streams source followed by the transforms
+     * @param destination write stream of blob
+     * @param signal destroy the streams when aborted
+     * @returns
+     */
+    protected async pipeToBlob(
+        gspath: File | IGsUri | string,
+        blob: File,
+        streams: Array<Readable | Transform>,
+        destination: Writable,
+        signal?: AbortSignal,
+    ): Promise<IGsObjectMetadata> {
+        this.invalidateCache(blob);
+        if (!this.verifyChecksum) {
+            await pipeline([...streams, destination], { signal });
+            return toGsObjectMetadata(blob.metadata);
+        }
+
+        // Checksums of the object are the one of the compressed content
+        const checksum = createChecksumStream();
+        await pipeline([...streams, checksum.stream, destination], { signal });
+
+        // Metadata of the blob is updated upon completion of the upload
+        const meta = blob.metadata;
+        const error = verifyChecksums(
+            this.toGsPath(gspath),
+            { crc32c: meta.crc32c, md5: meta.md5Hash },
+            checksum.digest(),
+        );
+        if (error) {
+            throw error;
+        }
+        return toGsObjectMetadata(meta);
+    }
+
+    /**
+     * Stream an object to a local file, written to a temporary file renamed
+     * once complete so an interrupted download never leaves a partial file
+     *
+     * @param gspath
+     * @param localPath
+     * @param options
+     * @returns metadata of the generation downloaded
+     */
+    protected async downloadFile(
+        gspath: File | IGsUri | string,
+        localPath: string,
+        options: IDownloadOptions = {},
+    ): Promise<IGsObjectMetadata> {
+        const blob = this.getBlob(gspath);
+        const [meta] = await blob.getMetadata();
+        const pinned = blob.bucket.file(blob.name, {
+            generation: `${meta.generation}`,
+        });
+
+        // Size is unknown if the content is decompressed
+        const decompressed =
+            meta.contentEncoding === 'gzip' || options.decompress === true;
+        const totalBytes =
+            decompressed && options.decompress !== false
+                ? undefined
+                : Number(meta.size);
+
+        const tempPath = `${localPath}.${process.pid}.tmp`;
+        await fs.promises.mkdir(nodePath.dirname(localPath), {
+            recursive: true,
+        });
+        try {
+            await pipeline(
+                [
+                    this.createReadableStream(pinned, {
+                        decompress: options.decompress,
+                    }),
+                    createProgressStream(totalBytes, options),
+                    fs.createWriteStream(tempPath),
+                ],
+                { signal: options.signal },
+            );
+            await fs.promises.rename(tempPath, localPath);
+        } catch (err) {
+            await fs.promises.rm(tempPath, { force: true });
+            throw this.toTransferError(
+                err,
+                `Download of ${this.toGsPath(blob)}`,
+            );
+        }
+        return toGsObjectMetadata(meta);
+    }
+
+    /**
+     * Stream a local file to an object with a resumable upload, resuming
+     * the session saved in `options.sessionFile` if any
+     *
+     * @param localPath
+     * @param gspath
+     * @param options
+     * @returns metadata of the object uploaded
+     */
+    protected async uploadFile(
+        localPath: string,
+        gspath: File | IGsUri | string,
+        options: IUploadOptions = {},
+    ): Promise<IGsObjectMetadata> {
+        const blob = this.getBlob(gspath);
+        const destination = this.toGsPath(blob);
+        const stats = await fs.promises.stat(localPath);
+        const sessionFile = options.sessionFile;
+        if (
+            !options.contentType &&
+            this.detectContentType &&
+            this.inferContentType(blob) === undefined
+        ) {
+            const head = await readFileHead(localPath, CONTENT_SNIFF_BYTES);
+            options = { ...options, contentType: sniffContentType(head) };
+        }
+
+        let session =
+            sessionFile === undefined
+                ? undefined
+                : await loadUploadSession(sessionFile);
+        if (
+            session !== undefined &&
+            (session.destination !== destination ||
+                session.size !== stats.size ||
+                session.mtimeMs !== stats.mtimeMs)
+        ) {
+            this.logger.info(
+                `Ignoring upload session of ${sessionFile} as ${localPath} or ${destination} changed`,
+            );
+            session = undefined;
+        }
+
+        try {
+            return await this.uploadSession(
+                localPath,
+                blob,
+                stats,
+                session,
+                options,
+            );
+        } catch (err) {
+            // Session expired or cancelled: restart the upload from scratch
+            if (
+                session !== undefined &&
+                (hasErrorCode(err, 404) || hasErrorCode(err, 410))
+            ) {
+                this.logger.warn(
+                    `Upload session of ${destination} expired, restarting the upload`,
+                );
+                return this.uploadSession(
+                    localPath,
+                    blob,
+                    stats,
+                    undefined,
+                    options,
+                );
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Upload a local file with a new or an existing resumable upload session
+     *
+     * @param localPath
+     * @param blob
+     * @param stats
+     * @param session
+     * @param options
+     * @returns
+     */
+    protected async uploadSession(
+        localPath: string,
+        blob: File,
+        stats: fs.Stats,
+        session: IUploadSession | undefined,
+        options: IUploadOptions,
+    ): Promise<IGsObjectMetadata> {
+        const destination = this.toGsPath(blob);
+        const sessionFile = options.sessionFile;
+        const writeOptions: CreateWriteStreamOptions = {
+            ...createWriteStreamOptions(options),
+            resumable: true,
+        };
+        if (session !== undefined) {
+            // Bytes already uploaded are skipped by the SDK; the checksums
+            // of the whole object are still verified upon completion
+            writeOptions.uri = session.uri;
+            writeOptions.validation = false;
+            this.logger.debug(
+                `Resuming upload of ${localPath} to ${destination}`,
+            );
+        }
+
+        const stream = this.createWriteableStream(blob, writeOptions);
+        const saved = new Promise<void>((resolve) => {
+            if (sessionFile === undefined || session !== undefined) {
+                resolve();
+                return;
+            }
+            stream.once('uri', (uri: string) => {
+                saveUploadSession(sessionFile, {
+                    uri,
+                    destination,
+                    size: stats.size,
+                    mtimeMs: stats.mtimeMs,
+                }).then(resolve, (err) => {
+                    this.logger.warn(
+                        `Failed to save upload session to ${sessionFile}: ${err}`,
+                    );
+                    resolve();
+                });
+            });
+            stream.once('close', () => resolve());
+        });
+
+        let meta: IGsObjectMetadata;
+        try {
+            meta = await this.pipeToBlob(
+                blob,
+                blob,
+                [
+                    fs.createReadStream(localPath),
+                    createProgressStream(stats.size, options),
+                ],
+                stream,
+                options.signal,
+            );
+        } catch (err) {
+            await saved;
+            throw this.toTransferError(err, `Upload of ${localPath}`);
+        }
+        await saved;
+        if (sessionFile !== undefined) {
+            await deleteUploadSession(sessionFile);
+        }
+        return meta;
+    }
+
+    /**
+     * Convert the error of a download or upload into GCUtilsError
+     *
+     * @param err
+     * @param label
+     * @returns
+     */
+    protected toTransferError(err: unknown, label: string): unknown {
+        if ((err as Error)?.name === 'AbortError') {
+            return new GCUtilsError(`${label} aborted`, err);
+        }
+        return err;
+    }
+
+    /**
+     * Update the metadata of a file in place, only changing the fields of
+     * the patch, and return the resulting metadata
+     *
+     * @param gspath
+     * @param patch
+     * @returns
+     */
+    protected async patchMetadata(
+        gspath: File | IGsUri | string,
+        patch: IMetadataPatch,
+    ): Promise<IGsObjectMetadata> {
+        const [meta] = await this.getBlob(gspath).setMetadata(
+            toMetadataRequest(patch),
+        );
+        return toGsObjectMetadata(meta);
+    }
+
+    /**
+     * Read the content of a file pinned to its current generation so the
+     * content returned always matches the generation
+     *
+     * @param gspath
+     * @returns
+     */
+    protected async readGeneration(
+        gspath: File | IGsUri | string,
+    ): Promise<IGenerationResult> {
+        const blob = this.getBlob(gspath);
+        const [meta] = await blob.getMetadata();
+        const generation = `${meta.generation}`;
+
+        const chunks: Buffer[] = [];
+        const pinned = blob.bucket.file(blob.name, { generation });
+        for await (const chunk of this.createReadableStream(pinned)) {
+            chunks.push(chunk as Buffer);
+        }
+        const result: IGenerationResult = {
+            buffer: Buffer.concat(chunks),
+            generation,
+        };
+        if (meta.contentEncoding) {
+            result.contentEncoding = meta.contentEncoding;
+        }
+        return result;
+    }
+
+    /**
+     * Read a range of bytes of a file pinned to its current generation, the
+     * range being validated against the size of the object
+     *
+     * @param gspath
+     * @param range
+     * @returns
+     */
+    protected async readByteRange(
+        gspath: File | IGsUri | string,
+        range: TByteRange,
+    ): Promise<Buffer> {
+        const blob = this.getBlob(gspath);
+        const [meta] = await blob.getMetadata();
+        const { start, end } = resolveByteRange(
+            this.toGsPath(blob),
+            Number(meta.size),
+            range,
+        );
+        if (end < start) {
+            return Buffer.alloc(0);
+        }
+
+        const chunks: Buffer[] = [];
+        const pinned = blob.bucket.file(blob.name, {
+            generation: `${meta.generation}`,
+        });
+        for await (const chunk of this.createReadableStream(pinned, {
+            start,
+            end,
+        })) {
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks);
+    }
+
+    /**
+     * Delete a file, optionally only if its generation matches
+     *
+     * @param gspath
+     * @param options
+     */
+    protected async deleteBlob(
+        gspath: File | IGsUri | string,
+        options: IDeleteOptions = {},
+    ): Promise<void> {
+        const deleteOptions: IDeleteOptions = {};
+        if (options.ifGenerationMatch !== undefined) {
+            deleteOptions.ifGenerationMatch = options.ifGenerationMatch;
+        }
+        if (options.ignoreNotFound !== undefined) {
+            deleteOptions.ignoreNotFound = options.ignoreNotFound;
+        }
+        this.invalidateCache(gspath);
+        await this.getBlob(gspath).delete(deleteOptions);
+    }
+
+    /**
+     * Read the content and metadata of a file through the read cache.  The
+     * content of the generation read is downloaded on a cache miss.
+     *
+     * @param cache
+     * @param gspath
+     * @param options decompression of gzip content
+     * @returns
+     */
+    protected readThroughCache(
+        cache: ReadCache,
+        gspath: File | IGsUri | string,
+        options: IReadOptions = {},
+    ): Promise<IReadCacheEntry> {
+        const blob = this.getBlob(gspath);
+        const generation =
+            blob.generation === undefined ? undefined : `${blob.generation}`;
+        return cache.read(
+            toCachePath(blob),
+            generation,
+            `decompress=${options.decompress}`,
+            {
+                getMetadata: async () => {
+                    const [meta] = await blob.getMetadata();
+                    return toGsObjectMetadata(meta);
+                },
+                read: async (meta) => {
+                    const chunks: Buffer[] = [];
+                    const pinned = blob.bucket.file(blob.name, {
+                        generation: meta.generation,
+                    });
+                    for await (const chunk of this.createReadableStream(
+                        pinned,
+                        { decompress: options.decompress },
+                    )) {
+                        chunks.push(chunk as Buffer);
+                    }
+                    return Buffer.concat(chunks);
+                },
+            },
+        );
+    }
+
+    /**
+     * Return the content type of a file from its extension, undefined if
+     * unknown or if the detection of the content type is disabled
+     *
+     * @param gspath
+     * @returns
+     */
+    protected inferContentType(
+        gspath: File | IGsUri | string,
+    ): string | undefined {
+        if (!this.detectContentType) {
+            return undefined;
+        }
+        const extname =
+            gspath instanceof File
+                ? nodePath.posix.extname(gspath.name)
+                : this.toGsUri(gspath).extname;
+        return lookupContentType(extname, this.contentTypes);
+    }
+
+    /**
+     * Make the next read of a file through the read cache revalidate it,
+     * called when the file is written or deleted
+     *
+     * @param gspath
+     */
+    protected invalidateCache(gspath: File | IGsUri | string): void {
+        this.readCache?.invalidate(toCachePath(this.getBlob(gspath)));
+    }
+
+    /**
+     * Read a file, apply the callback and write the result only if the file
+     * has not been updated in the meantime.  The whole cycle is retried when
+     * the write fails with a precondition error (412).
+     *
+     * @param gspath
+     * @param fn
+     * @param options
+     * @returns metadata of the written object
+     */
+    protected async modifyBlob(
+        gspath: File | IGsUri | string,
+        fn: TModifyCallback,
+        options: IModifyOptions = {},
+    ): Promise<IGsObjectMetadata> {
+        const { maxRetry = 5, waitFor = 100, ...writeOptions } = options;
+        const blob = this.getBlob(gspath);
+
+        const result = await retry(
+            async () => {
+                let current: IGenerationResult | undefined;
+                try {
+                    current = await this.readGeneration(blob);
+                } catch (err) {
+                    if (!hasErrorCode(err, 404)) {
+                        throw err;
+                    }
+                }
+
+                // Generation 0 ensures that the file is still missing on write
+                const generation = current?.generation ?? '0';
+                const data = await fn(current?.buffer, generation);
+                const attemptOptions: IWriteOptions = {
+                    ...writeOptions,
+                    ifGenerationMatch: generation,
+                };
+                // Content read decompressed is written back compressed
+                if (current?.contentEncoding === 'gzip') {
+                    attemptOptions.compress ??= true;
+                }
+                try {
+                    return await this.writeData(blob, data, attemptOptions);
+                } catch (err) {
+                    if (isPreconditionFailed(err)) {
+                        throw new RetryError(
+                            `${this.toGsPath(blob)} updated since generation ${generation}`,
+                            err,
+                        );
+                    }
+                    throw err;
+                }
+            },
+            { maxRetry, waitFor, retryOnAllErrors: false },
+        );
+
+        if (result === undefined) {
+            throw new GCUtilsError(
+                `Failed to modify ${this.toGsPath(blob)} after ${maxRetry} attempts due to concurrent updates`,
+            );
+        }
+        return result;
+    }
+
+    /**
+     * Check if a local file or Buffer has the same content as the object
+     * by comparing the size then the CRC32C checksum, or MD5 if CRC32C is
+     * not available.  Return false if the object doesn't exist.
+     *
+     * @param local path of a local file or content
+     * @param gspath
+     * @returns
+     */
+    protected async compareChecksum(
+        local: string | Buffer,
+        gspath: File | IGsUri | string,
+    ): Promise<boolean> {
+        const meta = await this.getBlob(gspath)
+            .getMetadata()
+            .then(
+                ([result]) => result,
+                (err: unknown) => {
+                    if (hasErrorCode(err, 404)) {
+                        return undefined;
+                    }
+                    throw err;
+                },
+            );
+        if (meta === undefined) {
+            return false;
+        }
+
+        const size = Buffer.isBuffer(local)
+            ? local.length
+            : (await fs.promises.stat(local)).size;
+        if (Number(meta.size) !== size) {
+            return false;
+        }
+
+        const checksums = await computeChecksum(local);
+        if (meta.crc32c) {
+            return meta.crc32c === checksums.crc32c;
+        } else if (meta.md5Hash) {
+            return meta.md5Hash === checksums.md5;
+        }
+        return false;
+    }
+
+    /**
+     * Parse the content of a file as JSON and optionally create an instance of
+     * type, validating it.  Raise GCUtilsError naming the gs path upon failure.
+     *
+     * @param gspath
+     * @param content
+     * @param type
+     * @param location optional location in the file such as ` at line 3`
+     * @returns
+     */
+    protected parseJson<T extends object>(
+        gspath: File | IGsUri | string,
+        content: Buffer | string,
+        type?: { new (): T },
+        location = '',
+    ): T {
+        let data: unknown;
+        try {
+            data = JSON.parse(content.toString());
+        } catch (err) {
+            throw new GCUtilsError(
+                `Failed to parse JSON from ${this.toGsPath(gspath)}${location}`,
+                err,
+            );
+        }
+
+        if (type === undefined) {
+            return data as T;
+        }
+        return this.toEntity(gspath, data, type, location);
+    }
+
+    /**
+     * Create and validate an instance of type from data.  Raise GCUtilsError
+     * naming the gs path upon failure.
+     *
+     * @param gspath
+     * @param data
+     * @param type
+     * @param location optional location in the file such as ` at line 3`
+     * @returns
+     */
+    protected toEntity<T extends object>(
+        gspath: File | IGsUri | string,
+        data: unknown,
+        type: { new (): T },
+        location = '',
+    ): T {
+        try {
+            if (this.createEntityCallback) {
+                return this.createEntityCallback(type, data);
+            }
+            return createEntityAndValidate(type, data);
+        } catch (err) {
+            throw new GCUtilsError(
+                `Failed to create ${type.name} from ${this.toGsPath(gspath)}${location}`,
+                err,
+            );
+        }
+    }
+
+    /**
+     * Iterate the lines of a file parsing each line as JSON.  Empty lines are skipped.
+     *
+     * @param input
+     * @param type
+     */
+    protected async *iterateNdjson<T extends object>(
+        input: File | IGsUri | string,
+        type?: { new (): T },
+    ): AsyncGenerator<T> {
+        let lineNumber = 0;
+        for await (const line of splitLines(this.createReadableStream(input))) {
+            lineNumber += 1;
+            if (line.trim() === '') {
+                continue;
+            }
+            yield this.parseJson(input, line, type, ` at line ${lineNumber}`);
+        }
+    }
+
+    /**
+     * Iterate the records of a CSV file as object keyed by headers
+     *
+     * @param input
+     * @param options
+     */
+    protected async *iterateCsv<T extends object>(
+        input: File | IGsUri | string,
+        options: ICsvOptions<T> = {},
+    ): AsyncGenerator<T> {
+        const mapHeader = options.mapHeader ?? ((header: string) => header);
+        let headers = options.headers?.map(mapHeader);
+        let recordNumber = 0;
+
+        const records = parseCsv(this.createReadableStream(input), options);
+        for (;;) {
+            let next: IteratorResult<string[]>;
+            try {
+                next = await records.next();
+            } catch (err) {
+                throw new GCUtilsError(
+                    `Failed to parse CSV from ${this.toGsPath(input)} at record ${recordNumber + 1}`,
+                    err,
+                );
+            }
+            if (next.done) {
+                break;
+            }
+            const record = next.value;
+            recordNumber += 1;
+
+            // Use first record as headers, removing the utf8 BOM if present
+            if (headers === undefined) {
+                headers = record.map((header, index) =>
+                    mapHeader(
+                        index === 0 ? header.replace(/^\uFEFF/, '') : header,
+                        index,
+                    ),
+                );
+                continue;
+            }
+
+            const data: { [key: string]: string } = {};
+            headers.forEach((header, index) => {
+                data[header] = record[index] ?? '';
+            });
+
+            if (options.type) {
+                yield this.toEntity(
+                    input,
+                    data,
+                    options.type,
+                    ` at record ${recordNumber}`,
+                );
+            } else {
+                yield data as T;
+            }
+        }
+    }
+
+    /**
+     * Return a list of files from a path excluding the directories.  The
+     * path can be a glob such as `gs://bucket/exports/**\/2024-*.csv`.
+     *
+     * @param input
+     * @param options additional options passed to `Bucket.getFiles`
+     */
+    protected listFiles(
+        input: IGsUri | string,
+        options: GetFilesOptions = {},
+    ): Promise<File[]> {
+        const gs = this.toGsUri(input);
+
+        // Filter the result from the path provided.
+        const { query, matcher } = createListQuery(gs, options);
+        if (query.prefix || query.matchGlob) {
+            this.logger.debug(
+                `Setting BStore.getFiles option.prefix to ${query.prefix} and matchGlob to ${query.matchGlob}`,
+            );
+        }
+
+        // .getFiles for somereason returns Files wraps in an array.  Need to return first result only
+        const bucket = this.getBucket(gs.bucket);
+        return bucket
+            .getFiles(query)
+            .then((result) => {
+                if (Array.isArray(result) && result.length) {
+                    return result[0];
+                } else {
+                    return [];
+                }
+            })
+            .then((files: File[]) => {
+                // Filter out directories and files not matching the glob
+                return files.filter(
+                    (file: File) =>
+                        !file.name.endsWith('/') &&
+                        (matcher === undefined || matcher.test(file.name)),
+                );
+            });
+    }
+
+    /**
+     * Iterate over the files of a path one page at a time, excluding the
+     * directories.  The path can be a glob.
+     *
+     * @param input
+     * @param options paging and offsets
+     */
+    protected async *iterateFileList(
+        input: IGsUri | string,
+        options: IListFilesOptions = {},
+    ): AsyncGenerator<File> {
+        const gs = this.toGsUri(input);
+        const { query, matcher } = createListQuery(gs, { autoPaginate: false });
+        if (options.pageSize !== undefined) {
+            query.maxResults = options.pageSize;
+        }
+        if (options.pageToken !== undefined) {
+            query.pageToken = options.pageToken;
+        }
+        if (options.startOffset !== undefined) {
+            query.startOffset = options.startOffset;
+        }
+        if (options.endOffset !== undefined) {
+            query.endOffset = options.endOffset;
+        }
+
+        const bucket = this.getBucket(gs.bucket);
+        let next: GetFilesOptions | undefined = query;
+        while (next) {
+            const [files, nextQuery]: GetFilesResponse =
+                await bucket.getFiles(next);
+            for (const file of files) {
+                if (
+                    !file.name.endsWith('/') &&
+                    (matcher === undefined || matcher.test(file.name))
+                ) {
+                    yield file;
+                }
+            }
+            next = (nextQuery as GetFilesOptions | null) ?? undefined;
+            options.onPageToken?.(next?.pageToken);
+        }
+    }
+
+    /**
+     * Delete all objects under a prefix or matching a glob, including the
+     * directory placeholders.  Failure of individual objects is returned in
+     * the report instead of stopping the process.
+     *
+     * @param gspath prefix or glob of the objects to delete
+     * @param options
+     */
+    protected async deleteFileList(
+        gspath: IGsUri | string,
+        options: IDeleteFilesOptions = {},
+    ): Promise<IDeleteFilesReport> {
+        const gs = this.toGsUri(gspath);
+        if (!gs.path && !options.confirmBucketRoot) {
+            throw new GCUtilsError(
+                `Deleting all objects of bucket ${gs.bucket} requires the confirmBucketRoot option`,
+            );
+        }
+
+        const { query, matcher } = createListQuery(gs);
+        this.logger.debug(
+            `Setting BStore.deleteFiles option.prefix to ${query.prefix} and matchGlob to ${query.matchGlob}`,
+        );
+        const [files] = await this.getBucket(gs.bucket).getFiles(query);
+
+        const olderThan = options.olderThan;
+        const candidates = files.filter((file) => {
+            if (matcher !== undefined && !matcher.test(file.name)) {
+                return false;
+            }
+            if (olderThan !== undefined) {
+                const updated = convertToDate(file.metadata.updated);
+                return updated !== undefined && updated < olderThan;
+            }
+            return true;
+        });
+
+        const report = await this.deleteCandidates(candidates, options);
+        this.logger.info(
+            `.deleteFiles ${report.deleted.length} deleted and ${report.failed.length} failed for bucket=${gs.bucket};path=${gs.path}`,
+        );
+        return report;
+    }
+
+    /**
+     * Delete the files, returning the failures in the report instead of
+     * raising them
+     *
+     * @param candidates
+     * @param options dry run and concurrency
+     * @returns
+     */
+    protected async deleteCandidates(
+        candidates: File[],
+        options: { dryRun?: boolean; concurrency?: number },
+    ): Promise<IDeleteFilesReport> {
+        const report: IDeleteFilesReport = {
+            dryRun: options.dryRun ?? false,
+            deleted: candidates.map((file) => this.toGsPath(file)),
+            failed: [],
+        };
+        if (report.dryRun) {
+            return report;
+        }
+
+        const results = await settleWithConcurrency(
+            candidates,
+            (file) => file.delete(),
+            options.concurrency ?? DEFAULT_CONCURRENCY,
+        );
+
+        const deleted: string[] = [];
+        results.forEach((result, index) => {
+            const path = report.deleted[index];
+            if (result.status === 'fulfilled') {
+                deleted.push(path);
+            } else {
+                const reason: unknown = result.reason;
+                report.failed.push({
+                    path,
+                    error:
+                        reason instanceof Error
+                            ? reason
+                            : new GCUtilsError(`${reason}`),
+                });
+            }
+        });
+        report.deleted = deleted;
+        return report;
+    }
+
+    /**
+     * Set the content type of the objects without one or with the generic
+     * `application/octet-stream`, detected from the extension or, for an
+     * unknown extension, from the first bytes of the object
+     *
+     * @param gspath prefix or glob of the objects
+     * @param options dry run and concurrency
+     * @returns
+     */
+    protected async fixObjectContentTypes(
+        gspath: IGsUri | string,
+        options: IFixContentTypesOptions = {},
+    ): Promise<IFixContentTypesReport> {
+        const gs = this.toGsUri(gspath);
+        const { query, matcher } = createListQuery(gs);
+        const [files] = await this.getBucket(gs.bucket).getFiles(query);
+        const candidates = files.filter((file) => {
+            if (matcher !== undefined && !matcher.test(file.name)) {
+                return false;
+            }
+            const contentType = file.metadata.contentType;
+            return (
+                !file.name.endsWith('/') &&
+                (!contentType || contentType === GENERIC_CONTENT_TYPE)
+            );
+        });
+
+        const report: IFixContentTypesReport = {
+            dryRun: options.dryRun ?? false,
+            fixed: [],
+            failed: [],
+        };
+        const results = await settleWithConcurrency(
+            candidates,
+            async (file): Promise<IContentTypeFix | undefined> => {
+                const contentType = await this.detectObjectContentType(file);
+                if (!contentType || contentType === GENERIC_CONTENT_TYPE) {
+                    return undefined;
+                }
+                if (!report.dryRun) {
+                    await file.setMetadata({ contentType });
+                }
+                const fix: IContentTypeFix = {
+                    path: this.toGsPath(file),
+                    contentType,
+                };
+                if (file.metadata.contentType) {
+                    fix.previous = file.metadata.contentType;
+                }
+                return fix;
+            },
+            options.concurrency ?? DEFAULT_CONCURRENCY,
+        );
+
+        results.forEach((result, index) => {
+            if (result.status === 'fulfilled') {
+                if (result.value !== undefined) {
+                    report.fixed.push(result.value);
+                }
+            } else {
+                const reason: unknown = result.reason;
+                const failure: IContentTypeFailure = {
+                    path: this.toGsPath(candidates[index]),
+                    error:
+                        reason instanceof Error
+                            ? reason
+                            : new GCUtilsError(`${reason}`),
+                };
+                report.failed.push(failure);
+            }
+        });
+        this.logger.info(
+            `.fixContentTypes ${report.fixed.length} fixed and ${report.failed.length} failed for bucket=${gs.bucket};path=${gs.path}`,
+        );
+        return report;
+    }
+
+    /**
+     * Return the content type of an object from its extension or, for an
+     * unknown extension, from its first bytes.  Compressed objects are only
+     * detected by extension.
+     *
+     * @param file
+     * @returns
+     */
+    protected async detectObjectContentType(
+        file: File,
+    ): Promise<string | undefined> {
+        const contentType = lookupContentType(
+            nodePath.posix.extname(file.name),
+            this.contentTypes,
+        );
+        if (contentType !== undefined || file.metadata.contentEncoding) {
+            return contentType;
+        }
+        const head = await this.readByteRange(file, {
+            head: CONTENT_SNIFF_BYTES,
+        });
+        return sniffContentType(head);
+    }
+
+    /**
+     * Return all generations of an object, live and noncurrent, ordered from
+     * the newest to the oldest
+     *
+     * @param gspath
+     * @returns
+     */
+    protected async listObjectVersions(
+        gspath: File | IGsUri | string,
+    ): Promise<IObjectVersion[]> {
+        const blob = this.getBlob(gspath);
+        const [files] = await blob.bucket.getFiles({
+            prefix: blob.name,
+            versions: true,
+        });
+        return files
+            .filter((file) => file.name === blob.name)
+            .map((file) => {
+                const metadata = toGsObjectMetadata(file.metadata as TMetaData);
+                const generation = metadata.generation ?? '';
+                const timeDeleted = convertToDate(file.metadata.timeDeleted);
+                return {
+                    gs: {
+                        ...generateGsUri(blob.bucket.name, blob.name),
+                        generation,
+                    },
+                    generation,
+                    live: timeDeleted === undefined,
+                    timeDeleted,
+                    metadata,
+                };
+            })
+            .sort((a, b) => compareGenerations(b.generation, a.generation));
+    }
+
+    /**
+     * Return the File of a generation of an object
+     *
+     * @param gspath
+     * @param generation
+     * @returns
+     */
+    protected getVersionBlob(
+        gspath: File | IGsUri | string,
+        generation: string | number,
+    ): File {
+        const blob = this.getBlob(gspath);
+        return blob.bucket.file(blob.name, { generation });
+    }
+
+    /**
+     * Copy a generation of an object over its live generation
+     *
+     * @param gspath
+     * @param generation
+     * @returns the File of the new live generation
+     */
+    protected async restoreVersion(
+        gspath: File | IGsUri | string,
+        generation: string | number,
+    ): Promise<File> {
+        const blob = this.getBlob(gspath);
+        const live = blob.bucket.file(blob.name);
+        const file = await this.copyBlob(
+            this.getVersionBlob(blob, generation),
+            live,
+        );
+        this.logger.info(
+            `.restore generation ${generation} of ${this.toGsPath(live)}`,
+        );
+        return file;
+    }
+
+    /**
+     * Delete the noncurrent generations of an object, keeping the most
+     * recent ones and the ones more recent than `options.olderThan`
+     *
+     * @param gspath
+     * @param options
+     * @returns
+     */
+    protected async purgeObjectVersions(
+        gspath: File | IGsUri | string,
+        options: IPurgeVersionsOptions = {},
+    ): Promise<IDeleteFilesReport> {
+        const versions = await this.listObjectVersions(gspath);
+        const candidates = selectVersionsToPurge(versions, options).map(
+            (version) => this.getVersionBlob(gspath, version.generation),
+        );
+        const report = await this.deleteCandidates(candidates, options);
+        this.logger.info(
+            `.purgeVersions ${report.deleted.length} deleted and ${report.failed.length} failed for ${this.toGsPath(gspath)}`,
+        );
+        return report;
+    }
+
+    /**
+     * Return the immediate sub directories and files of a directory using
+     * the delimiter API.  Placeholder objects ending with `/` are excluded.
+     *
+     * @param bucketName
+     * @param prefix path of the directory ending with `/`
+     * @returns
+     */
+    protected async listDelimited(
+        bucketName: string,
+        prefix: string,
+    ): Promise<IDirectoryListing> {
+        const bucket = this.getBucket(bucketName);
+        const result: IDirectoryListing = { directories: [], files: [] };
+
+        // Paginate manually as prefixes are only returned in the api response
+        let query: GetFilesOptions | undefined = {
+            delimiter: '/',
+            autoPaginate: false,
+        };
+        if (prefix) {
+            query.prefix = prefix;
+        }
+
+        while (query) {
+            const [files, nextQuery, response]: GetFilesResponse =
+                await bucket.getFiles(query);
+            const prefixes =
+                (response as { prefixes?: string[] } | undefined)?.prefixes ??
+                [];
+            for (const dir of prefixes) {
+                result.directories.push(generateDirectoryUri(bucketName, dir));
+            }
+            for (const file of files) {
+                if (!file.name.endsWith('/')) {
+                    result.files.push(generateGsUri(bucketName, file.name));
+                }
+            }
+            query = (nextQuery as GetFilesOptions | null) ?? undefined;
+        }
+        return result;
+    }
+
+    /**
+     * Visit the directory tree from input, depth first, yielding the content
+     * of each directory before its sub directories
+     *
+     * @param input directory to start from
+     * @param options depth of the traversal.  Default to unlimited
+     */
+    protected async *walkDirectory(
+        input: IGsUri | string,
+        options: IListDirectoryOptions = {},
+    ): AsyncGenerator<IWalkEntry> {
+        const depth = options.depth ?? Infinity;
+        if (!(depth >= 1)) {
+            throw new GCUtilsError(`Invalid depth of ${depth} provided`);
+        }
+
+        const gs = this.toGsUri(input);
+        const pending = [
+            { directory: generateDirectoryUri(gs.bucket, gs.path), level: 1 },
+        ];
+
+        while (pending.length) {
+            const { directory, level } = pending.shift() as {
+                directory: IGsUri;
+                level: number;
+            };
+            const listing = await this.listDelimited(gs.bucket, directory.path);
+            yield { directory, ...listing };
+
+            if (level < depth) {
+                pending.unshift(
+                    ...listing.directories.map((dir) => ({
+                        directory: dir,
+                        level: level + 1,
+                    })),
+                );
+            }
+        }
+    }
+
+    /**
+     * Return the sub directories and files found up to depth level
+     *
+     * @param input
+     * @param options depth of the listing.  Default to 1
+     */
+    protected async listDirectoryTree(
+        input: IGsUri | string,
+        options: IListDirectoryOptions = {},
+    ): Promise<IDirectoryListing> {
+        const result: IDirectoryListing = { directories: [], files: [] };
+        for await (const entry of this.walkDirectory(input, {
+            depth: options.depth ?? 1,
+        })) {
+            result.directories.push(...entry.directories);
+            result.files.push(...entry.files);
+        }
+        return result;
+    }
+
+    /**
+     * Return the generation of each object of a path or glob
+     *
+     * @param gs
+     */
+    protected async listGenerations(gs: IGsUri): Promise<TWatchSnapshot> {
+        const snapshot: TWatchSnapshot = {};
+        for (const file of await this.listFiles(gs)) {
+            snapshot[file.name] = `${file.metadata.generation ?? ''}`;
+        }
+        return snapshot;
+    }
+
+    /**
+     * List the objects of a path and return the changes since the previous
+     * snapshot, filtered by `options.events`.  Without previous snapshot,
+     * the existing objects are only returned if `options.emitExisting` is set.
+     *
+     * @param gs
+     * @param previous snapshot of the previous listing
+     * @param options
+     */
+    protected async pollSnapshot(
+        gs: IGsUri,
+        previous: TWatchSnapshot | undefined,
+        options: IWatchOptions = {},
+    ): Promise<IWatchPollResult> {
+        const snapshot = await this.listGenerations(gs);
+        if (previous === undefined && !options.emitExisting) {
+            return { events: [], snapshot, changed: true };
+        }
+
+        const changes = diffSnapshots(gs.bucket, previous ?? {}, snapshot);
+        const events = options.events
+            ? changes.filter((event) => options.events?.includes(event.type))
+            : changes;
+        if (events.length) {
+            this.logger.debug(
+                `Detected ${events.length} changes under ${generateGsPath(gs)}`,
+            );
+        }
+        return {
+            events,
+            snapshot,
+            changed: previous === undefined || changes.length > 0,
+        };
+    }
+
+    /**
+     * Return the changes since the snapshot of `options.checkpoint` and save
+     * the new snapshot
+     *
+     * @param input path or glob to watch
+     * @param options
+     */
+    protected async pollCheckpoint(
+        input: IGsUri | string,
+        options: IWatchOptions = {},
+    ): Promise<IWatchEvent[]> {
+        const gs = this.toGsUri(input);
+        const previous = await options.checkpoint?.load();
+        const result = await this.pollSnapshot(gs, previous, options);
+        if (result.changed) {
+            await options.checkpoint?.save(result.snapshot);
+        }
+        return result.events;
+    }
+
+    /**
+     * List the objects of a path every `options.interval` milliseconds and
+     * yield the changes until `options.signal` is aborted.  The snapshot is
+     * saved to `options.checkpoint` once all events of a listing have been
+     * consumed.
+     *
+     * @param input path or glob to watch
+     * @param options
+     */
+    protected async *watchChanges(
+        input: IGsUri | string,
+        options: IWatchOptions = {},
+    ): AsyncGenerator<IWatchEvent> {
+        const gs = this.toGsUri(input);
+        const interval = resolveWatchInterval(options);
+
+        let previous = await options.checkpoint?.load();
+        while (!options.signal?.aborted) {
+            const result = await this.pollSnapshot(gs, previous, options);
+            for (const event of result.events) {
+                yield event;
+            }
+            if (result.changed) {
+                await options.checkpoint?.save(result.snapshot);
+            }
+            previous = result.snapshot;
+            await sleep(interval, options.signal);
+        }
+    }
+
+    /**
+     * Copy a file to destination and return the destination file
+     *
+     * @param source
+     * @param destination
+     * @param options
+     */
+    protected async copyBlob(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<File> {
+        this.invalidateCache(destination);
+        const [file] = await this.getBlob(source).copy(
+            this.getBlob(destination),
+            createCopyOptions(options),
+        );
+        return file;
+    }
+
+    /**
+     * Copy a file to destination then delete the source.  The source is not
+     * deleted if it's the same as the destination.
+     *
+     * @param source
+     * @param destination
+     * @param options
+     */
+    protected async moveBlob(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<File> {
+        const sourceBlob = this.getBlob(source);
+        const file = await this.copyBlob(sourceBlob, destination, options);
+        if (
+            sourceBlob.name !== file.name ||
+            sourceBlob.bucket.name !== file.bucket.name
+        ) {
+            await sourceBlob.delete();
+        }
+        return file;
+    }
+
+    /**
+     * Concatenate the sources into destination.  More than 32 sources are
+     * composed in rounds of intermediate objects that are deleted at the end,
+     * even upon failure.
+     *
+     * @param sources objects in the same bucket as destination
+     * @param destination
+     * @param options
+     */
+    protected async composeBlobs(
+        sources: Array<File | IGsUri | string>,
+        destination: File | IGsUri | string,
+        options: IComposeOptions = {},
+    ): Promise<File> {
+        const target = this.getBlob(destination);
+        const bucket = target.bucket;
+        const targetPath = this.toGsPath(target);
+        if (sources.length === 0) {
+            throw new GCUtilsError(
+                `No source provided to compose ${targetPath}`,
+            );
+        }
+        let current = sources.map((source) => this.getBlob(source));
+        const other = current.find((file) => file.bucket.name !== bucket.name);
+        if (other !== undefined) {
+            throw new GCUtilsError(
+                `Cannot compose ${this.toGsPath(other)} into ${targetPath} as sources must be in the same bucket`,
+            );
+        }
+
+        const token = randomBytes(4).toString('hex');
+        const intermediates: File[] = [];
+        try {
+            for (let round = 0; current.length > MAX_COMPOSE_SOURCES; round++) {
+                const entries = chunkItems(current, MAX_COMPOSE_SOURCES).map(
+                    (group, index) => ({
+                        group,
+                        file: bucket.file(
+                            createTempName(
+                                target.name,
+                                `compose-${token}-${round}`,
+                                index,
+                            ),
+                        ),
+                    }),
+                );
+                intermediates.push(...entries.map((entry) => entry.file));
+
+                const results = await settleWithConcurrency(
+                    entries,
+                    ({ group, file }) => bucket.combine(group, file),
+                    options.concurrency ?? DEFAULT_CONCURRENCY,
+                );
+                const failed = results.find(
+                    (result) => result.status === 'rejected',
+                );
+                if (failed !== undefined) {
+                    throw new GCUtilsError(
+                        `Failed to compose intermediate objects of ${targetPath}`,
+                        failed.reason,
+                    );
+                }
+                current = entries.map((entry) => entry.file);
+                this.logger.debug(
+                    () =>
+                        `.compose round ${round} created ${current.length} intermediate objects for ${targetPath}`,
+                );
+            }
+
+            const destinationFile = bucket.file(target.name);
+            const contentType =
+                options.contentType || this.inferContentType(target);
+            if (contentType) {
+                destinationFile.metadata.contentType = contentType;
+            }
+            const [file] = await bucket.combine(current, destinationFile);
+            if (options.metadata) {
+                await file.setMetadata({ metadata: options.metadata });
+            }
+            return file;
+        } finally {
+            await this.deleteTempFiles(intermediates);
+        }
+    }
+
+    /**
+     * Upload a local file in parts uploaded concurrently then composed into
+     * destination.  The parts are deleted at the end, even upon failure.
+     *
+     * @param localFile
+     * @param destination
+     * @param options
+     */
+    protected async uploadParallel(
+        localFile: string,
+        destination: File | IGsUri | string,
+        options: IParallelUploadOptions = {},
+    ): Promise<File> {
+        const parts = options.parts ?? DEFAULT_UPLOAD_PARTS;
+        if (!(Number.isInteger(parts) && parts >= 1)) {
+            throw new GCUtilsError(
+                `Invalid number of parts of ${parts} provided`,
+            );
+        }
+        const target = this.getBlob(destination);
+        const { size } = await fs.promises.stat(localFile);
+        const ranges = splitIntoParts(size, parts);
+
+        // Not worth composing a single part
+        if (ranges.length <= 1) {
+            await this.writeData(target, fs.createReadStream(localFile), {
+                contentType: options.contentType,
+                metadata: options.metadata,
+            });
+            return target;
+        }
+
+        const token = randomBytes(4).toString('hex');
+        const partFiles = ranges.map((_range, index) =>
+            target.bucket.file(
+                createTempName(target.name, `part-${token}`, index),
+            ),
+        );
+        try {
+            const results = await settleWithConcurrency(
+                ranges.map((range, index) => ({
+                    range,
+                    file: partFiles[index],
+                })),
+                ({ range, file }) =>
+                    this.writeData(
+                        file,
+                        fs.createReadStream(localFile, range),
+                        { resumable: false },
+                    ),
+                options.concurrency ?? DEFAULT_CONCURRENCY,
+            );
+            const failed = results.find(
+                (result) => result.status === 'rejected',
+            );
+            if (failed !== undefined) {
+                throw new GCUtilsError(
+                    `Failed to upload the parts of ${localFile} to ${this.toGsPath(target)}`,
+                    failed.reason,
+                );
+            }
+
+            const file = await this.composeBlobs(partFiles, target, options);
+            if (this.verifyChecksum) {
+                // Composite objects only have a crc32c checksum
+                const [meta] = await file.getMetadata();
+                const { crc32c } = await computeChecksum(localFile);
+                const error = verifyChecksums(
+                    this.toGsPath(file),
+                    { crc32c: meta.crc32c },
+                    { crc32c },
+                );
+                if (error) {
+                    throw error;
+                }
+            }
+            return file;
+        } finally {
+            await this.deleteTempFiles(partFiles);
+        }
+    }
+
+    /**
+     * Delete temporary objects, logging instead of raising the failures
+     *
+     * @param files
+     */
+    protected async deleteTempFiles(files: File[]): Promise<void> {
+        const results = await settleWithConcurrency(
+            files,
+            (file) => file.delete({ ignoreNotFound: true }),
+            DEFAULT_CONCURRENCY,
+        );
+        results.forEach((result, index) => {
+            if (result.status === 'rejected') {
+                this.logger.warn(
+                    `Failed to delete temporary object ${this.toGsPath(files[index])}: ${result.reason}`,
+                );
+            }
         });
+    }
 
-        return stream;
+    /**
+     * Stream all files under a path into a single zip or tar.gz archive
+     * written to an object or a local stream.  Entries are named relative to
+     * the directory of the path and hold the stored bytes of each file.
+     *
+     * @param gspath prefix or glob of the files to archive
+     * @param destination archive object or stream
+     * @param options
+     * @returns
+     */
+    protected async archivePrefix(
+        gspath: IGsUri | string,
+        destination: File | IGsUri | string | Writable,
+        options: IArchiveOptions = {},
+    ): Promise<IArchiveReport> {
+        const gs = this.toGsUri(gspath);
+        const target =
+            destination instanceof Writable
+                ? undefined
+                : this.getBlob(destination);
+        const format =
+            resolveArchiveFormat(target?.name, options.format) ?? 'zip';
+
+        const base = gs.glob === undefined ? gs.path : globPrefix(gs.glob);
+        const prefix = base.substring(0, base.lastIndexOf('/') + 1);
+        const report: IArchiveReport = { entries: 0, bytes: 0 };
+        const onEntry = (source: IArchiveSource, size: number) => {
+            report.entries++;
+            report.bytes += size;
+            options.onProgress?.({ ...report, name: source.name });
+        };
+
+        const content = createArchiveStream(
+            format,
+            this.iterateArchiveSources(gs, prefix, target),
+            onEntry,
+        );
+
+        if (target === undefined) {
+            await pipeline([content, destination as Writable]);
+        } else {
+            await this.writeData(target, content, {
+                contentType: ARCHIVE_CONTENT_TYPES[format],
+            });
+        }
+        this.logger.debug(
+            () =>
+                `.archive ${report.entries} files of ${generateGsPath(gs)} in ${format}`,
+        );
+        return report;
     }
 
     /**
-     * Return a writable stream.  Need to use the error callback in the constructor
-     * or listen to the `error` event of the resulting Readable
+     * Iterate over the files to archive, reading each file pinned to the
+     * generation listed
      *
-     * @param gspath
+     * @param gs
+     * @param prefix removed from the object names to name the entries
+     * @param exclude the archive itself if under the path
      */
-    public createWriteableStream(
-        gspath: File | IGsUri | string,
-        options?: CreateWriteStreamOptions,
-    ): Writable {
-        const stream = this.getBlob(gspath).createWriteStream(options);
+    protected async *iterateArchiveSources(
+        gs: IGsUri,
+        prefix: string,
+        exclude?: File,
+    ): AsyncGenerator<IArchiveSource> {
+        for await (const file of this.iterateFileList(gs)) {
+            if (
+                exclude !== undefined &&
+                file.bucket.name === exclude.bucket.name &&
+                file.name === exclude.name
+            ) {
+                continue;
+            }
+            const meta = file.metadata;
+            const pinned = file.bucket.file(file.name, {
+                generation: `${meta.generation}`,
+            });
+            yield {
+                name: file.name.substring(prefix.length),
+                size: Number(meta.size),
+                mtime: convertToDate(meta.updated) ?? new Date(),
+                open: () =>
+                    this.createReadableStream(pinned, { decompress: false }),
+            };
+        }
+    }
 
-        stream.on('error', (err) => {
-            const error = new GCUtilsError(err);
-            const logMessage = `Wriable error event for ${gspath}: ${error.message}`;
-            // Only log if the error handler was set in the constructor incase caller doesn't log anything
-            // If it's not set, the default error handler will log a warning
-            if (this.#errorHandlerSetInConstructor) {
-                this.logger.debug(logMessage);
+    /**
+     * Unpack a zip or tar.gz archive into individual objects under the
+     * destination prefix.  Entries with a name escaping the prefix raise
+     * GCUtilsError.
+     *
+     * @param archive
+     * @param destination
+     * @param options
+     * @returns
+     */
+    protected async extractArchive(
+        archive: File | IGsUri | string,
+        destination: IGsUri | string,
+        options: IArchiveOptions = {},
+    ): Promise<IArchiveReport> {
+        const blob = this.getBlob(archive);
+        const format = resolveArchiveFormat(blob.name, options.format);
+        if (format === undefined) {
+            throw new GCUtilsError(
+                `Unknown archive format of ${this.toGsPath(blob)}; set options.format`,
+            );
+        }
+
+        const target = GsPath.from(this.toGsUri(destination));
+        const report: IArchiveReport = { entries: 0, bytes: 0 };
+        const extract = async (name: string, content: Readable) => {
+            const path = target.join(name);
+            if (!target.isPrefixOf(path) || path.equals(target)) {
+                throw new GCUtilsError(
+                    `Entry ${name} of ${this.toGsPath(blob)} escapes ${target}`,
+                );
             }
-            this._errorHandler(error);
+            if (path.isDirectory) {
+                content.resume();
+                return;
+            }
+            const meta = await this.writeData(path, content);
+            report.entries++;
+            report.bytes += meta.size;
+            options.onProgress?.({ ...report, name });
+        };
+
+        // Read all parts of the archive from the same generation
+        const [meta] = await blob.getMetadata();
+        const pinned = blob.bucket.file(blob.name, {
+            generation: `${meta.generation}`,
         });
+        if (format === 'tar.gz') {
+            await readTarGz(
+                this.createReadableStream(pinned, { decompress: false }),
+                extract,
+            );
+        } else {
+            await readZip(
+                Number(meta.size),
+                (start, end) =>
+                    this.createReadableStream(pinned, {
+                        start,
+                        end: end - 1,
+                        decompress: false,
+                    }),
+                extract,
+            );
+        }
 
-        return stream;
+        this.logger.debug(
+            () =>
+                `.extract ${report.entries} files of ${this.toGsPath(blob)} into ${target}`,
+        );
+        return report;
+    }
+
+    /**
+     * Copy or move all files under the source prefix to the destination prefix.
+     * For a glob source, the destination names are relative to the glob prefix.
+     * Failure of individual objects is returned in the report instead of
+     * stopping the process.
+     *
+     * @param source
+     * @param destination
+     * @param toMove delete the source after copy if true
+     * @param options
+     */
+    protected async transferPrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        toMove: boolean,
+        options?: ICopyOptions,
+    ): Promise<ITransferReport> {
+        const src = this.toGsUri(source);
+        const dest = this.toGsUri(destination);
+        const destBucket = this.getBucket(dest.bucket);
+
+        // Always consider the paths as directories
+        const srcPrefix =
+            src.path && !src.path.endsWith('/') ? `${src.path}/` : src.path;
+        const destPrefix =
+            dest.path && !dest.path.endsWith('/') ? `${dest.path}/` : dest.path;
+
+        const prefix =
+            src.glob === undefined ? srcPrefix : globPrefix(src.glob);
+        const files = await this.listFiles(
+            src.glob === undefined ? { ...src, path: srcPrefix } : src,
+        );
+        const entries = files.map((file) => ({
+            file,
+            target: destBucket.file(
+                destPrefix + file.name.substring(prefix.length),
+            ),
+        }));
+
+        const results = await settleWithConcurrency(
+            entries,
+            ({ file, target }) =>
+                toMove
+                    ? this.moveBlob(file, target, options)
+                    : this.copyBlob(file, target, options),
+            options?.concurrency ?? DEFAULT_CONCURRENCY,
+        );
+
+        const report: ITransferReport = { succeeded: [], failed: [] };
+        results.forEach((result, index) => {
+            const entry: ITransferEntry = {
+                source: this.toGsPath(entries[index].file),
+                destination: this.toGsPath(entries[index].target),
+            };
+            if (result.status === 'fulfilled') {
+                report.succeeded.push(entry);
+            } else {
+                const error = new GCUtilsError(
+                    result.reason instanceof Error
+                        ? result.reason
+                        : `${result.reason}`,
+                );
+                report.failed.push({ ...entry, error });
+            }
+        });
+
+        this.logger.debug(
+            () =>
+                `.transferPrefix ${report.succeeded.length} succeeded and ${report.failed.length} failed`,
+        );
+        return report;
+    }
+
+    /**
+     * Synchronize a local directory and a gs prefix in either direction,
+     * depending on which of source and destination is a gs path.  Objects
+     * are downloaded as stored, without decompression, so the local files
+     * can be compared with the size and checksums of the objects.
+     *
+     * @param source local directory or gs prefix
+     * @param destination local directory or gs prefix
+     * @param options
+     */
+    protected async syncPrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options: ISyncOptions = {},
+    ): Promise<ISyncReport> {
+        const isGs = (input: IGsUri | string) =>
+            typeof input !== 'string' || input.startsWith(BSTORE_PROTOCOL);
+
+        const toUpload = !isGs(source) && isGs(destination);
+        if (!toUpload && !(isGs(source) && !isGs(destination))) {
+            throw new GCUtilsError(
+                `BStore.sync requires a local path and a gs path [${this.toGsPath(source)} -> ${this.toGsPath(destination)}]`,
+            );
+        }
+
+        // Always consider the gs path as a directory
+        const gs = this.toGsUri(toUpload ? destination : source);
+        const prefix =
+            gs.path && !gs.path.endsWith('/') ? `${gs.path}/` : gs.path;
+        const root = nodePath.resolve(
+            (toUpload ? source : destination) as string,
+        );
+
+        const [localFiles, remoteFiles] = await Promise.all([
+            listLocalFiles(root),
+            this.listFiles({ ...gs, path: prefix }),
+        ]);
+        const remoteByPath = new Map<string, File>(
+            remoteFiles.map((file) => [
+                file.name.substring(prefix.length),
+                file,
+            ]),
+        );
+
+        // Build the plan
+        const compare = options.compare ?? 'md5';
+        const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+        const paths = toUpload
+            ? [...localFiles.keys()]
+            : [...remoteByPath.keys()];
+
+        const entries = paths.map((path) => {
+            const localPath = nodePath.join(root, ...path.split('/'));
+            const gspath = generateGsPath(
+                generateGsUri(gs.bucket, path, prefix),
+            );
+            const entry: ISyncEntry = toUpload
+                ? { path, source: localPath, destination: gspath }
+                : { path, source: gspath, destination: localPath };
+            return entry;
+        });
+
+        const comparisons = await settleWithConcurrency(
+            entries,
+            async ({ path }) => {
+                const stats = localFiles.get(path);
+                const file = remoteByPath.get(path);
+                if (stats === undefined || file === undefined) {
+                    return false;
+                }
+                return isSameContent(
+                    nodePath.join(root, ...path.split('/')),
+                    stats,
+                    file,
+                    compare,
+                    toUpload,
+                );
+            },
+            concurrency,
+        );
+
+        // Entries that could not be compared are reported, not transferred
+        const failed: ITransferFailure[] = [];
+        const transfers: ISyncEntry[] = [];
+        const skips: ISyncEntry[] = [];
+        comparisons.forEach((result, index) => {
+            const entry = entries[index];
+            if (result.status === 'rejected') {
+                const error = new GCUtilsError(
+                    `Failed to compare ${entry.source} with ${entry.destination}`,
+                    result.reason,
+                );
+                failed.push({ ...entry, error });
+            } else if (result.value) {
+                skips.push(entry);
+            } else {
+                transfers.push(entry);
+            }
+        });
+
+        let deletions: string[] = [];
+        if (options.delete) {
+            deletions = toUpload
+                ? [...remoteByPath.keys()]
+                      .filter((path) => !localFiles.has(path))
+                      .map((path) =>
+                          this.toGsPath(remoteByPath.get(path) as File),
+                      )
+                : [...localFiles.keys()]
+                      .filter((path) => !remoteByPath.has(path))
+                      .map((path) => nodePath.join(root, ...path.split('/')));
+        }
+
+        const report: ISyncReport = {
+            dryRun: options.dryRun ?? false,
+            uploads: toUpload ? transfers : [],
+            downloads: toUpload ? [] : transfers,
+            skips,
+            deletions,
+            failed,
+        };
+        if (report.dryRun) {
+            return report;
+        }
+
+        // Execute the plan
+        const transferResults = await settleWithConcurrency(
+            transfers,
+            async (entry) => {
+                if (toUpload) {
+                    await this.writeData(
+                        entry.destination,
+                        fs.createReadStream(entry.source),
+                    );
+                } else {
+                    const file = remoteByPath.get(entry.path) as File;
+                    await this.downloadFile(file, entry.destination, {
+                        decompress: false,
+                    });
+                    // Align mtime with the object for `size-mtime` comparison
+                    const updated = new Date(file.metadata.updated ?? '');
+                    if (!isNaN(updated.getTime())) {
+                        await fs.promises.utimes(
+                            entry.destination,
+                            updated,
+                            updated,
+                        );
+                    }
+                }
+            },
+            concurrency,
+        );
+
+        const deletionResults = await settleWithConcurrency(
+            deletions,
+            async (path) => {
+                if (toUpload) {
+                    await this.deleteBlob(path);
+                } else {
+                    await fs.promises.unlink(path);
+                }
+            },
+            concurrency,
+        );
+
+        const toError = (reason: unknown) =>
+            new GCUtilsError(reason instanceof Error ? reason : `${reason}`);
+
+        const succeeded = transfers.filter((entry, index) => {
+            const result = transferResults[index];
+            if (result.status === 'rejected') {
+                failed.push({ ...entry, error: toError(result.reason) });
+                return false;
+            }
+            return true;
+        });
+        report.deletions = deletions.filter((path, index) => {
+            const result = deletionResults[index];
+            if (result.status === 'rejected') {
+                failed.push({
+                    source: path,
+                    destination: path,
+                    error: toError(result.reason),
+                });
+                return false;
+            }
+            return true;
+        });
+
+        if (toUpload) {
+            report.uploads = succeeded;
+        } else {
+            report.downloads = succeeded;
+        }
+
+        this.logger.info(
+            `.sync ${succeeded.length} transferred, ${skips.length} skipped, ${report.deletions.length} deleted and ${failed.length} failed`,
+        );
+        return report;
+    }
+
+    /**
+     * Return the File used for signing, using a dedicated Storage if
+     * credentials are provided
+     *
+     * @param input
+     * @param credentials
+     * @returns
+     */
+    protected getSigningBlob(
+        input: File | IGsUri | string,
+        credentials?: IServiceAccountKey,
+    ): File {
+        const blob = this.getBlob(input);
+        if (credentials === undefined) {
+            return blob;
+        }
+        return new Storage({ credentials })
+            .bucket(blob.bucket.name)
+            .file(blob.name);
+    }
+
+    /**
+     * Return IGsUri from the input, parsing it if it's a string
+     *
+     * @param input
+     * @returns
+     */
+    protected toGsUri(input: IGsUri | string): IGsUri {
+        return typeof input === 'string' ? parseGsPath(input) : input;
+    }
+
+    /**
+     * Return the `gs://` path of the input
+     *
+     * @param input
+     * @returns
+     */
+    protected toGsPath(input: File | IGsUri | string): string {
+        if (typeof input === 'string') {
+            return input;
+        } else if (input instanceof File) {
+            const gs = generateGsUri(input.bucket.name, input.name);
+            if (input.generation !== undefined) {
+                gs.generation = `${input.generation}`;
+            }
+            return generateGsPath(gs);
+        } else {
+            return generateGsPath(input);
+        }
+    }
+
+    /**
+     * Generate a V4 signed url allowing to read or upload a file without
+     * Google Cloud credentials.
+     *
+     * @param gspath
+     * @param options action, expiration and headers to enforce
+     * @returns
+     */
+    public async getSignedUrl(
+        gspath: File | IGsUri | string,
+        options: ISignedUrlOptions = {},
+    ): Promise<string> {
+        const blob = this.getSigningBlob(gspath, options.credentials);
+        const [url] = await blob.getSignedUrl({
+            version: 'v4',
+            action: options.action ?? 'read',
+            expires: computeExpires(options.expiresIn),
+            contentType: options.contentType,
+            responseDisposition: options.responseDisposition,
+        });
+        return url;
+    }
+
+    /**
+     * Generate a V4 signed POST policy allowing upload of a file from a
+     * html form without Google Cloud credentials.
+     *
+     * @param gspath
+     * @param options expiration and conditions to enforce
+     * @returns
+     */
+    public async getSignedPostPolicy(
+        gspath: File | IGsUri | string,
+        options: ISignedPostPolicyOptions = {},
+    ): Promise<ISignedPostPolicy> {
+        const blob = this.getSigningBlob(gspath, options.credentials);
+
+        const fields = { ...options.fields };
+        if (options.contentType) {
+            fields['content-type'] = options.contentType;
+        }
+
+        const conditions: object[] = [];
+        if (options.minSize !== undefined || options.maxSize !== undefined) {
+            conditions.push([
+                'content-length-range',
+                options.minSize ?? 0,
+                options.maxSize ?? Number.MAX_SAFE_INTEGER,
+            ]);
+        }
+
+        const [policy] = await blob.generateSignedPostPolicyV4({
+            expires: computeExpires(options.expiresIn),
+            fields,
+            conditions,
+        });
+        return { url: policy.url, fields: policy.fields };
     }
 
     public getBucket(bucketName: string): Bucket {
@@ -359,13 +3344,19 @@ export abstract class AbstractBStore {
             this.logger.debug(
                 () => `.getBlob bucket=${gs.bucket};path=${gs.path} [${input}]`,
             );
-            return this.getBucket(gs.bucket).file(gs.path);
+            return this.getBucket(gs.bucket).file(
+                gs.path,
+                createFileOptions(gs),
+            );
         } else {
             this.logger.debug(
                 () =>
                     `.getBlob bucket=${JSON.stringify(input.bucket)};path=${input.path}`,
             );
-            return this.getBucket(input.bucket).file(input.path);
+            return this.getBucket(input.bucket).file(
+                input.path,
+                createFileOptions(input),
+            );
         }
     }
 }
@@ -374,38 +3365,241 @@ export abstract class AbstractBStore {
  * Async methods of BStore returning promise
  */
 export interface IBStorePromise {
-    meta(input: File | IGsUri | string): Promise<TMetaData>;
+    meta(input: File | IGsUri | string): Promise<IGsObjectMetadata>;
+    setMetadata(
+        input: File | IGsUri | string,
+        patch: IMetadataPatch,
+    ): Promise<IGsObjectMetadata>;
+    setCustomMetadata(
+        input: File | IGsUri | string,
+        metadata: { [key: string]: string | null },
+    ): Promise<IGsObjectMetadata>;
     exists(
         input: File | IGsUri | string,
         waitFor: number,
         maxRetry: number,
     ): Promise<boolean>;
-    read(input: File | IGsUri | string): Promise<Buffer>;
-    retrieve(input: string): Promise<IRetrieveResult>;
+    read(
+        input: File | IGsUri | string,
+        options?: IReadOptions,
+    ): Promise<Buffer>;
+    readWithGeneration(
+        input: File | IGsUri | string,
+    ): Promise<IGenerationResult>;
+    readRange(
+        input: File | IGsUri | string,
+        range: IReadRangeOptions,
+    ): Promise<Buffer>;
+    head(input: File | IGsUri | string, bytes: number): Promise<Buffer>;
+    tail(input: File | IGsUri | string, bytes: number): Promise<Buffer>;
+    write(
+        input: File | IGsUri | string,
+        data: TWriteData,
+        options?: IWriteOptions,
+    ): Promise<IGsObjectMetadata>;
+    delete(
+        input: File | IGsUri | string,
+        options?: IDeleteOptions,
+    ): Promise<void>;
+    modify(
+        input: File | IGsUri | string,
+        fn: TModifyCallback,
+        options?: IModifyOptions,
+    ): Promise<IGsObjectMetadata>;
+    readJson<T extends object>(
+        input: File | IGsUri | string,
+        type?: { new (): T },
+    ): Promise<T>;
+    writeJson(
+        input: File | IGsUri | string,
+        value: unknown,
+        options?: IWriteOptions,
+    ): Promise<IGsObjectMetadata>;
+    readLines(input: File | IGsUri | string): AsyncIterable<string>;
+    readNdjson<T extends object>(
+        input: File | IGsUri | string,
+        type?: { new (): T },
+    ): AsyncIterable<T>;
+    readCsv<T extends object>(
+        input: File | IGsUri | string,
+        options?: ICsvOptions<T>,
+    ): AsyncIterable<T>;
+    retrieve(input: string, options?: IReadOptions): Promise<IRetrieveResult>;
+    listDirectory(
+        input: IGsUri | string,
+        options?: IListDirectoryOptions,
+    ): Promise<IDirectoryListing>;
+    walk(
+        input: IGsUri | string,
+        options?: IListDirectoryOptions,
+    ): AsyncIterable<IWalkEntry>;
+    iterateFiles(
+        input: IGsUri | string,
+        options?: IListFilesOptions,
+    ): AsyncIterable<File>;
     getFiles(input: IGsUri | string): Promise<File[]>;
     processFiles<T>(
         gspath: IGsUri | string,
         action: (file: File) => Promise<T>,
-    ): Promise<T[]>;
-    deleteFiles(gspath: IGsUri | string): Promise<void>;
+        options?: IProcessFilesOptions,
+    ): Promise<IProcessFilesReport<T>>;
+    copy(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<File>;
+    move(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<File>;
+    copyPrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<ITransferReport>;
+    movePrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<ITransferReport>;
+    deleteFiles(
+        gspath: IGsUri | string,
+        options?: IDeleteFilesOptions,
+    ): Promise<IDeleteFilesReport>;
+    isSame(
+        local: string | Buffer,
+        gspath: File | IGsUri | string,
+    ): Promise<boolean>;
+    watch(
+        gspath: IGsUri | string,
+        options?: IWatchOptions,
+    ): AsyncIterable<IWatchEvent>;
+    pollChanges(
+        gspath: IGsUri | string,
+        options?: IWatchOptions,
+    ): Promise<IWatchEvent[]>;
 }
 
 /**
  * Async methods of BStore returning Observable
  */
 export interface IBStoreRxJx {
-    meta(input: File | IGsUri | string): Observable<TMetaData>;
+    meta(input: File | IGsUri | string): Observable<IGsObjectMetadata>;
+    setMetadata(
+        input: File | IGsUri | string,
+        patch: IMetadataPatch,
+    ): Observable<IGsObjectMetadata>;
+    setCustomMetadata(
+        input: File | IGsUri | string,
+        metadata: { [key: string]: string | null },
+    ): Observable<IGsObjectMetadata>;
     exists(
         input: File | IGsUri | string,
         waitFor: number,
         maxRetry: number,
     ): Observable<boolean>;
-    read(input: File | IGsUri | string): Observable<Buffer>;
-    retrieve(input: string): Observable<IRetrieveResult>;
+    read(
+        input: File | IGsUri | string,
+        options?: IReadOptions,
+    ): Observable<Buffer>;
+    readWithGeneration(
+        input: File | IGsUri | string,
+    ): Observable<IGenerationResult>;
+    readRange(
+        input: File | IGsUri | string,
+        range: IReadRangeOptions,
+    ): Observable<Buffer>;
+    head(input: File | IGsUri | string, bytes: number): Observable<Buffer>;
+    tail(input: File | IGsUri | string, bytes: number): Observable<Buffer>;
+    write(
+        input: File | IGsUri | string,
+        data: TWriteData,
+        options?: IWriteOptions,
+    ): Observable<IGsObjectMetadata>;
+    delete(
+        input: File | IGsUri | string,
+        options?: IDeleteOptions,
+    ): Observable<void>;
+    modify(
+        input: File | IGsUri | string,
+        fn: TModifyCallback,
+        options?: IModifyOptions,
+    ): Observable<IGsObjectMetadata>;
+    readJson<T extends object>(
+        input: File | IGsUri | string,
+        type?: { new (): T },
+    ): Observable<T>;
+    writeJson(
+        input: File | IGsUri | string,
+        value: unknown,
+        options?: IWriteOptions,
+    ): Observable<IGsObjectMetadata>;
+    readLines(input: File | IGsUri | string): Observable<string>;
+    readNdjson<T extends object>(
+        input: File | IGsUri | string,
+        type?: { new (): T },
+    ): Observable<T>;
+    readCsv<T extends object>(
+        input: File | IGsUri | string,
+        options?: ICsvOptions<T>,
+    ): Observable<T>;
+    retrieve(
+        input: string,
+        options?: IReadOptions,
+    ): Observable<IRetrieveResult>;
+    listDirectory(
+        input: IGsUri | string,
+        options?: IListDirectoryOptions,
+    ): Observable<IDirectoryListing>;
+    walk(
+        input: IGsUri | string,
+        options?: IListDirectoryOptions,
+    ): Observable<IWalkEntry>;
+    iterateFiles(
+        input: IGsUri | string,
+        options?: IListFilesOptions,
+    ): Observable<File>;
     getFiles(input: IGsUri | string): Observable<File>;
     processFiles<T>(
         gspath: IGsUri | string,
-        action: (file: File) => T,
+        action: (file: File) => T | Promise<T>,
+        options?: Pick<IProcessFilesOptions, 'concurrency'>,
     ): Observable<T>;
-    deleteFiles(gspath: IGsUri | string): Observable<never>;
+    copy(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Observable<File>;
+    move(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Observable<File>;
+    copyPrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ICopyOptions,
+    ): Observable<ITransferReport>;
+    movePrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ICopyOptions,
+    ): Observable<ITransferReport>;
+    deleteFiles(
+        gspath: IGsUri | string,
+        options?: IDeleteFilesOptions,
+    ): Observable<IDeleteFilesReport>;
+    isSame(
+        local: string | Buffer,
+        gspath: File | IGsUri | string,
+    ): Observable<boolean>;
+    watch(
+        gspath: IGsUri | string,
+        options?: IWatchOptions,
+    ): Observable<IWatchEvent>;
+    pollChanges(
+        gspath: IGsUri | string,
+        options?: IWatchOptions,
+    ): Observable<IWatchEvent[]>;
 }
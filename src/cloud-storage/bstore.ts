@@ -1,19 +1,58 @@
-import {
-    File,
-    GetFilesOptions,
-    DeleteFilesOptions,
-} from '@google-cloud/storage';
+import { Writable } from 'stream';
+import { File } from '@google-cloud/storage';
 
-import { createLogger, retry } from '../core';
 import {
-    TMetaData,
+    createLogger,
+    GCUtilsError,
+    retry,
+    settleWithConcurrency,
+} from '../core';
+import {
     IGsUri,
+    IReadOptions,
+    IReadRangeOptions,
     IRetrieveResult,
     parseGsPath,
-    generateGsPath,
     AbstractBStore,
     IBStorePromise,
+    IWriteOptions,
+    CONTENT_TYPE_JSON,
+    TWriteData,
+    ICopyOptions,
+    ITransferReport,
+    DEFAULT_CONCURRENCY,
+    IGenerationResult,
+    IDeleteOptions,
+    TModifyCallback,
+    IModifyOptions,
+    IListFilesOptions,
+    IProcessFilesOptions,
+    IProcessFilesReport,
+    IDeleteFilesOptions,
+    IDeleteFilesReport,
 } from './base';
+import {
+    IGsObjectMetadata,
+    IMetadataPatch,
+    toGsObjectMetadata,
+} from './metadata';
+import { ICsvOptions, splitLines } from './parsers';
+import { IArchiveOptions, IArchiveReport } from './archive';
+import { IComposeOptions, IParallelUploadOptions } from './compose';
+import { IDownloadOptions, IUploadOptions } from './transfer';
+import { IObjectVersion, IPurgeVersionsOptions } from './versions';
+import {
+    IDirectoryListing,
+    IListDirectoryOptions,
+    IWalkEntry,
+} from './directory';
+import { ISyncOptions, ISyncReport } from './sync';
+import { IWatchEvent, IWatchOptions } from './watch';
+import { IReadCacheStats } from './cache';
+import {
+    IFixContentTypesOptions,
+    IFixContentTypesReport,
+} from './content-type';
 
 /**
  * Simple wrapper for Google Storage with support for `gs://` style path
@@ -31,10 +70,41 @@ export class BStore extends AbstractBStore implements IBStorePromise {
      *
      * @param input Google Storage path or instance of File
      */
-    public async meta(input: File | IGsUri | string): Promise<TMetaData> {
+    public async meta(
+        input: File | IGsUri | string,
+    ): Promise<IGsObjectMetadata> {
         const blob = this.getBlob(input);
         const [meta] = await blob.getMetadata();
-        return meta;
+        return toGsObjectMetadata(meta);
+    }
+
+    /**
+     * Update the content headers and custom metadata of a Google Storage File
+     * in place, only changing the fields provided, and return the resulting
+     * metadata
+     *
+     * @param input Google Storage path or instance of File
+     * @param patch fields to change; custom metadata set to `null` are removed
+     */
+    public setMetadata(
+        input: File | IGsUri | string,
+        patch: IMetadataPatch,
+    ): Promise<IGsObjectMetadata> {
+        return this.patchMetadata(input, patch);
+    }
+
+    /**
+     * Merge the custom metadata of a Google Storage File, removing the keys
+     * set to `null`, and return the resulting metadata
+     *
+     * @param input Google Storage path or instance of File
+     * @param metadata custom metadata to set
+     */
+    public setCustomMetadata(
+        input: File | IGsUri | string,
+        metadata: { [key: string]: string | null },
+    ): Promise<IGsObjectMetadata> {
+        return this.patchMetadata(input, { metadata });
     }
 
     /**
@@ -59,15 +129,32 @@ export class BStore extends AbstractBStore implements IBStorePromise {
     }
 
     /**
-     * Return a Buffer with data from a Google Storage File
+     * Return a Buffer with data from a Google Storage File.  Read through
+     * the cache set with `IBStoreOptions.cache`, unless a range is read.
      *
      * @param input Google Storage path or instance of File
+     * @param options decompression of gzip content
      */
-    public read(input: File | IGsUri | string): Promise<Buffer> {
+    public async read(
+        input: File | IGsUri | string,
+        options?: IReadOptions,
+    ): Promise<Buffer> {
+        if (
+            this.readCache !== undefined &&
+            options?.start === undefined &&
+            options?.end === undefined
+        ) {
+            const entry = await this.readThroughCache(
+                this.readCache,
+                input,
+                options,
+            );
+            return entry.buffer;
+        }
         return new Promise((resolve, reject) => {
             const chunks: Buffer[] = [];
             try {
-                this.createReadableStream(input)
+                this.createReadableStream(input, options)
                     .on('data', (chunk: Buffer) => chunks.push(chunk))
                     .on('error', (err: Error) => reject(err))
                     .on('end', () => resolve(Buffer.concat(chunks)));
@@ -78,111 +165,653 @@ export class BStore extends AbstractBStore implements IBStorePromise {
         });
     }
 
+    /**
+     * Return a Buffer with data from a Google Storage File along with the
+     * generation read, to be used as `ifGenerationMatch` of the next write
+     *
+     * @param input Google Storage path or instance of File
+     */
+    public readWithGeneration(
+        input: File | IGsUri | string,
+    ): Promise<IGenerationResult> {
+        return this.readGeneration(input);
+    }
+
+    /**
+     * Return a Buffer with a range of bytes of a Google Storage File.  The
+     * range is validated against the size of the object and the end is
+     * capped to the last byte.
+     *
+     * @param input Google Storage path or instance of File
+     * @param range first and last byte to read, inclusive
+     */
+    public readRange(
+        input: File | IGsUri | string,
+        range: IReadRangeOptions,
+    ): Promise<Buffer> {
+        return this.readByteRange(input, range);
+    }
+
+    /**
+     * Return a Buffer with the first bytes of a Google Storage File
+     *
+     * @param input Google Storage path or instance of File
+     * @param bytes number of bytes to read
+     */
+    public head(input: File | IGsUri | string, bytes: number): Promise<Buffer> {
+        return this.readByteRange(input, { head: bytes });
+    }
+
+    /**
+     * Return a Buffer with the last bytes of a Google Storage File
+     *
+     * @param input Google Storage path or instance of File
+     * @param bytes number of bytes to read
+     */
+    public tail(input: File | IGsUri | string, bytes: number): Promise<Buffer> {
+        return this.readByteRange(input, { tail: bytes });
+    }
+
+    /**
+     * Write a Buffer, string or Readable to a Google Storage File and
+     * return the metadata of the resulting object
+     *
+     * @param input Google Storage path or instance of File
+     * @param data content to write
+     * @param options content type, custom metadata and upload options
+     */
+    public write(
+        input: File | IGsUri | string,
+        data: TWriteData,
+        options?: IWriteOptions,
+    ): Promise<IGsObjectMetadata> {
+        return this.writeData(input, data, options);
+    }
+
+    /**
+     * Delete a Google Storage File, optionally only if its generation matches
+     *
+     * @param input Google Storage path or instance of File
+     * @param options generation precondition
+     */
+    public delete(
+        input: File | IGsUri | string,
+        options?: IDeleteOptions,
+    ): Promise<void> {
+        return this.deleteBlob(input, options);
+    }
+
+    /**
+     * Read a file, apply fn to its content and write the result only if the
+     * file was not updated in the meantime, retrying on concurrent update.
+     * fn receives undefined if the file doesn't exist.
+     *
+     * @param input Google Storage path or instance of File
+     * @param fn return the new content from the current content
+     * @param options write options and retry settings
+     */
+    public modify(
+        input: File | IGsUri | string,
+        fn: TModifyCallback,
+        options?: IModifyOptions,
+    ): Promise<IGsObjectMetadata> {
+        return this.modifyBlob(input, fn, options);
+    }
+
+    /**
+     * Read a JSON file and optionally create and validate an instance of type
+     *
+     * @param input Google Storage path or instance of File
+     * @param type optional class to create from the json
+     */
+    public async readJson<T extends object>(
+        input: File | IGsUri | string,
+        type?: { new (): T },
+    ): Promise<T> {
+        const buffer = await this.read(input);
+        return this.parseJson(input, buffer, type);
+    }
+
+    /**
+     * Write a value as JSON with `application/json` content type
+     *
+     * @param input Google Storage path or instance of File
+     * @param value value to be serialized as JSON
+     * @param options custom metadata and upload options
+     */
+    public writeJson(
+        input: File | IGsUri | string,
+        value: unknown,
+        options?: IWriteOptions,
+    ): Promise<IGsObjectMetadata> {
+        return this.write(input, JSON.stringify(value), {
+            ...options,
+            contentType: CONTENT_TYPE_JSON,
+        });
+    }
+
+    /**
+     * Read a file line by line without loading the whole file in memory
+     *
+     * @param input Google Storage path or instance of File
+     */
+    public readLines(input: File | IGsUri | string): AsyncIterable<string> {
+        return splitLines(this.createReadableStream(input));
+    }
+
+    /**
+     * Read a newline delimited JSON file, optionally creating and validating
+     * an instance of type for each line
+     *
+     * @param input Google Storage path or instance of File
+     * @param type optional class to create from each line
+     */
+    public readNdjson<T extends object>(
+        input: File | IGsUri | string,
+        type?: { new (): T },
+    ): AsyncIterable<T> {
+        return this.iterateNdjson(input, type);
+    }
+
+    /**
+     * Read a CSV file returning each record as an object keyed by the headers
+     *
+     * @param input Google Storage path or instance of File
+     * @param options delimiter, headers and optional class to create from each record
+     */
+    public readCsv<T extends object = { [key: string]: string }>(
+        input: File | IGsUri | string,
+        options?: ICsvOptions<T>,
+    ): AsyncIterable<T> {
+        return this.iterateCsv<T>(input, options);
+    }
+
     /**
      * Return meta and content of file from a given gs path
      *
      * @param input Google Storage path
+     * @param options decompression of gzip content
      */
-    public async retrieve(input: string): Promise<IRetrieveResult> {
+    public async retrieve(
+        input: string,
+        options?: IReadOptions,
+    ): Promise<IRetrieveResult> {
         const gs = parseGsPath(input);
         const blob = this.getBlob(input);
 
+        if (
+            this.readCache !== undefined &&
+            options?.start === undefined &&
+            options?.end === undefined
+        ) {
+            const { meta, buffer } = await this.readThroughCache(
+                this.readCache,
+                blob,
+                options,
+            );
+            return { gs, meta, buffer };
+        }
+
         const [meta, buffer] = await Promise.all([
             this.meta(blob),
-            this.read(blob),
+            this.read(blob, options),
         ]);
         return { gs, meta, buffer };
     }
 
+    /**
+     * Return the sub directories and files of a directory as IGsUri.  Set
+     * `options.depth` to include the content of sub directories up to that level.
+     *
+     * @param input directory to list
+     * @param options depth of the listing.  Default to 1
+     */
+    public listDirectory(
+        input: IGsUri | string,
+        options?: IListDirectoryOptions,
+    ): Promise<IDirectoryListing> {
+        return this.listDirectoryTree(input, options);
+    }
+
+    /**
+     * Visit the directory tree depth first, yielding the sub directories
+     * and files of each directory before the content of its sub directories
+     *
+     * @param input directory to start from
+     * @param options depth of the traversal.  Default to unlimited
+     */
+    public walk(
+        input: IGsUri | string,
+        options?: IListDirectoryOptions,
+    ): AsyncIterable<IWalkEntry> {
+        return this.walkDirectory(input, options);
+    }
+
     /**
      * Return a list of files from a path excluding the directories
      *
      * @param input
      */
     public getFiles(input: IGsUri | string): Promise<File[]> {
-        let gs: IGsUri;
-        if (typeof input === 'string') {
-            gs = parseGsPath(input);
-        } else {
-            gs = input;
-        }
-        const options: GetFilesOptions = {};
-
-        // Filter the result from the path provided.
-        if (gs.path) {
-            this.logger.debug(
-                `Setting BStore.getFiles option.prefix to ${gs.path}`,
-            );
-            options.prefix = gs.path;
-        }
+        return this.listFiles(input);
+    }
 
-        // .getFiles for somereason returns Files wraps in an array.  Need to return first result only
-        const bucket = this.getBucket(gs.bucket);
-        return bucket
-            .getFiles(options)
-            .then((result) => {
-                if (Array.isArray(result) && result.length) {
-                    return result[0];
-                } else {
-                    return [];
-                }
-            })
-            .then((files: File[]) => {
-                // Filter out directories
-                return files.filter((file: File) => !file.name.endsWith('/'));
-            });
+    /**
+     * List the files of a path page by page, yielding each file without
+     * loading the whole listing in memory.  The path can be a glob such as
+     * `gs://bucket/exports/**\/2024-*.csv`.
+     *
+     * @param input path or glob to list
+     * @param options page size, page token to resume from and offsets
+     */
+    public iterateFiles(
+        input: IGsUri | string,
+        options?: IListFilesOptions,
+    ): AsyncIterable<File> {
+        return this.iterateFileList(input, options);
     }
 
     /**
-     * Process all files return for a given path via an action callback
+     * Process all files return for a given path via an action callback with
+     * at most `options.concurrency` actions in progress.  Unless
+     * `options.continueOnError` is set, no new action is started after the
+     * first failure.
      *
      * @param gspath path to get files from
      * @param action file processor
+     * @param options concurrency, error and abort handling
+     * @returns report of succeeded, failed and skipped files
      */
-    public processFiles<T>(
+    public async processFiles<T>(
         gspath: IGsUri | string,
         action: (file: File) => Promise<T>,
-    ): Promise<T[]> {
-        return this.getFiles(gspath).then((files: File[]) => {
-            const actions: Array<Promise<T>> = [];
+        options: IProcessFilesOptions = {},
+    ): Promise<IProcessFilesReport<T>> {
+        const startedAt = Date.now();
+        const files = await this.getFiles(gspath);
+        const report: IProcessFilesReport<T> = {
+            succeeded: [],
+            failed: [],
+            skipped: [],
+            duration: 0,
+        };
 
-            for (const file of files) {
-                actions.push(action(file));
-            }
+        let stopped = false;
+        await settleWithConcurrency(
+            files,
+            async (file) => {
+                if (stopped || options.signal?.aborted) {
+                    report.skipped.push(file);
+                    return;
+                }
 
-            // Wait for all actions result before proceeding
-            return Promise.all(actions);
-        });
+                const start = Date.now();
+                try {
+                    const result = await action(file);
+                    report.succeeded.push({
+                        file,
+                        result,
+                        duration: Date.now() - start,
+                    });
+                } catch (err) {
+                    report.failed.push({
+                        file,
+                        error:
+                            err instanceof Error
+                                ? err
+                                : new GCUtilsError(`${err}`),
+                        duration: Date.now() - start,
+                    });
+                    if (!options.continueOnError) {
+                        stopped = true;
+                    }
+                }
+            },
+            options.concurrency ?? DEFAULT_CONCURRENCY,
+        );
+
+        report.duration = Date.now() - startedAt;
+        this.logger.debug(
+            `.processFiles ${report.succeeded.length} succeeded, ${report.failed.length} failed and ${report.skipped.length} skipped`,
+        );
+        return report;
     }
 
-    public deleteFiles(gspath: IGsUri | string): Promise<void> {
-        let gs: IGsUri;
-        if (typeof gspath === 'string') {
-            gs = parseGsPath(gspath);
-        } else {
-            gs = gspath;
-        }
+    /**
+     * Copy a file to destination, possibly in a different bucket.  Metadata
+     * of the source is preserved unless overridden by options.
+     *
+     * @param source Google Storage path or instance of File
+     * @param destination Google Storage path or instance of File
+     * @param options metadata overrides
+     */
+    public copy(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<File> {
+        return this.copyBlob(source, destination, options);
+    }
 
-        // Do not stop at the first error; try to delete what it can
-        const options: DeleteFilesOptions = {
-            force: true,
-        };
+    /**
+     * Move or rename a file to destination, possibly in a different bucket.
+     *
+     * @param source Google Storage path or instance of File
+     * @param destination Google Storage path or instance of File
+     * @param options metadata overrides
+     */
+    public move(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<File> {
+        return this.moveBlob(source, destination, options);
+    }
 
-        // Filter the result from the path provided.
-        if (gs.path) {
-            this.logger.debug(
-                `Setting BStore.deleteFiles option.prefix to ${gs.path}`,
-            );
-            options.prefix = gs.path;
-        } else {
-            throw new Error(
-                `A directory must be passed to BStore.deleteFiles [${generateGsPath(gs)}]`,
-            );
-        }
+    /**
+     * Copy all files under source prefix to destination prefix returning
+     * a report of the succeeded and failed objects
+     *
+     * @param source prefix to copy from
+     * @param destination prefix to copy to
+     * @param options metadata overrides and concurrency
+     */
+    public copyPrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<ITransferReport> {
+        return this.transferPrefix(source, destination, false, options);
+    }
+
+    /**
+     * Move all files under source prefix to destination prefix returning
+     * a report of the succeeded and failed objects
+     *
+     * @param source prefix to move from
+     * @param destination prefix to move to
+     * @param options metadata overrides and concurrency
+     */
+    public movePrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ICopyOptions,
+    ): Promise<ITransferReport> {
+        return this.transferPrefix(source, destination, true, options);
+    }
+
+    /**
+     * Concatenate the sources into destination in the order provided and
+     * return the destination File.  More than 32 sources are composed in
+     * rounds of temporary objects deleted at the end.
+     *
+     * @param sources objects in the same bucket as destination
+     * @param destination
+     * @param options content type, custom metadata and concurrency
+     */
+    public compose(
+        sources: Array<File | IGsUri | string>,
+        destination: File | IGsUri | string,
+        options?: IComposeOptions,
+    ): Promise<File> {
+        return this.composeBlobs(sources, destination, options);
+    }
+
+    /**
+     * Upload a large local file by splitting it in parts uploaded
+     * concurrently then composed into destination, returning the destination
+     * File.  The CRC32C checksum of the result is verified unless disabled.
+     *
+     * @param localFile path of the local file
+     * @param destination
+     * @param options number of parts, content type, custom metadata and concurrency
+     */
+    public parallelUpload(
+        localFile: string,
+        destination: File | IGsUri | string,
+        options?: IParallelUploadOptions,
+    ): Promise<File> {
+        return this.uploadParallel(localFile, destination, options);
+    }
+
+    /**
+     * Stream an object to a local file without holding it in memory.  The
+     * content is written to a temporary file renamed once complete, so an
+     * aborted or failed download never leaves a partial file.
+     *
+     * @param gspath object to download
+     * @param localPath path of the local file, parent directories are created
+     * @param options progress callback, abort signal and decompression
+     * @returns metadata of the generation downloaded
+     */
+    public download(
+        gspath: File | IGsUri | string,
+        localPath: string,
+        options?: IDownloadOptions,
+    ): Promise<IGsObjectMetadata> {
+        return this.downloadFile(gspath, localPath, options);
+    }
+
+    /**
+     * Stream a local file to an object with a resumable upload.  Set
+     * `options.sessionFile` to save the upload session so an interrupted
+     * upload is resumed by the next call instead of restarting.
+     *
+     * @param localPath path of the local file
+     * @param gspath destination object
+     * @param options progress callback, abort signal, session file and write options
+     * @returns metadata of the object uploaded
+     */
+    public upload(
+        localPath: string,
+        gspath: File | IGsUri | string,
+        options?: IUploadOptions,
+    ): Promise<IGsObjectMetadata> {
+        return this.uploadFile(localPath, gspath, options);
+    }
+
+    /**
+     * Stream all files under a path into a single zip or tar.gz archive,
+     * without holding the content in memory.  The destination is an object,
+     * whose extension selects the format, or a local stream such as an http
+     * response.  Entries are named relative to the directory of the path.
+     *
+     * @param gspath prefix or glob of the files to archive
+     * @param destination archive object or stream
+     * @param options format and progress callback
+     */
+    public archive(
+        gspath: IGsUri | string,
+        destination: File | IGsUri | string | Writable,
+        options?: IArchiveOptions,
+    ): Promise<IArchiveReport> {
+        return this.archivePrefix(gspath, destination, options);
+    }
+
+    /**
+     * Unpack a zip or tar.gz archive into one object per file under the
+     * destination prefix.  Entries escaping the prefix raise GCUtilsError.
+     *
+     * @param archive archive object, `.zip`, `.tar.gz` or `.tgz`
+     * @param destination prefix of the objects created
+     * @param options format and progress callback
+     */
+    public extract(
+        archive: File | IGsUri | string,
+        destination: IGsUri | string,
+        options?: IArchiveOptions,
+    ): Promise<IArchiveReport> {
+        return this.extractArchive(archive, destination, options);
+    }
+
+    /**
+     * Synchronize a local directory and a gs prefix in either direction,
+     * depending on which of source and destination is a gs path.  Unchanged
+     * files are skipped and, if `options.delete` is set, files not in the
+     * source are deleted from the destination.
+     *
+     * @param source local directory or gs prefix
+     * @param destination local directory or gs prefix
+     * @param options
+     */
+    public sync(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ISyncOptions,
+    ): Promise<ISyncReport> {
+        return this.syncPrefix(source, destination, options);
+    }
+
+    /**
+     * Delete all files under a prefix or matching a glob such as
+     * `gs://bucket/tmp/**\/*.log`, returning the deleted objects and the
+     * failures.  Deleting from the root of a bucket must be confirmed with
+     * `options.confirmBucketRoot`.
+     *
+     * @param gspath prefix or glob of the files to delete
+     * @param options dry run, age filter and concurrency
+     */
+    public deleteFiles(
+        gspath: IGsUri | string,
+        options?: IDeleteFilesOptions,
+    ): Promise<IDeleteFilesReport> {
+        return this.deleteFileList(gspath, options);
+    }
+
+    /**
+     * Set the content type of the objects under a prefix or matching a glob
+     * stored without one or as `application/octet-stream`, detected as for
+     * the objects written.  Objects whose content type cannot be detected
+     * are left unchanged.
+     *
+     * @param gspath prefix or glob of the objects to fix
+     * @param options dry run and concurrency
+     */
+    public fixContentTypes(
+        gspath: IGsUri | string,
+        options?: IFixContentTypesOptions,
+    ): Promise<IFixContentTypesReport> {
+        return this.fixObjectContentTypes(gspath, options);
+    }
+
+    /**
+     * Return all generations of an object of a bucket with object versioning,
+     * ordered from the newest to the oldest.  The live generation has
+     * `live` set to true.
+     *
+     * @param gspath object to list the generations of
+     */
+    public listVersions(
+        gspath: File | IGsUri | string,
+    ): Promise<IObjectVersion[]> {
+        return this.listObjectVersions(gspath);
+    }
+
+    /**
+     * Return a Buffer with the content of a generation of an object, live or
+     * noncurrent.  Same as `.read` of `gs://bucket/path#generation`.
+     *
+     * @param gspath
+     * @param generation
+     * @param options decompression of gzip content
+     */
+    public readVersion(
+        gspath: File | IGsUri | string,
+        generation: string | number,
+        options?: IReadOptions,
+    ): Promise<Buffer> {
+        return this.read(this.getVersionBlob(gspath, generation), options);
+    }
+
+    /**
+     * Make a generation of an object live again by copying it over the live
+     * generation, which becomes noncurrent.  Return the File of the new live
+     * generation.
+     *
+     * @param gspath
+     * @param generation generation to restore
+     */
+    public restore(
+        gspath: File | IGsUri | string,
+        generation: string | number,
+    ): Promise<File> {
+        return this.restoreVersion(gspath, generation);
+    }
+
+    /**
+     * Delete the noncurrent generations of an object, never the live one.
+     * `options.keepLast` keeps the most recent noncurrent generations and
+     * `options.olderThan` only deletes the generations noncurrent since
+     * before that date.
+     *
+     * @param gspath
+     * @param options generations to keep, dry run and concurrency
+     */
+    public purgeVersions(
+        gspath: File | IGsUri | string,
+        options?: IPurgeVersionsOptions,
+    ): Promise<IDeleteFilesReport> {
+        return this.purgeObjectVersions(gspath, options);
+    }
 
-        // .getFiles for somereason returns Files wraps in an array.  Need to return first result only
-        const bucket = this.getBucket(gs.bucket);
+    /**
+     * Return the hits, misses, revalidations and evictions of the cache set
+     * with `IBStoreOptions.cache`, undefined if there is no cache
+     */
+    public cacheStats(): IReadCacheStats | undefined {
+        return this.readCache?.stats();
+    }
+
+    /**
+     * Remove the content cached in memory and in the cache directory, if any
+     */
+    public async clearCache(): Promise<void> {
+        await this.readCache?.clear();
+    }
 
-        return bucket.deleteFiles(options);
+    /**
+     * Check if a local file or Buffer has the same content as the object
+     * using the size and checksums, without downloading the object.
+     * Return false if the object doesn't exist.
+     *
+     * @param local path of a local file or content
+     * @param gspath
+     */
+    public isSame(
+        local: string | Buffer,
+        gspath: File | IGsUri | string,
+    ): Promise<boolean> {
+        return this.compareChecksum(local, gspath);
+    }
+
+    /**
+     * Poll the objects of a path or glob every `options.interval`
+     * milliseconds, yielding the objects created, updated or deleted since
+     * the previous listing until `options.signal` is aborted.  With
+     * `options.checkpoint`, the snapshot is saved once the events of a
+     * listing are consumed so a restart does not replay them.
+     *
+     * @param gspath path or glob to watch
+     * @param options interval, event types and checkpoint
+     */
+    public watch(
+        gspath: IGsUri | string,
+        options?: IWatchOptions,
+    ): AsyncIterable<IWatchEvent> {
+        return this.watchChanges(gspath, options);
+    }
+
+    /**
+     * List the objects of a path or glob once and return the changes since
+     * the snapshot of `options.checkpoint`, then save the new snapshot.
+     *
+     * @param gspath path or glob to watch
+     * @param options event types and checkpoint
+     */
+    public pollChanges(
+        gspath: IGsUri | string,
+        options?: IWatchOptions,
+    ): Promise<IWatchEvent[]> {
+        return this.pollCheckpoint(gspath, options);
     }
 }
@@ -1,10 +1,7 @@
-import {
-    File,
-    GetFilesOptions,
-    DeleteFilesOptions,
-} from '@google-cloud/storage';
+import { File } from '@google-cloud/storage';
 import {
     Observable,
+    defer,
     of,
     from,
     map,
@@ -13,19 +10,57 @@ import {
     retry,
     catchError,
     throwError,
+    timer,
+    exhaustMap,
+    concat,
+    ignoreElements,
+    EMPTY,
 } from 'rxjs';
-import { isArray } from 'jlog-facade';
 
 import { createLogger } from '../core';
 import {
     TMetaData,
     IGsUri,
+    IReadOptions,
+    IReadRangeOptions,
     IRetrieveResult,
     parseGsPath,
-    generateGsPath,
     AbstractBStore,
     IBStoreRxJx,
+    IWriteOptions,
+    CONTENT_TYPE_JSON,
+    TWriteData,
+    ICopyOptions,
+    ITransferReport,
+    IGenerationResult,
+    IDeleteOptions,
+    TModifyCallback,
+    IModifyOptions,
+    IListFilesOptions,
+    createListQuery,
+    IProcessFilesOptions,
+    DEFAULT_CONCURRENCY,
+    IDeleteFilesOptions,
+    IDeleteFilesReport,
 } from './base';
+import {
+    IGsObjectMetadata,
+    IMetadataPatch,
+    toGsObjectMetadata,
+} from './metadata';
+import { ICsvOptions, splitLines } from './parsers';
+import {
+    IDirectoryListing,
+    IListDirectoryOptions,
+    IWalkEntry,
+} from './directory';
+import { ISyncOptions, ISyncReport } from './sync';
+import {
+    IWatchEvent,
+    IWatchOptions,
+    resolveWatchInterval,
+    TWatchSnapshot,
+} from './watch';
 
 const RETRY_ERROR = 'Retry Error ID aVMFH2aUsC';
 
@@ -46,14 +81,14 @@ export class BStoreRx extends AbstractBStore implements IBStoreRxJx {
      *
      * @param input Google Storage path or instance of File
      */
-    public meta(input: File | IGsUri | string): Observable<TMetaData> {
+    public meta(input: File | IGsUri | string): Observable<IGsObjectMetadata> {
         const blob = this.getBlob(input);
         return new Observable((subscriber) => {
             blob.getMetadata((err: Error | null, metadata?: TMetaData) => {
                 if (err instanceof Error) {
                     subscriber.error(err);
                 } else if (metadata !== undefined) {
-                    subscriber.next(metadata);
+                    subscriber.next(toGsObjectMetadata(metadata));
                 }
                 subscriber.complete();
             })?.catch((err) => {
@@ -68,6 +103,35 @@ export class BStoreRx extends AbstractBStore implements IBStoreRxJx {
         });
     }
 
+    /**
+     * Update the content headers and custom metadata of a Google Storage File
+     * in place, only changing the fields provided, and emit the resulting
+     * metadata
+     *
+     * @param input Google Storage path or instance of File
+     * @param patch fields to change; custom metadata set to `null` are removed
+     */
+    public setMetadata(
+        input: File | IGsUri | string,
+        patch: IMetadataPatch,
+    ): Observable<IGsObjectMetadata> {
+        return defer(() => from(this.patchMetadata(input, patch)));
+    }
+
+    /**
+     * Merge the custom metadata of a Google Storage File, removing the keys
+     * set to `null`, and emit the resulting metadata
+     *
+     * @param input Google Storage path or instance of File
+     * @param metadata custom metadata to set
+     */
+    public setCustomMetadata(
+        input: File | IGsUri | string,
+        metadata: { [key: string]: string | null },
+    ): Observable<IGsObjectMetadata> {
+        return defer(() => from(this.patchMetadata(input, { metadata })));
+    }
+
     /**
      * Check if file exists, retries 3 times every 50 ms by default.
      *
@@ -122,13 +186,17 @@ export class BStoreRx extends AbstractBStore implements IBStoreRxJx {
      * Return a Buffer with data from a Google Storage File
      *
      * @param input Google Storage path or instance of File
+     * @param options decompression of gzip content
      */
-    public read(input: File | IGsUri | string): Observable<Buffer> {
+    public read(
+        input: File | IGsUri | string,
+        options?: IReadOptions,
+    ): Observable<Buffer> {
         const chunks: Buffer[] = [];
 
         return new Observable((subscriber) => {
             try {
-                this.createReadableStream(input)
+                this.createReadableStream(input, options)
                     .on('data', (chunk: Buffer) => chunks.push(chunk))
                     .on('error', (error: unknown) => subscriber.error(error))
                     .on('end', () => {
@@ -142,20 +210,222 @@ export class BStoreRx extends AbstractBStore implements IBStoreRxJx {
         });
     }
 
+    /**
+     * Return a Buffer with data from a Google Storage File along with the
+     * generation read, to be used as `ifGenerationMatch` of the next write
+     *
+     * @param input Google Storage path or instance of File
+     */
+    public readWithGeneration(
+        input: File | IGsUri | string,
+    ): Observable<IGenerationResult> {
+        return defer(() => from(this.readGeneration(input)));
+    }
+
+    /**
+     * Emit a Buffer with a range of bytes of a Google Storage File.  The
+     * range is validated against the size of the object and the end is
+     * capped to the last byte.
+     *
+     * @param input Google Storage path or instance of File
+     * @param range first and last byte to read, inclusive
+     */
+    public readRange(
+        input: File | IGsUri | string,
+        range: IReadRangeOptions,
+    ): Observable<Buffer> {
+        return defer(() => from(this.readByteRange(input, range)));
+    }
+
+    /**
+     * Emit a Buffer with the first bytes of a Google Storage File
+     *
+     * @param input Google Storage path or instance of File
+     * @param bytes number of bytes to read
+     */
+    public head(
+        input: File | IGsUri | string,
+        bytes: number,
+    ): Observable<Buffer> {
+        return defer(() => from(this.readByteRange(input, { head: bytes })));
+    }
+
+    /**
+     * Emit a Buffer with the last bytes of a Google Storage File
+     *
+     * @param input Google Storage path or instance of File
+     * @param bytes number of bytes to read
+     */
+    public tail(
+        input: File | IGsUri | string,
+        bytes: number,
+    ): Observable<Buffer> {
+        return defer(() => from(this.readByteRange(input, { tail: bytes })));
+    }
+
+    /**
+     * Write a Buffer, string or Readable to a Google Storage File and
+     * emit the metadata of the resulting object
+     *
+     * @param input Google Storage path or instance of File
+     * @param data content to write
+     * @param options content type, custom metadata and upload options
+     */
+    public write(
+        input: File | IGsUri | string,
+        data: TWriteData,
+        options?: IWriteOptions,
+    ): Observable<IGsObjectMetadata> {
+        return defer(() => from(this.writeData(input, data, options)));
+    }
+
+    /**
+     * Delete a Google Storage File, optionally only if its generation matches
+     *
+     * @param input Google Storage path or instance of File
+     * @param options generation precondition
+     */
+    public delete(
+        input: File | IGsUri | string,
+        options?: IDeleteOptions,
+    ): Observable<void> {
+        return defer(() => from(this.deleteBlob(input, options)));
+    }
+
+    /**
+     * Read a file, apply fn to its content and write the result only if the
+     * file was not updated in the meantime, retrying on concurrent update.
+     * fn receives undefined if the file doesn't exist.
+     *
+     * @param input Google Storage path or instance of File
+     * @param fn return the new content from the current content
+     * @param options write options and retry settings
+     */
+    public modify(
+        input: File | IGsUri | string,
+        fn: TModifyCallback,
+        options?: IModifyOptions,
+    ): Observable<IGsObjectMetadata> {
+        return defer(() => from(this.modifyBlob(input, fn, options)));
+    }
+
+    /**
+     * Read a JSON file and optionally create and validate an instance of type
+     *
+     * @param input Google Storage path or instance of File
+     * @param type optional class to create from the json
+     */
+    public readJson<T extends object>(
+        input: File | IGsUri | string,
+        type?: { new (): T },
+    ): Observable<T> {
+        return this.read(input).pipe(
+            map((buffer) => this.parseJson(input, buffer, type)),
+        );
+    }
+
+    /**
+     * Write a value as JSON with `application/json` content type
+     *
+     * @param input Google Storage path or instance of File
+     * @param value value to be serialized as JSON
+     * @param options custom metadata and upload options
+     */
+    public writeJson(
+        input: File | IGsUri | string,
+        value: unknown,
+        options?: IWriteOptions,
+    ): Observable<IGsObjectMetadata> {
+        return this.write(input, JSON.stringify(value), {
+            ...options,
+            contentType: CONTENT_TYPE_JSON,
+        });
+    }
+
+    /**
+     * Read a file line by line without loading the whole file in memory.  The
+     * file is read only as fast as the lines are emitted and the stream is
+     * closed upon unsubscribe.
+     *
+     * @param input Google Storage path or instance of File
+     */
+    public readLines(input: File | IGsUri | string): Observable<string> {
+        return defer(() => from(splitLines(this.createReadableStream(input))));
+    }
+
+    /**
+     * Read a newline delimited JSON file, optionally creating and validating
+     * an instance of type for each line
+     *
+     * @param input Google Storage path or instance of File
+     * @param type optional class to create from each line
+     */
+    public readNdjson<T extends object>(
+        input: File | IGsUri | string,
+        type?: { new (): T },
+    ): Observable<T> {
+        return defer(() => from(this.iterateNdjson(input, type)));
+    }
+
+    /**
+     * Read a CSV file emitting each record as an object keyed by the headers
+     *
+     * @param input Google Storage path or instance of File
+     * @param options delimiter, headers and optional class to create from each record
+     */
+    public readCsv<T extends object = { [key: string]: string }>(
+        input: File | IGsUri | string,
+        options?: ICsvOptions<T>,
+    ): Observable<T> {
+        return defer(() => from(this.iterateCsv<T>(input, options)));
+    }
+
     /**
      * Return meta and content of file from a given gs path
      *
      * @param input Google Storage path
+     * @param options decompression of gzip content
      */
-    public retrieve(input: string): Observable<IRetrieveResult> {
+    public retrieve(
+        input: string,
+        options?: IReadOptions,
+    ): Observable<IRetrieveResult> {
         const blob = this.getBlob(input);
         return forkJoin({
             gs: of(parseGsPath(input)),
             meta: from(this.meta(blob)),
-            buffer: this.read(blob),
+            buffer: this.read(blob, options),
         });
     }
 
+    /**
+     * Emit the sub directories and files of a directory as IGsUri.  Set
+     * `options.depth` to include the content of sub directories up to that level.
+     *
+     * @param input directory to list
+     * @param options depth of the listing.  Default to 1
+     */
+    public listDirectory(
+        input: IGsUri | string,
+        options?: IListDirectoryOptions,
+    ): Observable<IDirectoryListing> {
+        return defer(() => from(this.listDirectoryTree(input, options)));
+    }
+
+    /**
+     * Visit the directory tree depth first, emitting the sub directories
+     * and files of each directory before the content of its sub directories
+     *
+     * @param input directory to start from
+     * @param options depth of the traversal.  Default to unlimited
+     */
+    public walk(
+        input: IGsUri | string,
+        options?: IListDirectoryOptions,
+    ): Observable<IWalkEntry> {
+        return defer(() => from(this.walkDirectory(input, options)));
+    }
+
     /**
      * Return a list of files from a path excluding the directories
      *
@@ -170,12 +440,11 @@ export class BStoreRx extends AbstractBStore implements IBStoreRxJx {
         }
 
         // Filter the result from the path provided.
-        const options: GetFilesOptions = {};
-        if (gs.path) {
+        const { query: options, matcher } = createListQuery(gs);
+        if (options.prefix || options.matchGlob) {
             this.logger.debug(
-                `Setting BStore.getFiles option.prefix to ${gs.path}`,
+                `Setting BStore.getFiles option.prefix to ${options.prefix} and matchGlob to ${options.matchGlob}`,
             );
-            options.prefix = gs.path;
         }
 
         // .getFiles for some reason returns Files wraps in an array.  Need to return first result only
@@ -187,8 +456,11 @@ export class BStoreRx extends AbstractBStore implements IBStoreRxJx {
             stream.on('error', (err) => subscriber.error(err));
             stream.on('end', () => subscriber.complete());
             stream.on('data', (file) => {
-                // Filter out directories
-                if (!file.name.endsWith('/')) {
+                // Filter out directories and files not matching the glob
+                if (
+                    !file.name.endsWith('/') &&
+                    (matcher === undefined || matcher.test(file.name))
+                ) {
                     subscriber.next(file);
                 }
             });
@@ -196,59 +468,211 @@ export class BStoreRx extends AbstractBStore implements IBStoreRxJx {
     }
 
     /**
-     * Process all files return for a given path via an action callback
+     * List the files of a path page by page, emitting each file without
+     * loading the whole listing in memory.  The path can be a glob such as
+     * `gs://bucket/exports/**\/2024-*.csv`.
+     *
+     * @param input path or glob to list
+     * @param options page size, page token to resume from and offsets
+     */
+    public iterateFiles(
+        input: IGsUri | string,
+        options?: IListFilesOptions,
+    ): Observable<File> {
+        return defer(() => from(this.iterateFileList(input, options)));
+    }
+
+    /**
+     * Process all files return for a given path via an action callback,
+     * synchronous or async, with at most `options.concurrency` actions in
+     * progress.  Results are emitted as the actions complete.
      *
      * @param gspath path to get files from
      * @param action file processor
+     * @param options concurrency
      */
     public processFiles<T>(
         gspath: IGsUri | string,
-        action: (file: File) => T,
+        action: (file: File) => T | Promise<T>,
+        options: Pick<IProcessFilesOptions, 'concurrency'> = {},
     ): Observable<T> {
-        return this.getFiles(gspath).pipe(map((file) => action(file)));
+        return this.getFiles(gspath).pipe(
+            mergeMap(
+                (file) => defer(async () => action(file)),
+                options.concurrency ?? DEFAULT_CONCURRENCY,
+            ),
+        );
     }
 
-    public deleteFiles(gspath: IGsUri | string): Observable<never> {
-        let gs: IGsUri;
-        if (typeof gspath === 'string') {
-            gs = parseGsPath(gspath);
-        } else {
-            gs = gspath;
-        }
+    /**
+     * Copy a file to destination, possibly in a different bucket.  Metadata
+     * of the source is preserved unless overridden by options.
+     *
+     * @param source Google Storage path or instance of File
+     * @param destination Google Storage path or instance of File
+     * @param options metadata overrides
+     */
+    public copy(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Observable<File> {
+        return defer(() => from(this.copyBlob(source, destination, options)));
+    }
 
-        // Do not stop at the first error; try to delete what it can
-        const options: DeleteFilesOptions = {
-            force: true,
-        };
+    /**
+     * Move or rename a file to destination, possibly in a different bucket.
+     *
+     * @param source Google Storage path or instance of File
+     * @param destination Google Storage path or instance of File
+     * @param options metadata overrides
+     */
+    public move(
+        source: File | IGsUri | string,
+        destination: File | IGsUri | string,
+        options?: ICopyOptions,
+    ): Observable<File> {
+        return defer(() => from(this.moveBlob(source, destination, options)));
+    }
 
-        // Filter the result from the path provided.
-        if (gs.path) {
-            this.logger.debug(
-                `Setting BStore.deleteFiles option.prefix to ${gs.path}`,
-            );
-            options.prefix = gs.path;
-        } else {
-            throw new Error(
-                `A directory must be passed to BStore.deleteFiles [${generateGsPath(gs)}]`,
-            );
-        }
+    /**
+     * Copy all files under source prefix to destination prefix emitting
+     * a report of the succeeded and failed objects
+     *
+     * @param source prefix to copy from
+     * @param destination prefix to copy to
+     * @param options metadata overrides and concurrency
+     */
+    public copyPrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ICopyOptions,
+    ): Observable<ITransferReport> {
+        return defer(() =>
+            from(this.transferPrefix(source, destination, false, options)),
+        );
+    }
 
-        // .getFiles for somereason returns Files wraps in an array.  Need to return first result only
-        const bucket = this.getBucket(gs.bucket);
+    /**
+     * Move all files under source prefix to destination prefix emitting
+     * a report of the succeeded and failed objects
+     *
+     * @param source prefix to move from
+     * @param destination prefix to move to
+     * @param options metadata overrides and concurrency
+     */
+    public movePrefix(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ICopyOptions,
+    ): Observable<ITransferReport> {
+        return defer(() =>
+            from(this.transferPrefix(source, destination, true, options)),
+        );
+    }
 
-        return new Observable((subscriber) => {
-            bucket.deleteFiles(options, (err: Error | Error[] | null) => {
-                if (err instanceof Error) {
-                    subscriber.error(err);
-                } else if (isArray(err)) {
-                    // ToDo: Check if this actually works
-                    err.map((error) => subscriber.error(error));
-                } else {
-                    // send an entry entry then complete.  Without .next will raise an error
-                    subscriber.next(undefined as never);
-                    subscriber.complete();
-                }
-            });
+    /**
+     * Synchronize a local directory and a gs prefix in either direction,
+     * depending on which of source and destination is a gs path, emitting
+     * the report of the files transferred, skipped, deleted and failed.
+     *
+     * @param source local directory or gs prefix
+     * @param destination local directory or gs prefix
+     * @param options
+     */
+    public sync(
+        source: IGsUri | string,
+        destination: IGsUri | string,
+        options?: ISyncOptions,
+    ): Observable<ISyncReport> {
+        return defer(() => from(this.syncPrefix(source, destination, options)));
+    }
+
+    /**
+     * Delete all files under a prefix or matching a glob such as
+     * `gs://bucket/tmp/**\/*.log`, emitting the deleted objects and the
+     * failures.  Deleting from the root of a bucket must be confirmed with
+     * `options.confirmBucketRoot`.
+     *
+     * @param gspath prefix or glob of the files to delete
+     * @param options dry run, age filter and concurrency
+     */
+    public deleteFiles(
+        gspath: IGsUri | string,
+        options?: IDeleteFilesOptions,
+    ): Observable<IDeleteFilesReport> {
+        return defer(() => from(this.deleteFileList(gspath, options)));
+    }
+
+    /**
+     * Check if a local file or Buffer has the same content as the object
+     * using the size and checksums, without downloading the object.
+     * Return false if the object doesn't exist.
+     *
+     * @param local path of a local file or content
+     * @param gspath
+     */
+    public isSame(
+        local: string | Buffer,
+        gspath: File | IGsUri | string,
+    ): Observable<boolean> {
+        return defer(() => from(this.compareChecksum(local, gspath)));
+    }
+
+    /**
+     * Poll the objects of a path or glob every `options.interval`
+     * milliseconds, emitting the objects created, updated or deleted since
+     * the previous listing until unsubscribed.  With `options.checkpoint`,
+     * the snapshot is saved once the events of a listing are emitted so a
+     * restart does not replay them.
+     *
+     * @param gspath path or glob to watch
+     * @param options interval, event types and checkpoint
+     */
+    public watch(
+        gspath: IGsUri | string,
+        options: IWatchOptions = {},
+    ): Observable<IWatchEvent> {
+        return defer(() => {
+            const gs = this.toGsUri(gspath);
+            const interval = resolveWatchInterval(options);
+            let previous: TWatchSnapshot | undefined;
+
+            // Listings taking longer than interval skip the following ticks
+            const poll = () =>
+                from(this.pollSnapshot(gs, previous, options)).pipe(
+                    mergeMap((result) => {
+                        previous = result.snapshot;
+                        const save = result.changed
+                            ? defer(async () =>
+                                  options.checkpoint?.save(result.snapshot),
+                              ).pipe(ignoreElements())
+                            : EMPTY;
+                        return concat(from(result.events), save);
+                    }),
+                );
+
+            return defer(async () => options.checkpoint?.load()).pipe(
+                mergeMap((snapshot) => {
+                    previous = snapshot;
+                    return timer(0, interval);
+                }),
+                exhaustMap(poll),
+            );
         });
     }
+
+    /**
+     * List the objects of a path or glob once and emit the changes since
+     * the snapshot of `options.checkpoint`, then save the new snapshot.
+     *
+     * @param gspath path or glob to watch
+     * @param options event types and checkpoint
+     */
+    public pollChanges(
+        gspath: IGsUri | string,
+        options?: IWatchOptions,
+    ): Observable<IWatchEvent[]> {
+        return defer(() => from(this.pollCheckpoint(gspath, options)));
+    }
 }
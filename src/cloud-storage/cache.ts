@@ -0,0 +1,389 @@
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as nodePath from 'path';
+
+import { IGsObjectMetadata, toGsObjectMetadata } from './metadata';
+
+/**
+ * Default maximum number of bytes of content kept in memory by the read cache
+ */
+export const DEFAULT_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Default maximum size of an object kept by the read cache
+ */
+export const DEFAULT_CACHE_MAX_ENTRY_BYTES = 1024 * 1024;
+
+/**
+ * Options of the read cache of `BStore.read` and `BStore.retrieve` set with
+ * `IBStoreOptions.cache`
+ */
+export interface IReadCacheOptions {
+    /**
+     * maximum number of bytes of content kept in memory, the least recently
+     * read objects being evicted first.  Default to `DEFAULT_CACHE_MAX_BYTES`
+     */
+    maxBytes?: number;
+    /**
+     * objects larger than this number of bytes are never cached.  Default
+     * to `DEFAULT_CACHE_MAX_ENTRY_BYTES`
+     */
+    maxEntryBytes?: number;
+    /**
+     * number of milliseconds the live generation of an object is trusted
+     * without revalidation.  Default to 0, revalidating every read with a
+     * metadata-only request
+     */
+    ttl?: number;
+    /**
+     * local directory keeping a copy of the content cached, shared by the
+     * processes using the same directory and surviving restarts.  The
+     * directory is not pruned except by `BStore.clearCache`.
+     */
+    directory?: string;
+}
+
+/**
+ * Statistics of the read cache returned by `BStore.cacheStats`
+ */
+export interface IReadCacheStats {
+    /**
+     * reads served from the cache, in memory or on disk
+     */
+    hits: number;
+    /**
+     * reads that downloaded the content
+     */
+    misses: number;
+    /**
+     * metadata-only requests made to revalidate the content cached
+     */
+    revalidations: number;
+    /**
+     * objects evicted from memory to stay within `maxBytes`
+     */
+    evictions: number;
+    /**
+     * number of objects and bytes of content currently in memory
+     */
+    entries: number;
+    bytes: number;
+}
+
+/**
+ * Content of a generation of an object with its metadata
+ */
+export interface IReadCacheEntry {
+    buffer: Buffer;
+    meta: IGsObjectMetadata;
+}
+
+/**
+ * Access to an object used by `ReadCache.read` on a cache miss
+ */
+export interface IReadCacheSource {
+    /**
+     * return the metadata of the generation read, requested without content
+     */
+    getMetadata(): Promise<IGsObjectMetadata>;
+    /**
+     * return the content of the generation of meta
+     */
+    read(meta: IGsObjectMetadata): Promise<Buffer>;
+}
+
+/**
+ * Cache of the content of objects keyed by path, generation and variant such
+ * as the decompression option.  As the content of a generation never changes,
+ * only the generation of the live object needs to be revalidated, done once
+ * the ttl expired with a metadata-only request.
+ */
+export class ReadCache {
+    readonly #entries = new Map<string, IReadCacheEntry & { path: string }>();
+    /**
+     * live generation of each path with the time it was validated
+     */
+    readonly #validated = new Map<
+        string,
+        { generation: string; validatedAt: number }
+    >();
+    readonly #maxBytes: number;
+    readonly #maxEntryBytes: number;
+    readonly #ttl: number;
+    readonly #directory: string | undefined;
+    #bytes = 0;
+    #hits = 0;
+    #misses = 0;
+    #revalidations = 0;
+    #evictions = 0;
+
+    constructor(options: IReadCacheOptions = {}) {
+        this.#maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+        this.#maxEntryBytes = Math.min(
+            options.maxEntryBytes ?? DEFAULT_CACHE_MAX_ENTRY_BYTES,
+            this.#maxBytes,
+        );
+        this.#ttl = options.ttl ?? 0;
+        this.#directory = options.directory;
+    }
+
+    /**
+     * Return the content of path, from the cache if its generation is cached
+     * or from source otherwise.  The live generation is read when generation
+     * is undefined.
+     *
+     * @param path `gs://` path without generation
+     * @param generation generation to read, undefined for the live one
+     * @param variant options changing the content returned for a generation
+     * @param source
+     * @returns a copy of the content and metadata
+     */
+    async read(
+        path: string,
+        generation: string | undefined,
+        variant: string,
+        source: IReadCacheSource,
+    ): Promise<IReadCacheEntry> {
+        const now = Date.now();
+        const known = generation ?? this.freshGeneration(path, now);
+        if (known !== undefined) {
+            // Content of a known generation is read without revalidation
+            const key = createCacheKey(path, known, variant);
+            const entry = this.touch(key) ?? (await this.readFromDisk(key));
+            if (entry !== undefined) {
+                this.#hits++;
+                this.store(key, path, entry);
+                return copyEntry(entry);
+            }
+        }
+
+        const meta = await source.getMetadata();
+        this.#revalidations++;
+        const current = `${meta.generation}`;
+        if (generation === undefined) {
+            this.#validated.set(path, {
+                generation: current,
+                validatedAt: now,
+            });
+        }
+
+        const key = createCacheKey(path, current, variant);
+        const cached =
+            current === known
+                ? undefined
+                : (this.touch(key) ?? (await this.readFromDisk(key)));
+        if (cached !== undefined) {
+            this.#hits++;
+            const entry = { buffer: cached.buffer, meta };
+            this.store(key, path, entry);
+            return copyEntry(entry);
+        }
+
+        this.#misses++;
+        const entry = { buffer: await source.read(meta), meta };
+        if (entry.buffer.length <= this.#maxEntryBytes) {
+            this.store(key, path, entry);
+            await this.writeToDisk(key, entry);
+        }
+        return copyEntry(entry);
+    }
+
+    /**
+     * Forget the live generation of path so the next read revalidates it,
+     * used when the object is written or deleted through the same BStore
+     *
+     * @param path `gs://` path without generation
+     */
+    invalidate(path: string): void {
+        this.#validated.delete(path);
+    }
+
+    /**
+     * Remove all the content cached, in memory and on disk
+     */
+    async clear(): Promise<void> {
+        this.#entries.clear();
+        this.#validated.clear();
+        this.#bytes = 0;
+        if (this.#directory !== undefined) {
+            await fs.promises.rm(this.#directory, {
+                recursive: true,
+                force: true,
+            });
+        }
+    }
+
+    /**
+     * Return the statistics of the cache
+     *
+     * @returns
+     */
+    stats(): IReadCacheStats {
+        return {
+            hits: this.#hits,
+            misses: this.#misses,
+            revalidations: this.#revalidations,
+            evictions: this.#evictions,
+            entries: this.#entries.size,
+            bytes: this.#bytes,
+        };
+    }
+
+    /**
+     * Return the live generation of path if validated within the ttl
+     *
+     * @param path
+     * @param now
+     * @returns
+     */
+    protected freshGeneration(path: string, now: number): string | undefined {
+        const validated = this.#validated.get(path);
+        return validated !== undefined &&
+            now - validated.validatedAt < this.#ttl
+            ? validated.generation
+            : undefined;
+    }
+
+    /**
+     * Return the entry in memory, marking it as the most recently read
+     *
+     * @param key
+     * @returns
+     */
+    protected touch(key: string): IReadCacheEntry | undefined {
+        const entry = this.#entries.get(key);
+        if (entry !== undefined) {
+            this.#entries.delete(key);
+            this.#entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    /**
+     * Keep the entry in memory, evicting the least recently read entries
+     * beyond maxBytes
+     *
+     * @param key
+     * @param path
+     * @param entry
+     */
+    protected store(key: string, path: string, entry: IReadCacheEntry): void {
+        const previous = this.#entries.get(key);
+        if (previous !== undefined) {
+            this.#entries.delete(key);
+            this.#bytes -= previous.buffer.length;
+        }
+        this.#entries.set(key, { ...entry, path });
+        this.#bytes += entry.buffer.length;
+
+        for (const [oldest, evicted] of this.#entries) {
+            if (this.#bytes <= this.#maxBytes) {
+                break;
+            }
+            this.#entries.delete(oldest);
+            this.#bytes -= evicted.buffer.length;
+            this.#validated.delete(evicted.path);
+            this.#evictions++;
+        }
+    }
+
+    /**
+     * Return the content and metadata saved on disk, undefined if none
+     *
+     * @param key
+     * @returns
+     */
+    protected async readFromDisk(
+        key: string,
+    ): Promise<IReadCacheEntry | undefined> {
+        if (this.#directory === undefined) {
+            return undefined;
+        }
+        const path = this.diskPath(key);
+        try {
+            const buffer = await fs.promises.readFile(path);
+            const raw = await fs.promises.readFile(`${path}.json`, 'utf8');
+            return { buffer, meta: toGsObjectMetadata(JSON.parse(raw)) };
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Save the content and the metadata on disk, replacing the files
+     * atomically so concurrent readers never see a partial file
+     *
+     * @param key
+     * @param entry
+     */
+    protected async writeToDisk(
+        key: string,
+        entry: IReadCacheEntry,
+    ): Promise<void> {
+        if (this.#directory === undefined) {
+            return;
+        }
+        const path = this.diskPath(key);
+        await fs.promises.mkdir(this.#directory, { recursive: true });
+        await writeFileAtomic(`${path}.json`, JSON.stringify(entry.meta.raw));
+        await writeFileAtomic(path, entry.buffer);
+    }
+
+    /**
+     * Return the path of the file keeping the content of key
+     *
+     * @param key
+     * @returns
+     */
+    protected diskPath(key: string): string {
+        const hash = createHash('sha256').update(key).digest('hex');
+        return nodePath.join(this.#directory ?? '', hash);
+    }
+}
+
+/**
+ * Return the key of the content of a generation of path
+ *
+ * @param path
+ * @param generation
+ * @param variant
+ * @returns
+ */
+function createCacheKey(
+    path: string,
+    generation: string,
+    variant: string,
+): string {
+    return `${path}#${generation}|${variant}`;
+}
+
+/**
+ * Write a file through a temporary file renamed once complete
+ *
+ * @param path
+ * @param data
+ */
+async function writeFileAtomic(
+    path: string,
+    data: Buffer | string,
+): Promise<void> {
+    const tempPath = `${path}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, path);
+}
+
+/**
+ * Return a copy of the entry so callers never modify the content cached
+ *
+ * @param entry
+ * @returns
+ */
+function copyEntry(entry: IReadCacheEntry): IReadCacheEntry {
+    return {
+        buffer: Buffer.from(entry.buffer),
+        meta: structuredClone(entry.meta),
+    };
+}
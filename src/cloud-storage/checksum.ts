@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { Transform } from 'stream';
+import { CRC32C } from '@google-cloud/storage';
+
+import { ChecksumMismatchError } from '../core';
+
+/**
+ * Checksum algorithms supported by Google Cloud Storage
+ */
+export type TChecksumAlgorithm = 'md5' | 'crc32c';
+
+/**
+ * Base64 checksums in the format of the `crc32c` and `md5Hash` metadata
+ */
+export interface IChecksums {
+    crc32c: string;
+    md5: string;
+}
+
+/**
+ * Incremental checksum returning a base64 digest, the same format as
+ * the `md5Hash` and `crc32c` metadata of Google Cloud Storage
+ */
+export interface IChecksumHasher {
+    update(data: Buffer): void;
+    digest(): string;
+}
+
+/**
+ * Create an incremental hasher for the algorithm
+ *
+ * @param algorithm
+ * @returns
+ */
+export function createChecksumHasher(
+    algorithm: TChecksumAlgorithm,
+): IChecksumHasher {
+    if (algorithm === 'md5') {
+        const hash = createHash('md5');
+        return {
+            update: (data) => hash.update(data),
+            digest: () => hash.digest('base64'),
+        };
+    } else {
+        const crc32c = new CRC32C();
+        return {
+            update: (data) => crc32c.update(data),
+            digest: () => crc32c.toString(),
+        };
+    }
+}
+
+/**
+ * Compute the base64 checksum of a local file
+ *
+ * @param path
+ * @param algorithm
+ * @returns
+ */
+export async function computeFileChecksum(
+    path: string,
+    algorithm: TChecksumAlgorithm,
+): Promise<string> {
+    const hasher = createChecksumHasher(algorithm);
+    for await (const chunk of fs.createReadStream(path)) {
+        hasher.update(chunk as Buffer);
+    }
+    return hasher.digest();
+}
+
+/**
+ * Compute the CRC32C and MD5 checksums of a local file or a Buffer in the
+ * format of the `crc32c` and `md5Hash` metadata of Google Cloud Storage
+ *
+ * @param localPathOrBuffer path of a local file or content
+ * @returns
+ */
+export async function computeChecksum(
+    localPathOrBuffer: string | Buffer,
+): Promise<IChecksums> {
+    const crc32c = createChecksumHasher('crc32c');
+    const md5 = createChecksumHasher('md5');
+    const chunks: AsyncIterable<Buffer> | Buffer[] = Buffer.isBuffer(
+        localPathOrBuffer,
+    )
+        ? [localPathOrBuffer]
+        : fs.createReadStream(localPathOrBuffer);
+    for await (const chunk of chunks) {
+        crc32c.update(chunk);
+        md5.update(chunk);
+    }
+    return { crc32c: crc32c.digest(), md5: md5.digest() };
+}
+
+/**
+ * Parse the `x-goog-hash` header such as `crc32c=n03x6A==,md5=Ojk9c3dhfxgoKVVHYwFbHQ==`
+ *
+ * @param header
+ * @returns
+ */
+export function parseGoogHash(header: unknown): Partial<IChecksums> {
+    const result: Partial<IChecksums> = {};
+    const values = Array.isArray(header) ? header : [header];
+    for (const value of values) {
+        if (typeof value !== 'string') {
+            continue;
+        }
+        for (const pair of value.split(',')) {
+            const index = pair.indexOf('=');
+            const key = pair.substring(0, index).trim();
+            if (key === 'crc32c' || key === 'md5') {
+                result[key] = pair.substring(index + 1).trim();
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Compare the checksums computed with the expected ones, returning the
+ * error to raise upon mismatch.  Only the algorithms available in both are
+ * compared.
+ *
+ * @param path gs path of the object
+ * @param expected
+ * @param actual
+ * @returns
+ */
+export function verifyChecksums(
+    path: string,
+    expected: Partial<IChecksums>,
+    actual: Partial<IChecksums>,
+): ChecksumMismatchError | undefined {
+    for (const algorithm of ['crc32c', 'md5'] as const) {
+        const expectedValue = expected[algorithm];
+        const actualValue = actual[algorithm];
+        if (expectedValue && actualValue && expectedValue !== actualValue) {
+            return new ChecksumMismatchError(
+                path,
+                algorithm,
+                expectedValue,
+                actualValue,
+            );
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Create a pass through stream computing the checksums of the content
+ *
+ * @param algorithms
+ * @returns the stream and a function returning the checksums once ended
+ */
+export function createChecksumStream(
+    algorithms: TChecksumAlgorithm[] = ['crc32c', 'md5'],
+): { stream: Transform; digest: () => Partial<IChecksums> } {
+    const hashers = algorithms.map(
+        (algorithm) => [algorithm, createChecksumHasher(algorithm)] as const,
+    );
+    const stream = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            for (const [, hasher] of hashers) {
+                hasher.update(chunk);
+            }
+            callback(null, chunk);
+        },
+    });
+    const digest = () => {
+        const result: Partial<IChecksums> = {};
+        for (const [algorithm, hasher] of hashers) {
+            result[algorithm] = hasher.digest();
+        }
+        return result;
+    };
+    return { stream, digest };
+}
+
+/**
+ * Create a pass through stream verifying the content against the expected
+ * checksums, raising ChecksumMismatchError at the end upon mismatch.  The
+ * expected checksums are retrieved upon the first chunk; nothing is
+ * verified if undefined.
+ *
+ * @param path gs path of the object
+ * @param getExpected
+ * @returns
+ */
+export function createChecksumVerifier(
+    path: string,
+    getExpected: () => Partial<IChecksums> | undefined,
+): Transform {
+    let expected: Partial<IChecksums> | undefined;
+    let hashers: Array<[TChecksumAlgorithm, IChecksumHasher]> | undefined;
+
+    // Called upon first chunk or at the end for an empty content
+    const init = (): Array<[TChecksumAlgorithm, IChecksumHasher]> => {
+        if (hashers === undefined) {
+            expected = getExpected() ?? {};
+            hashers = (['crc32c', 'md5'] as const)
+                .filter((algorithm) => expected?.[algorithm])
+                .map((algorithm) => [
+                    algorithm,
+                    createChecksumHasher(algorithm),
+                ]);
+        }
+        return hashers;
+    };
+
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            for (const [, hasher] of init()) {
+                hasher.update(chunk);
+            }
+            callback(null, chunk);
+        },
+        flush(callback) {
+            const actual: Partial<IChecksums> = {};
+            for (const [algorithm, hasher] of init()) {
+                actual[algorithm] = hasher.digest();
+            }
+            callback(verifyChecksums(path, expected ?? {}, actual));
+        },
+    });
+}
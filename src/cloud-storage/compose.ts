@@ -0,0 +1,92 @@
+/**
+ * Maximum number of sources of a single compose request of Cloud Storage
+ */
+export const MAX_COMPOSE_SOURCES = 32;
+
+/**
+ * Default number of parts of `BStore.parallelUpload`
+ */
+export const DEFAULT_UPLOAD_PARTS = 8;
+
+/**
+ * Options for `BStore.compose`
+ */
+export interface IComposeOptions {
+    /**
+     * content type of the destination.  Default to the type inferred from
+     * the destination name by the Cloud Storage SDK
+     */
+    contentType?: string;
+    /**
+     * custom metadata to be set on the destination
+     */
+    metadata?: { [key: string]: string };
+    /**
+     * number of intermediate objects composed at the same time when there
+     * are more than 32 sources.  Default to `DEFAULT_CONCURRENCY`
+     */
+    concurrency?: number;
+}
+
+/**
+ * Options for `BStore.parallelUpload`
+ */
+export interface IParallelUploadOptions extends IComposeOptions {
+    /**
+     * number of parts uploaded at the same time then composed.  Default to
+     * `DEFAULT_UPLOAD_PARTS`; capped to the number of bytes of the file.
+     */
+    parts?: number;
+}
+
+/**
+ * Split the items into groups of at most size items
+ *
+ * @param items
+ * @param size
+ * @returns
+ */
+export function chunkItems<T>(items: T[], size: number): T[][] {
+    const result: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        result.push(items.slice(i, i + size));
+    }
+    return result;
+}
+
+/**
+ * Split a content of size bytes into parts of about the same size,
+ * returning the first and last byte of each part, inclusive
+ *
+ * @param size
+ * @param parts
+ * @returns
+ */
+export function splitIntoParts(
+    size: number,
+    parts: number,
+): Array<{ start: number; end: number }> {
+    const count = Math.max(1, Math.min(parts, size));
+    const partSize = Math.ceil(size / count);
+    const result: Array<{ start: number; end: number }> = [];
+    for (let start = 0; start < size; start += partSize) {
+        result.push({ start, end: Math.min(start + partSize, size) - 1 });
+    }
+    return result;
+}
+
+/**
+ * Name of a temporary object created next to the destination
+ *
+ * @param name name of the destination
+ * @param label identify the operation and the round
+ * @param index
+ * @returns
+ */
+export function createTempName(
+    name: string,
+    label: string,
+    index: number,
+): string {
+    return `${name}.${label}-${index}.tmp`;
+}
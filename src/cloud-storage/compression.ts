@@ -0,0 +1,107 @@
+import { Transform, TransformCallback } from 'stream';
+import { createGunzip, Gunzip } from 'zlib';
+
+/**
+ * First bytes of a gzip content
+ */
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+
+/**
+ * Check if the data starts with the gzip magic bytes
+ *
+ * @param data
+ * @returns
+ */
+export function isGzip(data: Buffer): boolean {
+    return (
+        data.length >= GZIP_MAGIC.length &&
+        data[0] === GZIP_MAGIC[0] &&
+        data[1] === GZIP_MAGIC[1]
+    );
+}
+
+/**
+ * Pass through stream gunzipping the content if `shouldDecompress` returns
+ * true for the first bytes received.  The gunzip output is paused while the
+ * readable side is full so the content never piles up in memory.
+ */
+class DecompressStream extends Transform {
+    #head: Buffer | undefined = Buffer.alloc(0);
+    #gunzip: Gunzip | undefined;
+
+    constructor(readonly shouldDecompress: (head: Buffer) => boolean) {
+        super();
+    }
+
+    override _transform(
+        chunk: Buffer,
+        _encoding: BufferEncoding,
+        callback: TransformCallback,
+    ): void {
+        if (this.#head !== undefined) {
+            const head = Buffer.concat([this.#head, chunk]);
+            if (head.length < GZIP_MAGIC.length) {
+                this.#head = head;
+                callback();
+                return;
+            }
+            chunk = head;
+            this.#head = undefined;
+            if (this.shouldDecompress(chunk)) {
+                this.#gunzip = this.createGunzip();
+            }
+        }
+
+        if (this.#gunzip) {
+            // Callback is delayed by gunzip while its output is paused
+            this.#gunzip.write(chunk, () => callback());
+        } else {
+            callback(null, chunk);
+        }
+    }
+
+    override _flush(callback: TransformCallback): void {
+        if (this.#gunzip) {
+            this.#gunzip.once('end', () => callback());
+            this.#gunzip.end();
+        } else {
+            callback(null, this.#head?.length ? this.#head : undefined);
+        }
+    }
+
+    override _read(size: number): void {
+        this.#gunzip?.resume();
+        super._read(size);
+    }
+
+    /**
+     * Create the gunzip stream pushing its output, paused when push
+     * returns false until the next `_read`
+     *
+     * @returns
+     */
+    protected createGunzip(): Gunzip {
+        const gunzip = createGunzip();
+        gunzip.on('data', (data: Buffer) => {
+            if (!this.push(data)) {
+                gunzip.pause();
+            }
+        });
+        gunzip.on('error', (err) => this.destroy(err));
+        return gunzip;
+    }
+}
+
+/**
+ * Create a pass through stream that gunzips the content if `shouldDecompress`
+ * returns true for the first bytes received.  Content shorter than the gzip
+ * magic bytes is never decompressed.
+ *
+ * @param shouldDecompress called once with at least the first 2 bytes
+ * @returns
+ */
+export function createDecompressStream(
+    shouldDecompress: (head: Buffer) => boolean,
+): Transform {
+    return new DecompressStream(shouldDecompress);
+}
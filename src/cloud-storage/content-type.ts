@@ -0,0 +1,308 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+
+/**
+ * Content type of an object by extension, lower case with the leading `.`
+ */
+export type TContentTypeMap = { [extname: string]: string };
+
+/**
+ * Content type of the objects without a more specific one, set by Cloud
+ * Storage when none is provided
+ */
+export const GENERIC_CONTENT_TYPE = 'application/octet-stream';
+
+/**
+ * Number of bytes read from the beginning of an object to detect its content
+ * type by `BStore.fixContentTypes`
+ */
+export const CONTENT_SNIFF_BYTES = 512;
+
+/**
+ * Content types inferred from the extension of the objects written.  Extend or
+ * override with `IBStoreOptions.contentTypes`.
+ */
+export const DEFAULT_CONTENT_TYPES: Readonly<TContentTypeMap> = Object.freeze({
+    '.avro': 'application/avro',
+    '.bz2': 'application/x-bzip2',
+    '.css': 'text/css',
+    '.csv': 'text/csv',
+    '.gif': 'image/gif',
+    '.gz': 'application/gzip',
+    '.htm': 'text/html',
+    '.html': 'text/html',
+    '.ico': 'image/x-icon',
+    '.jpeg': 'image/jpeg',
+    '.jpg': 'image/jpeg',
+    '.js': 'text/javascript',
+    '.json': 'application/json',
+    '.jsonl': 'application/x-ndjson',
+    '.md': 'text/markdown',
+    '.mjs': 'text/javascript',
+    '.mp3': 'audio/mpeg',
+    '.mp4': 'video/mp4',
+    '.ndjson': 'application/x-ndjson',
+    '.parquet': 'application/vnd.apache.parquet',
+    '.pdf': 'application/pdf',
+    '.png': 'image/png',
+    '.svg': 'image/svg+xml',
+    '.tar': 'application/x-tar',
+    '.tgz': 'application/gzip',
+    '.tsv': 'text/tab-separated-values',
+    '.txt': 'text/plain',
+    '.wasm': 'application/wasm',
+    '.wav': 'audio/wav',
+    '.webp': 'image/webp',
+    '.woff2': 'font/woff2',
+    '.xml': 'application/xml',
+    '.yaml': 'application/yaml',
+    '.yml': 'application/yaml',
+    '.zip': 'application/zip',
+});
+
+/**
+ * Options for `BStore.fixContentTypes`
+ */
+export interface IFixContentTypesOptions {
+    /**
+     * only report the objects that would be updated.  Default to false
+     */
+    dryRun?: boolean;
+    /**
+     * number of objects updated at the same time.  Default to `DEFAULT_CONCURRENCY`
+     */
+    concurrency?: number;
+}
+
+/**
+ * Content type set on an object by `BStore.fixContentTypes`
+ */
+export interface IContentTypeFix {
+    /**
+     * gs path of the object
+     */
+    path: string;
+    /**
+     * content type replaced, undefined if the object had none
+     */
+    previous?: string;
+    contentType: string;
+}
+
+/**
+ * Object that `BStore.fixContentTypes` failed to update
+ */
+export interface IContentTypeFailure {
+    /**
+     * gs path of the object
+     */
+    path: string;
+    error: Error;
+}
+
+/**
+ * Report of `BStore.fixContentTypes`.  On dry run, `fixed` lists the objects
+ * that would be updated.
+ */
+export interface IFixContentTypesReport {
+    dryRun: boolean;
+    fixed: IContentTypeFix[];
+    failed: IContentTypeFailure[];
+}
+
+/**
+ * Signature of a binary format: all parts must match
+ */
+interface IMagicNumber {
+    contentType: string;
+    parts: Array<{ offset: number; bytes: Buffer }>;
+}
+
+/**
+ * Create the signature of a format from its parts
+ *
+ * @param contentType
+ * @param parts offset and bytes, strings being latin1
+ * @returns
+ */
+function magic(
+    contentType: string,
+    ...parts: Array<[number, string | number[]]>
+): IMagicNumber {
+    return {
+        contentType,
+        parts: parts.map(([offset, bytes]) => ({
+            offset,
+            bytes:
+                typeof bytes === 'string'
+                    ? Buffer.from(bytes, 'latin1')
+                    : Buffer.from(bytes),
+        })),
+    };
+}
+
+const MAGIC_NUMBERS: IMagicNumber[] = [
+    magic('application/pdf', [0, '%PDF-']),
+    magic('image/png', [0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]),
+    magic('image/jpeg', [0, [0xff, 0xd8, 0xff]]),
+    magic('image/gif', [0, 'GIF87a']),
+    magic('image/gif', [0, 'GIF89a']),
+    magic('image/webp', [0, 'RIFF'], [8, 'WEBP']),
+    magic('application/zip', [0, [0x50, 0x4b, 0x03, 0x04]]),
+    magic('application/zip', [0, [0x50, 0x4b, 0x05, 0x06]]),
+    magic('application/gzip', [0, [0x1f, 0x8b]]),
+    magic('application/x-bzip2', [0, 'BZh']),
+    magic('application/vnd.apache.parquet', [0, 'PAR1']),
+    magic('application/avro', [0, [0x4f, 0x62, 0x6a, 0x01]]),
+    magic('application/wasm', [0, [0x00, 0x61, 0x73, 0x6d]]),
+    magic('application/x-tar', [257, 'ustar']),
+];
+
+/**
+ * Return the default content types extended with contentTypes, the keys
+ * being normalized to lower case with the leading `.`
+ *
+ * @param contentTypes
+ * @returns
+ */
+export function mergeContentTypes(
+    contentTypes: TContentTypeMap,
+): Readonly<TContentTypeMap> {
+    const result: TContentTypeMap = { ...DEFAULT_CONTENT_TYPES };
+    for (const [extname, contentType] of Object.entries(contentTypes)) {
+        const key = extname.toLowerCase();
+        result[key.startsWith('.') ? key : `.${key}`] = contentType;
+    }
+    return Object.freeze(result);
+}
+
+/**
+ * Return the content type of extname in contentTypes, undefined if unknown
+ *
+ * @param extname extension with the leading `.`, case insensitive
+ * @param contentTypes
+ * @returns
+ */
+export function lookupContentType(
+    extname: string,
+    contentTypes: Readonly<TContentTypeMap> = DEFAULT_CONTENT_TYPES,
+): string | undefined {
+    return extname ? contentTypes[extname.toLowerCase()] : undefined;
+}
+
+/**
+ * Detect the content type from the first bytes of the content: the magic
+ * number of common binary formats, then JSON, XML, HTML or plain text for
+ * UTF-8 content.  Return undefined if not recognized.
+ *
+ * @param head first bytes of the content
+ * @returns
+ */
+export function sniffContentType(head: Buffer): string | undefined {
+    const found = MAGIC_NUMBERS.find(({ parts }) =>
+        parts.every(({ offset, bytes }) =>
+            head.subarray(offset, offset + bytes.length).equals(bytes),
+        ),
+    );
+    if (found !== undefined) {
+        return found.contentType;
+    }
+    return sniffTextContentType(head);
+}
+
+/**
+ * Detect the content type of UTF-8 text, undefined if head is binary
+ *
+ * @param head
+ * @returns
+ */
+function sniffTextContentType(head: Buffer): string | undefined {
+    if (head.length === 0) {
+        return undefined;
+    }
+    let text: string;
+    try {
+        // A character cut at the end of head is not an error in stream mode
+        text = new TextDecoder('utf-8', { fatal: true }).decode(head, {
+            stream: true,
+        });
+    } catch (_err) {
+        return undefined;
+    }
+    if (/[\x00-\x08\x0e-\x1a\x1c-\x1f]/.test(text)) {
+        return undefined;
+    }
+
+    const start = text.replace(/^\uFEFF/, '').trimStart();
+    const lower = start.substring(0, 64).toLowerCase();
+    if (lower.startsWith('<?xml')) {
+        return 'application/xml';
+    }
+    if (lower.startsWith('<!doctype html') || lower.startsWith('<html')) {
+        return 'text/html';
+    }
+    if (start.startsWith('{') || start.startsWith('[')) {
+        try {
+            JSON.parse(start);
+            return 'application/json';
+        } catch (_err) {
+            // Truncated or not JSON
+        }
+    }
+    return 'text/plain';
+}
+
+/**
+ * Read the first chunk of source, returning it along with a stream emitting
+ * the whole content including the first chunk.  The head is empty if source
+ * has no content.
+ *
+ * @param source
+ * @returns
+ */
+export async function peekStream(
+    source: Readable,
+): Promise<{ head: Buffer; stream: Readable }> {
+    const iterator = source[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    const head: Buffer = first.done
+        ? Buffer.alloc(0)
+        : Buffer.from(first.value as Buffer | string);
+
+    async function* replay() {
+        if (first.done) {
+            return;
+        }
+        yield head;
+        for (;;) {
+            const next = await iterator.next();
+            if (next.done) {
+                return;
+            }
+            yield next.value as Buffer | string;
+        }
+    }
+
+    return { head, stream: Readable.from(replay(), { objectMode: false }) };
+}
+
+/**
+ * Read up to bytes from the beginning of a local file
+ *
+ * @param path
+ * @param bytes
+ * @returns
+ */
+export async function readFileHead(
+    path: string,
+    bytes: number,
+): Promise<Buffer> {
+    const handle = await fs.promises.open(path, 'r');
+    try {
+        const buffer = Buffer.alloc(bytes);
+        const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+        return buffer.subarray(0, bytesRead);
+    } finally {
+        await handle.close();
+    }
+}
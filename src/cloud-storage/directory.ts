@@ -0,0 +1,51 @@
+import { IGsUri } from './base';
+
+/**
+ * Options for `BStore.listDirectory` and `BStore.walk`
+ */
+export interface IListDirectoryOptions {
+    /**
+     * number of directory levels to list.  Default to 1 for `listDirectory`,
+     * only listing the immediate content, and unlimited for `walk`
+     */
+    depth?: number;
+}
+
+/**
+ * Sub directories and files found under a gs prefix.  Directories are
+ * IGsUri with a path ending with `/`.
+ */
+export interface IDirectoryListing {
+    directories: IGsUri[];
+    files: IGsUri[];
+}
+
+/**
+ * Entry returned by `BStore.walk` for each directory visited
+ */
+export interface IWalkEntry extends IDirectoryListing {
+    /**
+     * directory listed
+     */
+    directory: IGsUri;
+}
+
+/**
+ * Create the IGsUri of a directory, with the path ending with `/` as
+ * returned by `parseGsPath`
+ *
+ * @param bucket
+ * @param prefix path of the directory, empty for the root of the bucket
+ * @returns
+ */
+export function generateDirectoryUri(bucket: string, prefix: string): IGsUri {
+    const path = prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+    return {
+        basename: '',
+        bucket,
+        dirname: path.substring(0, path.length - 1),
+        extname: '',
+        filename: '',
+        path,
+    };
+}
@@ -0,0 +1,90 @@
+/**
+ * Characters that start a glob pattern in a gs path
+ */
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Check if the path contains a glob pattern
+ *
+ * @param path
+ * @returns
+ */
+export function isGlob(path: string): boolean {
+    return GLOB_CHARS.test(path);
+}
+
+/**
+ * Return the directories of the glob before the first pattern, to be used
+ * as prefix of the listing.  E.g. `exports/` for `exports/**\/2024-*.csv`
+ *
+ * @param glob
+ * @returns
+ */
+export function globPrefix(glob: string): string {
+    const index = glob.search(GLOB_CHARS);
+    if (index === -1) {
+        return glob;
+    }
+    return glob.substring(0, glob.lastIndexOf('/', index) + 1);
+}
+
+/**
+ * Convert a glob into a RegExp following the `matchGlob` syntax of Cloud
+ * Storage:
+ *
+ * - `*` matches any characters except `/`
+ * - `**` matches any characters including `/`; `**\/` also matches no directory
+ * - `?` matches a single character except `/`
+ * - `[abc]` and `[!abc]` match a single character in or not in the set
+ * - `{a,b}` matches any of the comma separated alternatives
+ *
+ * @param glob
+ * @returns
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    let inBraces = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                if (glob[i + 2] === '/') {
+                    pattern += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    pattern += '.*';
+                    i += 1;
+                }
+            } else {
+                pattern += '[^/]*';
+            }
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 2);
+            if (end === -1) {
+                pattern += '\\[';
+            } else {
+                let set = glob.substring(i + 1, end);
+                if (set.startsWith('!')) {
+                    set = `^${set.substring(1)}`;
+                }
+                pattern += `[${set.replace(/\\/g, '\\\\')}]`;
+                i = end;
+            }
+        } else if (char === '{') {
+            inBraces += 1;
+            pattern += '(?:';
+        } else if (char === '}' && inBraces > 0) {
+            inBraces -= 1;
+            pattern += ')';
+        } else if (char === ',' && inBraces > 0) {
+            pattern += '|';
+        } else {
+            pattern += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${pattern}$`);
+}
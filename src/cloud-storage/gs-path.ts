@@ -0,0 +1,331 @@
+import { File } from '@google-cloud/storage';
+import * as nodePath from 'path';
+
+import { GCUtilsError } from '../core';
+import { BSTORE_PROTOCOL, IGsUri, splitGsPath } from './base';
+import { isGlob } from './glob';
+
+/**
+ * Input accepted by `GsPath`
+ */
+export type TGsPathInput = GsPath | IGsUri | File | string;
+
+/**
+ * Immutable path of an object or a directory in Cloud Storage.  As it
+ * implements IGsUri, a GsPath is accepted wherever `IGsUri | string` is.
+ *
+ * Unlike `parseGsPath`, the path of a string is kept verbatim so names with
+ * spaces, `%` or `#` are not altered by URL parsing, except a trailing
+ * `#generation`.  Use `.encode` and `GsPath.decode` for the percent-encoded
+ * form.
+ *
+ * ```typescript
+ * const dir = new GsPath('gs://bucket/exports/');
+ * const file = dir.join('2024', 'report.csv'); // gs://bucket/exports/2024/report.csv
+ * file.withExtension('.json');                  // gs://bucket/exports/2024/report.json
+ * file.relativeTo(dir);                         // '2024/report.csv'
+ * ```
+ */
+export class GsPath implements IGsUri {
+    readonly bucket: string;
+    readonly path: string;
+    readonly dirname: string;
+    readonly filename: string;
+    readonly basename: string;
+    readonly extname: string;
+    declare readonly glob?: string;
+    declare readonly generation?: string;
+
+    /**
+     * @param input `gs://` path, File or any object with bucket and path
+     *   such as IGsUri
+     */
+    constructor(
+        input:
+            | Pick<IGsUri, 'bucket' | 'path' | 'glob' | 'generation'>
+            | File
+            | string,
+    ) {
+        let bucket: string;
+        let path: string;
+        let generation: string | undefined;
+        if (typeof input === 'string') {
+            ({ bucket, path, generation } = splitGsPathString(input));
+        } else if (input instanceof File) {
+            bucket = input.bucket.name;
+            path = input.name;
+            generation =
+                input.generation === undefined
+                    ? undefined
+                    : `${input.generation}`;
+        } else {
+            bucket = input.bucket;
+            path = input.glob ?? input.path;
+            generation = input.generation;
+        }
+        if (!bucket) {
+            throw new GCUtilsError(`Missing bucket for path ${path}`);
+        }
+        if (path.startsWith('/')) {
+            path = path.substring(1);
+        }
+
+        const gs = splitGsPath(bucket, path, isGlob(path) ? path : undefined);
+        this.bucket = gs.bucket;
+        this.path = gs.path;
+        this.dirname = gs.dirname;
+        this.filename = gs.filename;
+        this.basename = gs.basename;
+        this.extname = gs.extname;
+        if (gs.glob !== undefined) {
+            this.glob = gs.glob;
+        }
+        if (generation !== undefined) {
+            this.generation = generation;
+        }
+        Object.freeze(this);
+    }
+
+    /**
+     * Return the input as GsPath, creating one only if needed
+     *
+     * @param input
+     * @returns
+     */
+    static from(input: TGsPathInput): GsPath {
+        return input instanceof GsPath ? input : new GsPath(input);
+    }
+
+    /**
+     * Create a GsPath from a percent-encoded `gs://` path as returned by
+     * `.encode`
+     *
+     * @param encoded
+     * @returns
+     */
+    static decode(encoded: string): GsPath {
+        const { bucket, path, generation } = splitGsPathString(encoded);
+        try {
+            return new GsPath({
+                bucket,
+                path: path.split('/').map(decodeURIComponent).join('/'),
+                generation,
+            });
+        } catch (err) {
+            throw new GCUtilsError(`Invalid encoded gs path ${encoded}`, err);
+        }
+    }
+
+    /**
+     * True if the path is a directory, ending with `/`, or the bucket root
+     */
+    get isDirectory(): boolean {
+        return this.path === '' || this.path.endsWith('/');
+    }
+
+    /**
+     * Return the same path pinned to generation, or not pinned if undefined
+     *
+     * @param generation
+     * @returns
+     */
+    withGeneration(generation: string | number | undefined): GsPath {
+        return new GsPath({
+            bucket: this.bucket,
+            path: this.path,
+            generation: generation === undefined ? undefined : `${generation}`,
+        });
+    }
+
+    /**
+     * Return a new GsPath with the segments appended to the path.  Segments
+     * can contain `/` and `..` but the result cannot escape the bucket.  The
+     * result is a directory if the last segment ends with `/`.
+     *
+     * @param segments
+     * @returns
+     */
+    join(...segments: string[]): GsPath {
+        let path = nodePath.posix.join(this.path, ...segments);
+        if (path === '..' || path.startsWith('../')) {
+            throw new GCUtilsError(
+                `Joining ${segments.join(', ')} to ${this} escapes the bucket`,
+            );
+        }
+        if (path === '.' || path === './') {
+            path = '';
+        }
+        return this.withPath(path);
+    }
+
+    /**
+     * Return the directory containing this path, ending with `/`.  The parent
+     * of the bucket root is the bucket root.
+     *
+     * @returns
+     */
+    parent(): GsPath {
+        const path = this.path.endsWith('/')
+            ? this.path.substring(0, this.path.length - 1)
+            : this.path;
+        return this.withPath(path.substring(0, path.lastIndexOf('/') + 1));
+    }
+
+    /**
+     * Return the path relative to base, raising GCUtilsError if this path
+     * is not under base
+     *
+     * @param base
+     * @returns
+     */
+    relativeTo(base: TGsPathInput): string {
+        const from = GsPath.from(base);
+        if (!from.isPrefixOf(this)) {
+            throw new GCUtilsError(`${this} is not under ${from}`);
+        }
+        return this.path === from.path
+            ? ''
+            : this.path.substring(from.directoryPrefix().length);
+    }
+
+    /**
+     * Return a new GsPath with the extension replaced; pass an empty string
+     * to remove the extension.  The leading `.` is optional.
+     *
+     * @param extname
+     * @returns
+     */
+    withExtension(extname: string): GsPath {
+        const ext =
+            extname === '' || extname.startsWith('.') ? extname : `.${extname}`;
+        return this.withFilename(`${this.basename}${ext}`);
+    }
+
+    /**
+     * Return a new GsPath with the filename without extension replaced,
+     * keeping the extension
+     *
+     * @param basename
+     * @returns
+     */
+    withBasename(basename: string): GsPath {
+        return this.withFilename(`${basename}${this.extname}`);
+    }
+
+    /**
+     * True if other is this path or under this path in the same bucket.
+     * Only complete segments match: `gs://bucket/data` is a prefix of
+     * `gs://bucket/data/a.txt` but not of `gs://bucket/database.txt`.
+     *
+     * @param other
+     * @returns
+     */
+    isPrefixOf(other: TGsPathInput): boolean {
+        const target = GsPath.from(other);
+        return (
+            this.bucket === target.bucket &&
+            (this.path === target.path ||
+                target.path.startsWith(this.directoryPrefix()))
+        );
+    }
+
+    /**
+     * True if other is the same path and generation
+     *
+     * @param other
+     * @returns
+     */
+    equals(other: TGsPathInput): boolean {
+        const target = GsPath.from(other);
+        return (
+            this.bucket === target.bucket &&
+            this.path === target.path &&
+            this.generation === target.generation
+        );
+    }
+
+    /**
+     * Return the `gs://` path with each segment percent-encoded
+     *
+     * @returns
+     */
+    encode(): string {
+        const path = this.path.split('/').map(encodeURIComponent).join('/');
+        return `${BSTORE_PROTOCOL}//${this.bucket}/${path}${this.generationSuffix()}`;
+    }
+
+    /**
+     * Return the `gs://` path as is, followed by `#generation` if pinned
+     *
+     * @returns
+     */
+    toString(): string {
+        return `${BSTORE_PROTOCOL}//${this.bucket}/${this.path}${this.generationSuffix()}`;
+    }
+
+    /**
+     * Return `#generation` if pinned to a generation
+     *
+     * @returns
+     */
+    protected generationSuffix(): string {
+        return this.generation === undefined ? '' : `#${this.generation}`;
+    }
+
+    /**
+     * Path with a trailing `/` matching the objects under this path
+     *
+     * @returns
+     */
+    protected directoryPrefix(): string {
+        return this.isDirectory ? this.path : `${this.path}/`;
+    }
+
+    /**
+     * Return a new GsPath with the filename replaced, raising GCUtilsError
+     * for a directory or a filename containing `/`
+     *
+     * @param filename
+     * @returns
+     */
+    protected withFilename(filename: string): GsPath {
+        if (this.isDirectory) {
+            throw new GCUtilsError(`${this} is a directory without filename`);
+        }
+        if (!filename || filename.includes('/')) {
+            throw new GCUtilsError(`Invalid filename ${filename} for ${this}`);
+        }
+        return this.withPath(
+            this.dirname ? `${this.dirname}/${filename}` : filename,
+        );
+    }
+
+    /**
+     * Return a new GsPath in the same bucket
+     *
+     * @param path
+     * @returns
+     */
+    protected withPath(path: string): GsPath {
+        return new GsPath({ bucket: this.bucket, path });
+    }
+}
+
+/**
+ * Split a `gs://` path into bucket, path kept verbatim and generation of the
+ * `#generation` suffix
+ *
+ * @param gspath
+ * @returns
+ */
+function splitGsPathString(gspath: string): {
+    bucket: string;
+    path: string;
+    generation?: string;
+} {
+    const match = /^gs:\/\/([^/]+)(?:\/(.*?))?(?:#(\d+))?$/s.exec(gspath);
+    if (!match) {
+        throw new GCUtilsError(`Invalid gs path ${gspath}`);
+    }
+    return { bucket: match[1], path: match[2] ?? '', generation: match[3] };
+}
@@ -1,14 +1,102 @@
 export {
+    DEFAULT_CONCURRENCY,
     generateGsPath,
     generateGsUri,
     IBStoreOptions,
     IBStorePromise,
     IBStoreRxJx,
+    ICopyOptions,
+    IDeleteFailure,
+    IDeleteFilesOptions,
+    IDeleteFilesReport,
+    IDeleteOptions,
+    IGenerationResult,
     IGsUri,
+    IListFilesOptions,
+    IModifyOptions,
+    IProcessFilesFailure,
+    IProcessFilesOptions,
+    IProcessFilesReport,
+    IProcessFilesSuccess,
+    IReadOptions,
+    IReadRangeOptions,
     IRetrieveResult,
+    IServiceAccountKey,
+    ISignedPostPolicy,
+    ISignedPostPolicyOptions,
+    ISignedUrlOptions,
+    ITransferEntry,
+    ITransferFailure,
+    ITransferReport,
+    isPreconditionFailed,
+    IWriteOptions,
+    MAX_SIGNED_EXPIRES_IN,
     parseGsPath,
     TErrorCallback,
     TMetaData,
+    TModifyCallback,
+    TWriteData,
 } from './base';
+export {
+    IArchiveOptions,
+    IArchiveProgress,
+    IArchiveReport,
+    TArchiveFormat,
+} from './archive';
 export { BStore } from './bstore';
 export { BStoreRx } from './bstorex';
+export {
+    DEFAULT_CACHE_MAX_BYTES,
+    DEFAULT_CACHE_MAX_ENTRY_BYTES,
+    IReadCacheOptions,
+    IReadCacheStats,
+} from './cache';
+export { computeChecksum, IChecksums } from './checksum';
+export {
+    DEFAULT_UPLOAD_PARTS,
+    IComposeOptions,
+    IParallelUploadOptions,
+    MAX_COMPOSE_SOURCES,
+} from './compose';
+export {
+    DEFAULT_CONTENT_TYPES,
+    IContentTypeFailure,
+    IContentTypeFix,
+    IFixContentTypesOptions,
+    IFixContentTypesReport,
+    lookupContentType,
+    sniffContentType,
+    TContentTypeMap,
+} from './content-type';
+export {
+    IDirectoryListing,
+    IListDirectoryOptions,
+    IWalkEntry,
+} from './directory';
+export { GsPath, TGsPathInput } from './gs-path';
+export {
+    clearMemoryBackend,
+    FILE_BACKEND_PROTOCOL,
+    MEMORY_BACKEND_PROTOCOL,
+} from './local-store';
+export { IGsObjectMetadata, IMetadataPatch, TCustomMetadata } from './metadata';
+export { ICsvOptions } from './parsers';
+export { ISyncEntry, ISyncOptions, ISyncReport, TSyncCompare } from './sync';
+export {
+    DEFAULT_PROGRESS_INTERVAL,
+    IDownloadOptions,
+    ITransferOptions,
+    ITransferProgress,
+    IUploadOptions,
+    IUploadSession,
+} from './transfer';
+export { IObjectVersion, IPurgeVersionsOptions } from './versions';
+export {
+    createFileCheckpoint,
+    DEFAULT_WATCH_INTERVAL,
+    IWatchCheckpoint,
+    IWatchEvent,
+    IWatchOptions,
+    TWatchEventType,
+    TWatchSnapshot,
+} from './watch';
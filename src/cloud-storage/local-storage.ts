@@ -0,0 +1,742 @@
+import { IncomingHttpHeaders } from 'http';
+import { PassThrough, Readable, Writable } from 'stream';
+import { gunzipSync } from 'zlib';
+import {
+    ApiError,
+    Bucket,
+    BucketOptions,
+    CombineOptions,
+    CombineResponse,
+    CopyOptions,
+    CopyResponse,
+    CreateReadStreamOptions,
+    CreateWriteStreamOptions,
+    DeleteFileOptions,
+    File,
+    FileMetadata,
+    FileOptions,
+    GetFileMetadataOptions,
+    GetFilesOptions,
+    GetFilesResponse,
+    Storage,
+} from '@google-cloud/storage';
+
+import { GCUtilsError } from '../core';
+import { TMetaData } from './base';
+import { computeChecksum } from './checksum';
+import { globToRegExp } from './glob';
+import {
+    createLocalObjectStore,
+    DEFAULT_CONTENT_TYPE,
+    ILocalObject,
+    ILocalObjectStore,
+    nextGeneration,
+} from './local-store';
+
+/**
+ * Response of the api returned by the SDK along with the result of a
+ * request, inferred from `File.delete` as the SDK doesn't export its type
+ */
+type TApiResponse = File['delete'] extends {
+    (options?: DeleteFileOptions): Promise<[infer R]>;
+    (options: DeleteFileOptions, callback: never): void;
+    (callback: never): void;
+}
+    ? R
+    : never;
+
+/**
+ * Callback accepted by the SDK methods in place of returning a promise
+ */
+type TCallback = (err: Error | null, ...result: never[]) => void;
+
+/**
+ * Create the response of a successful request to the api
+ *
+ * @param body
+ * @returns
+ */
+function createApiResponse(body: object = {}): TApiResponse {
+    return {
+        statusCode: 200,
+        headers: {},
+        body,
+        request: Object.assign(new PassThrough(), {
+            agent: false as const,
+            headers: {},
+        }),
+    };
+}
+
+/**
+ * Create the error raised by the SDK methods not emulated by the local
+ * backends
+ *
+ * @param method
+ * @returns
+ */
+function createUnsupportedError(method: string): GCUtilsError {
+    return new GCUtilsError(
+        `${method} is not supported by the file:// and mem:// backends`,
+    );
+}
+
+/**
+ * Create an error with the http status code as raised by the SDK
+ *
+ * @param code
+ * @param message
+ * @returns
+ */
+function createApiError(code: number, message: string): ApiError {
+    const error = new ApiError(message);
+    error.code = code;
+    return error;
+}
+
+/**
+ * Call the callback with the result of the promise if provided and return
+ * the promise, supporting both styles of the SDK methods
+ *
+ * @param promise
+ * @param callback
+ * @returns
+ */
+function settle<T extends unknown[]>(
+    promise: Promise<T>,
+    callback: TCallback | undefined,
+): Promise<T> {
+    if (callback) {
+        const done = callback as unknown as (
+            err: Error | null,
+            ...result: T
+        ) => void;
+        promise.then(
+            (result) => done(null, ...result),
+            (err: Error) => callback(err),
+        );
+    }
+    return promise;
+}
+
+/**
+ * Separate the options from the callback of the arguments of a SDK method
+ *
+ * @param optionsOrCallback
+ * @param callback
+ * @returns
+ */
+function splitCallback<T extends object>(
+    optionsOrCallback: T | TCallback | undefined,
+    callback?: TCallback,
+): { options: T; callback: TCallback | undefined } {
+    if (typeof optionsOrCallback === 'function') {
+        return { options: {} as T, callback: optionsOrCallback };
+    }
+    return { options: optionsOrCallback ?? ({} as T), callback };
+}
+
+/**
+ * Return a copy of the metadata without the undefined and null values
+ *
+ * @param metadata
+ * @returns
+ */
+function compact(metadata: TMetaData): TMetaData {
+    const result: TMetaData = {};
+    for (const [key, value] of Object.entries(metadata)) {
+        if (value !== undefined && value !== null) {
+            result[key] = value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Apply a patch of metadata as Cloud Storage: fields set to null are
+ * removed and the custom metadata is merged with the existing one
+ *
+ * @param current
+ * @param patch
+ * @returns
+ */
+function mergeMetadata(current: TMetaData, patch: TMetaData): TMetaData {
+    const result: TMetaData = { ...current };
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === undefined) {
+            continue;
+        } else if (key === 'metadata' && value !== null) {
+            result.metadata = compact({
+                ...(current.metadata as TMetaData | undefined),
+                ...(value as TMetaData),
+            });
+        } else if (value === null) {
+            delete result[key];
+        } else {
+            result[key] = value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Storage emulating Google Cloud Storage with the objects of a `file://`
+ * or `mem://` backend.  Only the methods used by BStore are emulated; the
+ * others raise a GCUtilsError instead of calling Google Cloud.
+ */
+export class LocalStorage extends Storage {
+    readonly #buckets = new Map<string, LocalBucket>();
+
+    constructor(readonly store: ILocalObjectStore) {
+        super({ projectId: 'local' });
+    }
+
+    override bucket(name: string, options?: BucketOptions): Bucket {
+        let bucket = this.#buckets.get(name);
+        if (bucket === undefined) {
+            bucket = new LocalBucket(this, name, options);
+            this.#buckets.set(name, bucket);
+        }
+        return bucket;
+    }
+
+    /**
+     * Reject the requests to the api, made by the SDK methods not emulated
+     * of the storage, its buckets and files
+     *
+     * @param reqOpts
+     * @param callback
+     */
+    override request(
+        reqOpts: Parameters<Storage['request']>[0],
+        callback: Parameters<Storage['request']>[1],
+    ): void {
+        callback(createUnsupportedError(describeRequest(reqOpts)));
+    }
+
+    override requestStream(
+        reqOpts: Parameters<Storage['requestStream']>[0],
+    ): ReturnType<Storage['requestStream']> {
+        const stream = new PassThrough();
+        const error = createUnsupportedError(describeRequest(reqOpts));
+        process.nextTick(() => stream.destroy(error));
+        return Object.assign(stream, { agent: false as const, headers: {} });
+    }
+}
+
+/**
+ * Describe a request to the api for the error of the methods not emulated
+ *
+ * @param reqOpts
+ * @returns
+ */
+function describeRequest(reqOpts: Parameters<Storage['request']>[0]): string {
+    return `Request ${reqOpts.method ?? 'GET'} ${reqOpts.uri}`;
+}
+
+/**
+ * Bucket of LocalStorage
+ */
+export class LocalBucket extends Bucket {
+    constructor(
+        readonly localStorage: LocalStorage,
+        name: string,
+        options?: BucketOptions,
+    ) {
+        super(localStorage, name, options);
+        // Bucket assigns getFilesStream in its constructor, calling the
+        // original getFiles, so it cannot be overridden as a method
+        this.getFilesStream = (query: GetFilesOptions = {}) =>
+            Readable.from(this.iterateObjects(query));
+    }
+
+    get store(): ILocalObjectStore {
+        return this.localStorage.store;
+    }
+
+    override file(name: string, options?: FileOptions): File {
+        return new LocalFile(this, name, options);
+    }
+
+    /**
+     * Create a File with the metadata of an object
+     *
+     * @param metadata
+     * @param versions true to pin the File to the generation of the object
+     * @returns
+     */
+    protected toFile(metadata: TMetaData, versions = false): File {
+        const file = this.file(
+            `${metadata.name}`,
+            versions ? { generation: `${metadata.generation}` } : undefined,
+        );
+        file.metadata = metadata as FileMetadata;
+        return file;
+    }
+
+    override getFiles(
+        queryOrCallback?: GetFilesOptions | TCallback,
+        callback?: TCallback,
+    ): Promise<GetFilesResponse> {
+        const args = splitCallback(queryOrCallback, callback);
+        return settle(this.listObjects(args.options), args.callback);
+    }
+
+    override combine(
+        sources: string[] | File[],
+        destination: string | File,
+        optionsOrCallback?: CombineOptions | TCallback,
+        callback?: TCallback,
+    ): Promise<CombineResponse> {
+        const args = splitCallback(optionsOrCallback, callback);
+        return settle(this.combineObjects(sources, destination), args.callback);
+    }
+
+    override getSignedUrl(): never {
+        throw createUnsupportedError('Bucket.getSignedUrl');
+    }
+
+    /**
+     * Iterate over all objects of the query
+     *
+     * @param query
+     */
+    protected async *iterateObjects(
+        query: GetFilesOptions,
+    ): AsyncGenerator<File> {
+        const [files] = await this.listObjects({
+            ...query,
+            autoPaginate: true,
+        });
+        yield* files;
+    }
+
+    /**
+     * List the objects as `Bucket.getFiles`, supporting prefix, delimiter,
+     * glob, offsets and pagination.  The local backends only keep the live
+     * generation of the objects, as a bucket without versioning, so the
+     * `versions` option only pins the Files returned to their generation.
+     *
+     * @param query
+     * @returns
+     */
+    protected async listObjects(
+        query: GetFilesOptions,
+    ): Promise<GetFilesResponse> {
+        const prefix = query.prefix ?? '';
+        const matcher = query.matchGlob
+            ? globToRegExp(query.matchGlob)
+            : undefined;
+        const objects = (await this.store.list(this.name, prefix)).filter(
+            ({ name }) =>
+                (query.startOffset === undefined ||
+                    `${name}` >= query.startOffset) &&
+                (query.endOffset === undefined ||
+                    `${name}` < query.endOffset) &&
+                (query.pageToken === undefined ||
+                    `${name}` > query.pageToken) &&
+                (matcher === undefined || matcher.test(`${name}`)),
+        );
+
+        // Objects under a delimiter are returned as prefixes
+        const prefixes = new Set<string>();
+        let items = objects;
+        if (query.delimiter) {
+            const delimiter = query.delimiter;
+            items = objects.filter(({ name }) => {
+                const index = `${name}`.indexOf(delimiter, prefix.length);
+                if (index < 0) {
+                    return true;
+                }
+                prefixes.add(`${name}`.substring(0, index + delimiter.length));
+                return false;
+            });
+        }
+
+        let nextQuery: GetFilesOptions | null = null;
+        if (
+            query.autoPaginate === false &&
+            query.maxResults !== undefined &&
+            items.length > query.maxResults
+        ) {
+            items = items.slice(0, query.maxResults);
+            nextQuery = {
+                ...query,
+                pageToken: `${items[items.length - 1].name}`,
+            };
+        }
+        return [
+            items.map((metadata) => this.toFile(metadata, query.versions)),
+            nextQuery as GetFilesResponse[1],
+            { kind: 'storage#objects', prefixes: [...prefixes], items },
+        ];
+    }
+
+    /**
+     * Concatenate the sources into destination as `Bucket.combine`
+     *
+     * @param sources
+     * @param destination
+     * @returns
+     */
+    protected async combineObjects(
+        sources: string[] | File[],
+        destination: string | File,
+    ): Promise<CombineResponse> {
+        const chunks: Buffer[] = [];
+        for (const source of sources) {
+            const name = typeof source === 'string' ? source : source.name;
+            const object = await this.store.get(this.name, name);
+            if (object === undefined) {
+                throw createApiError(
+                    404,
+                    `No such object: ${this.name}/${name}`,
+                );
+            }
+            chunks.push(object.data);
+        }
+
+        const file =
+            typeof destination === 'string'
+                ? this.file(destination)
+                : destination;
+        const metadata = await (file as LocalFile).saveObject(
+            Buffer.concat(chunks),
+            {
+                contentType: file.metadata.contentType,
+                componentCount: sources.length,
+            },
+        );
+        // Composite objects have no MD5 hash
+        delete metadata.md5Hash;
+        await this.store.putMetadata(this.name, file.name, metadata);
+        file.metadata = metadata as FileMetadata;
+        return [file, metadata];
+    }
+}
+
+/**
+ * File of LocalStorage
+ */
+export class LocalFile extends File {
+    constructor(bucket: LocalBucket, name: string, options?: FileOptions) {
+        super(bucket, name, options);
+    }
+
+    get store(): ILocalObjectStore {
+        return (this.bucket as LocalBucket).store;
+    }
+
+    override getMetadata(
+        optionsOrCallback?: GetFileMetadataOptions | TCallback,
+        callback?: TCallback,
+    ): Promise<[FileMetadata, TApiResponse]> {
+        const args = splitCallback(optionsOrCallback, callback);
+        return settle(
+            this.load(false).then(
+                ({ metadata }): [FileMetadata, TApiResponse] => {
+                    this.metadata = metadata as FileMetadata;
+                    return [this.metadata, createApiResponse(metadata)];
+                },
+            ),
+            args.callback,
+        );
+    }
+
+    override setMetadata(
+        patch: FileMetadata,
+        optionsOrCallback?: object | TCallback,
+        callback?: TCallback,
+    ): Promise<[FileMetadata]> {
+        const args = splitCallback(optionsOrCallback, callback);
+        const update = async (): Promise<[FileMetadata]> => {
+            const { metadata: current } = await this.load(false);
+            const metadata = mergeMetadata(current, patch as TMetaData);
+            metadata.metageneration = `${Number(current.metageneration ?? 1) + 1}`;
+            metadata.updated = new Date().toISOString();
+            await this.store.putMetadata(this.bucket.name, this.name, metadata);
+            this.metadata = metadata as FileMetadata;
+            return [metadata as FileMetadata];
+        };
+        return settle(update(), args.callback);
+    }
+
+    override exists(
+        optionsOrCallback?: object | TCallback,
+        callback?: TCallback,
+    ): Promise<[boolean]> {
+        const args = splitCallback(optionsOrCallback, callback);
+        return settle(
+            this.load(false).then(
+                () => [true] as [boolean],
+                (err: ApiError) => {
+                    if (err.code === 404) {
+                        return [false] as [boolean];
+                    }
+                    throw err;
+                },
+            ),
+            args.callback,
+        );
+    }
+
+    override delete(
+        optionsOrCallback?:
+            | (DeleteFileOptions & { ifGenerationMatch?: number | string })
+            | TCallback,
+        callback?: TCallback,
+    ): Promise<[TApiResponse]> {
+        const args = splitCallback(optionsOrCallback, callback);
+        const remove = async (): Promise<[TApiResponse]> => {
+            // A File pinned to a generation only deletes that generation
+            const object = await this.load(false).catch((err: ApiError) => {
+                if (err.code === 404 && args.options.ignoreNotFound) {
+                    return undefined;
+                }
+                throw err;
+            });
+            if (object !== undefined) {
+                this.checkGeneration(
+                    object.metadata,
+                    args.options.ifGenerationMatch,
+                );
+                await this.store.remove(this.bucket.name, this.name);
+            }
+            return [createApiResponse()];
+        };
+        return settle(remove(), args.callback);
+    }
+
+    override copy(
+        destination: string | Bucket | File,
+        optionsOrCallback?: CopyOptions | TCallback,
+        callback?: TCallback,
+    ): Promise<CopyResponse> {
+        const args = splitCallback(optionsOrCallback, callback);
+        const copy = async (): Promise<CopyResponse> => {
+            const { data, metadata } = await this.load(true);
+            const file =
+                destination instanceof File
+                    ? destination
+                    : destination instanceof Bucket
+                      ? destination.file(this.name)
+                      : this.bucket.file(destination);
+
+            const options = args.options;
+            const result = await (file as LocalFile).saveObject(data, {
+                contentType: options.contentType ?? metadata.contentType,
+                contentEncoding: metadata.contentEncoding,
+                contentDisposition: metadata.contentDisposition,
+                contentLanguage: metadata.contentLanguage,
+                cacheControl: options.cacheControl ?? metadata.cacheControl,
+                metadata: options.metadata ?? metadata.metadata,
+            });
+            return [file, result];
+        };
+        return settle(copy(), args.callback);
+    }
+
+    override getSignedUrl(): never {
+        throw createUnsupportedError('File.getSignedUrl');
+    }
+
+    override generateSignedPostPolicyV2(): never {
+        throw createUnsupportedError('File.generateSignedPostPolicyV2');
+    }
+
+    override generateSignedPostPolicyV4(): never {
+        throw createUnsupportedError('File.generateSignedPostPolicyV4');
+    }
+
+    override createResumableUpload(): never {
+        throw createUnsupportedError('File.createResumableUpload');
+    }
+
+    override isPublic(): never {
+        throw createUnsupportedError('File.isPublic');
+    }
+
+    override createReadStream(options: CreateReadStreamOptions = {}): Readable {
+        const stream = new PassThrough();
+        this.load(true).then(
+            ({ data, metadata }) => {
+                const size = data.length;
+                const headers: IncomingHttpHeaders = {
+                    'x-goog-generation': `${metadata.generation}`,
+                    'x-goog-stored-content-encoding': `${metadata.contentEncoding ?? 'identity'}`,
+                    'x-goog-hash': [
+                        metadata.crc32c ? `crc32c=${metadata.crc32c}` : '',
+                        metadata.md5Hash ? `md5=${metadata.md5Hash}` : '',
+                    ]
+                        .filter((value) => value)
+                        .join(','),
+                };
+
+                let content = data;
+                if (options.start !== undefined || options.end !== undefined) {
+                    const start = options.start ?? 0;
+                    const end = Math.min(options.end ?? size - 1, size - 1);
+                    content = data.subarray(start, end + 1);
+                    headers['content-range'] = `bytes ${start}-${end}/${size}`;
+                } else if (metadata.contentEncoding === 'gzip') {
+                    if (options.decompress === false) {
+                        headers['content-encoding'] = 'gzip';
+                    } else {
+                        content = gunzipSync(data);
+                    }
+                }
+
+                this.metadata = metadata as FileMetadata;
+                stream.emit('response', { headers });
+                stream.end(content);
+            },
+            (err: Error) => stream.destroy(err),
+        );
+        return stream;
+    }
+
+    override createWriteStream(
+        options: CreateWriteStreamOptions = {},
+    ): Writable {
+        const chunks: Buffer[] = [];
+        return new Writable({
+            write(chunk: Buffer, _encoding, callback) {
+                chunks.push(Buffer.from(chunk));
+                callback();
+            },
+            // Object is saved before `finish` so metadata is set upon completion
+            final: (callback) => {
+                const metadata: TMetaData = { ...options.metadata };
+                if (options.contentType) {
+                    metadata.contentType = options.contentType;
+                }
+                this.saveObject(
+                    Buffer.concat(chunks),
+                    metadata,
+                    options.preconditionOpts?.ifGenerationMatch,
+                ).then(
+                    () => callback(),
+                    (err: Error) => callback(err),
+                );
+            },
+        });
+    }
+
+    /**
+     * Write the object with a new generation, keeping only the metadata
+     * provided as a new object of Cloud Storage
+     *
+     * @param data
+     * @param fields content type, custom metadata and other fields
+     * @param ifGenerationMatch
+     * @returns
+     */
+    async saveObject(
+        data: Buffer,
+        fields: TMetaData,
+        ifGenerationMatch?: number | string,
+    ): Promise<TMetaData> {
+        const current = await this.store.getMetadata(
+            this.bucket.name,
+            this.name,
+        );
+        if (ifGenerationMatch !== undefined) {
+            if (`${ifGenerationMatch}` === '0' ? current : !current) {
+                throw this.preconditionFailed();
+            }
+            this.checkGeneration(current ?? {}, ifGenerationMatch);
+        }
+
+        const checksums = await computeChecksum(data);
+        const now = new Date().toISOString();
+        const metadata = compact({
+            kind: 'storage#object',
+            bucket: this.bucket.name,
+            name: this.name,
+            contentType: DEFAULT_CONTENT_TYPE,
+            storageClass: 'STANDARD',
+            ...fields,
+            size: `${data.length}`,
+            generation: nextGeneration(),
+            metageneration: '1',
+            timeCreated: now,
+            updated: now,
+            md5Hash: checksums.md5,
+            crc32c: checksums.crc32c,
+            etag: checksums.md5,
+        });
+        await this.store.put(this.bucket.name, this.name, { data, metadata });
+        this.metadata = metadata as FileMetadata;
+        return metadata;
+    }
+
+    /**
+     * Return the object, raising a 404 error if it doesn't exist or if its
+     * generation is not the one of this File
+     *
+     * @param withData false to only load the metadata
+     * @returns
+     */
+    protected async load(withData: boolean): Promise<ILocalObject> {
+        const object = withData
+            ? await this.store.get(this.bucket.name, this.name)
+            : await this.store
+                  .getMetadata(this.bucket.name, this.name)
+                  .then((metadata) =>
+                      metadata === undefined
+                          ? undefined
+                          : { data: Buffer.alloc(0), metadata },
+                  );
+        if (
+            object === undefined ||
+            (this.generation !== undefined &&
+                `${this.generation}` !== `${object.metadata.generation}`)
+        ) {
+            throw this.notFound();
+        }
+        return object;
+    }
+
+    /**
+     * Raise a 412 error if the generation of the object doesn't match
+     *
+     * @param metadata
+     * @param ifGenerationMatch
+     */
+    protected checkGeneration(
+        metadata: TMetaData,
+        ifGenerationMatch: number | string | undefined,
+    ): void {
+        if (
+            ifGenerationMatch !== undefined &&
+            `${ifGenerationMatch}` !== '0' &&
+            `${metadata.generation}` !== `${ifGenerationMatch}`
+        ) {
+            throw this.preconditionFailed();
+        }
+    }
+
+    protected notFound(): ApiError {
+        return createApiError(
+            404,
+            `No such object: ${this.bucket.name}/${this.name}`,
+        );
+    }
+
+    protected preconditionFailed(): ApiError {
+        return createApiError(
+            412,
+            'At least one of the pre-conditions you specified did not hold.',
+        );
+    }
+}
+
+/**
+ * Create a LocalStorage for a `file://` or `mem://` backend
+ *
+ * @param backend
+ * @returns
+ */
+export function createLocalStorage(backend: string): LocalStorage {
+    return new LocalStorage(createLocalObjectStore(backend));
+}
@@ -0,0 +1,456 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+
+import { GCUtilsError } from '../core';
+import { TMetaData } from './base';
+import { computeChecksum, IChecksums } from './checksum';
+
+/**
+ * Protocol of the backend keeping the objects in memory
+ */
+export const MEMORY_BACKEND_PROTOCOL = 'mem://';
+
+/**
+ * Protocol of the backend keeping the objects in a local directory
+ */
+export const FILE_BACKEND_PROTOCOL = 'file://';
+
+/**
+ * Content type of the objects written without one
+ */
+export const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+
+/**
+ * Directory of the file backend holding the metadata of the objects.  Bucket
+ * names cannot start with a dot so it never clashes with a bucket.
+ */
+const METADATA_DIR = '.gcutils-metadata';
+
+/**
+ * Content and metadata of an object kept by a local backend
+ */
+export interface ILocalObject {
+    data: Buffer;
+    /**
+     * metadata in the format returned by the Cloud Storage api
+     */
+    metadata: TMetaData;
+}
+
+/**
+ * Storage of the objects of the `file://` and `mem://` backends
+ */
+export interface ILocalObjectStore {
+    /**
+     * return the object or undefined if it doesn't exist
+     */
+    get(bucket: string, name: string): Promise<ILocalObject | undefined>;
+    /**
+     * return the metadata of the object or undefined if it doesn't exist
+     */
+    getMetadata(bucket: string, name: string): Promise<TMetaData | undefined>;
+    put(bucket: string, name: string, object: ILocalObject): Promise<void>;
+    /**
+     * replace the metadata of an existing object
+     */
+    putMetadata(
+        bucket: string,
+        name: string,
+        metadata: TMetaData,
+    ): Promise<void>;
+    /**
+     * delete the object, returning false if it doesn't exist
+     */
+    remove(bucket: string, name: string): Promise<boolean>;
+    /**
+     * return the metadata of the objects with name starting with prefix,
+     * ordered by name
+     */
+    list(bucket: string, prefix: string): Promise<TMetaData[]>;
+}
+
+let lastGeneration = 0;
+
+/**
+ * Return a new generation, in microseconds as Cloud Storage, always greater
+ * than the previous one
+ *
+ * @returns
+ */
+export function nextGeneration(): string {
+    lastGeneration = Math.max(Date.now() * 1000, lastGeneration + 1);
+    return `${lastGeneration}`;
+}
+
+/**
+ * Objects kept in memory, copying the metadata in and out so callers never
+ * share an instance with the store
+ */
+export class MemoryObjectStore implements ILocalObjectStore {
+    readonly #buckets = new Map<string, Map<string, ILocalObject>>();
+
+    async get(bucket: string, name: string): Promise<ILocalObject | undefined> {
+        const object = this.#buckets.get(bucket)?.get(name);
+        return object === undefined
+            ? undefined
+            : { data: object.data, metadata: structuredClone(object.metadata) };
+    }
+
+    async getMetadata(
+        bucket: string,
+        name: string,
+    ): Promise<TMetaData | undefined> {
+        return (await this.get(bucket, name))?.metadata;
+    }
+
+    async put(
+        bucket: string,
+        name: string,
+        object: ILocalObject,
+    ): Promise<void> {
+        let objects = this.#buckets.get(bucket);
+        if (objects === undefined) {
+            objects = new Map();
+            this.#buckets.set(bucket, objects);
+        }
+        objects.set(name, {
+            data: object.data,
+            metadata: structuredClone(object.metadata),
+        });
+    }
+
+    async putMetadata(
+        bucket: string,
+        name: string,
+        metadata: TMetaData,
+    ): Promise<void> {
+        const object = this.#buckets.get(bucket)?.get(name);
+        if (object !== undefined) {
+            object.metadata = structuredClone(metadata);
+        }
+    }
+
+    async remove(bucket: string, name: string): Promise<boolean> {
+        return this.#buckets.get(bucket)?.delete(name) ?? false;
+    }
+
+    async list(bucket: string, prefix: string): Promise<TMetaData[]> {
+        const objects = this.#buckets.get(bucket);
+        if (objects === undefined) {
+            return [];
+        }
+        return [...objects.entries()]
+            .filter(([name]) => name.startsWith(prefix))
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([, object]) => structuredClone(object.metadata));
+    }
+
+    /**
+     * Remove all objects of all buckets
+     */
+    clear(): void {
+        this.#buckets.clear();
+    }
+}
+
+/**
+ * Objects kept as files under a root directory where each bucket is a sub
+ * directory.  The metadata is saved next to the content in a separate tree;
+ * files added without metadata are served with metadata derived from the file.
+ * Directory placeholders, objects with name ending with `/`, are directories
+ * with metadata.
+ */
+export class FileObjectStore implements ILocalObjectStore {
+    /**
+     * Checksums of the files added without metadata by path, valid while the
+     * size and modification time of the file are unchanged
+     */
+    readonly #checksums = new Map<
+        string,
+        { size: number; mtimeMs: number; checksums: IChecksums }
+    >();
+
+    constructor(readonly root: string) {}
+
+    async get(bucket: string, name: string): Promise<ILocalObject | undefined> {
+        const metadata = await this.getMetadata(bucket, name);
+        if (metadata === undefined) {
+            return undefined;
+        }
+        const data = name.endsWith('/')
+            ? Buffer.alloc(0)
+            : await fs.promises.readFile(this.dataPath(bucket, name));
+        return { data, metadata };
+    }
+
+    async getMetadata(
+        bucket: string,
+        name: string,
+    ): Promise<TMetaData | undefined> {
+        const dataPath = this.dataPath(bucket, name);
+        const stats = await statOrUndefined(dataPath);
+        if (stats === undefined || stats.isDirectory() !== name.endsWith('/')) {
+            return undefined;
+        }
+
+        const text = await fs.promises
+            .readFile(this.metadataPath(bucket, name), 'utf8')
+            .catch(ignoreNotFound);
+        if (text !== undefined) {
+            try {
+                return JSON.parse(text) as TMetaData;
+            } catch (err) {
+                throw new GCUtilsError(
+                    `Invalid metadata of ${bucket}/${name} in ${this.root}`,
+                    err,
+                );
+            }
+        }
+        if (stats.isDirectory()) {
+            return undefined;
+        }
+
+        // File added without metadata
+        const checksums = await this.fileChecksums(dataPath, stats);
+        return {
+            kind: 'storage#object',
+            bucket,
+            name,
+            size: `${stats.size}`,
+            generation: `${Math.floor(stats.mtimeMs * 1000)}`,
+            metageneration: '1',
+            contentType: DEFAULT_CONTENT_TYPE,
+            storageClass: 'STANDARD',
+            timeCreated: stats.birthtime.toISOString(),
+            updated: stats.mtime.toISOString(),
+            md5Hash: checksums.md5,
+            crc32c: checksums.crc32c,
+            etag: checksums.md5,
+        };
+    }
+
+    async put(
+        bucket: string,
+        name: string,
+        object: ILocalObject,
+    ): Promise<void> {
+        const dataPath = this.dataPath(bucket, name);
+        if (name.endsWith('/')) {
+            await fs.promises.mkdir(dataPath, { recursive: true });
+        } else {
+            await writeAtomically(dataPath, object.data);
+        }
+        await this.putMetadata(bucket, name, object.metadata);
+    }
+
+    async putMetadata(
+        bucket: string,
+        name: string,
+        metadata: TMetaData,
+    ): Promise<void> {
+        await writeAtomically(
+            this.metadataPath(bucket, name),
+            Buffer.from(JSON.stringify(metadata)),
+        );
+    }
+
+    async remove(bucket: string, name: string): Promise<boolean> {
+        const exists = (await this.getMetadata(bucket, name)) !== undefined;
+        if (!name.endsWith('/')) {
+            await fs.promises
+                .unlink(this.dataPath(bucket, name))
+                .catch(ignoreNotFound);
+        }
+        await fs.promises
+            .unlink(this.metadataPath(bucket, name))
+            .catch(ignoreNotFound);
+        return exists;
+    }
+
+    async list(bucket: string, prefix: string): Promise<TMetaData[]> {
+        const names = new Set<string>();
+        const bucketDir = this.dataPath(bucket, '');
+        const entries = await fs.promises
+            .readdir(bucketDir, { recursive: true, withFileTypes: true })
+            .catch(ignoreNotFound);
+        for (const entry of entries ?? []) {
+            const relative = nodePath
+                .relative(
+                    bucketDir,
+                    nodePath.join(entry.parentPath, entry.name),
+                )
+                .split(nodePath.sep)
+                .join('/');
+            names.add(entry.isDirectory() ? `${relative}/` : relative);
+        }
+
+        const result: TMetaData[] = [];
+        for (const name of [...names].sort()) {
+            if (!name.startsWith(prefix)) {
+                continue;
+            }
+            const metadata = await this.getMetadata(bucket, name);
+            if (metadata !== undefined) {
+                result.push(metadata);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Return the checksums of a file added without metadata, computed again
+     * only when the file changed
+     *
+     * @param dataPath
+     * @param stats
+     * @returns
+     */
+    protected async fileChecksums(
+        dataPath: string,
+        stats: fs.Stats,
+    ): Promise<IChecksums> {
+        const cached = this.#checksums.get(dataPath);
+        if (
+            cached !== undefined &&
+            cached.size === stats.size &&
+            cached.mtimeMs === stats.mtimeMs
+        ) {
+            return cached.checksums;
+        }
+        const checksums = await computeChecksum(dataPath);
+        this.#checksums.set(dataPath, {
+            size: stats.size,
+            mtimeMs: stats.mtimeMs,
+            checksums,
+        });
+        return checksums;
+    }
+
+    /**
+     * Path of the content of an object, rejecting names escaping the bucket
+     *
+     * @param bucket
+     * @param name
+     * @returns
+     */
+    protected dataPath(bucket: string, name: string): string {
+        return this.resolvePath(nodePath.join(this.root, bucket), name);
+    }
+
+    /**
+     * Path of the metadata of an object
+     *
+     * @param bucket
+     * @param name
+     * @returns
+     */
+    protected metadataPath(bucket: string, name: string): string {
+        return this.resolvePath(
+            nodePath.join(this.root, METADATA_DIR, bucket),
+            `${name}.json`,
+        );
+    }
+
+    /**
+     * Resolve name under dir, raising GCUtilsError if it resolves outside
+     *
+     * @param dir
+     * @param name
+     * @returns
+     */
+    protected resolvePath(dir: string, name: string): string {
+        const base = nodePath.resolve(dir);
+        const result = nodePath.resolve(base, name);
+        if (result !== base && !result.startsWith(base + nodePath.sep)) {
+            throw new GCUtilsError(
+                `Object name ${name} is not supported by the file backend`,
+            );
+        }
+        return result;
+    }
+}
+
+/**
+ * Stores of the `mem://` backends by name so instances created with the
+ * same backend share the objects
+ */
+const memoryStores = new Map<string, MemoryObjectStore>();
+
+/**
+ * Return the store of a `file://` or `mem://` backend.  `file://` is followed
+ * by the directory holding the buckets, absolute or relative to the current
+ * directory, and `mem://` by an optional name.
+ *
+ * @param backend such as `file:///var/data/buckets` or `mem://test`
+ * @returns
+ */
+export function createLocalObjectStore(backend: string): ILocalObjectStore {
+    if (backend.startsWith(MEMORY_BACKEND_PROTOCOL)) {
+        const name = backend.substring(MEMORY_BACKEND_PROTOCOL.length);
+        let store = memoryStores.get(name);
+        if (store === undefined) {
+            store = new MemoryObjectStore();
+            memoryStores.set(name, store);
+        }
+        return store;
+    }
+    if (backend.startsWith(FILE_BACKEND_PROTOCOL)) {
+        const root = backend.substring(FILE_BACKEND_PROTOCOL.length);
+        if (!root) {
+            throw new GCUtilsError(`Missing directory in backend ${backend}`);
+        }
+        return new FileObjectStore(nodePath.resolve(root));
+    }
+    throw new GCUtilsError(`Unsupported storage backend ${backend}`);
+}
+
+/**
+ * Remove all objects of a `mem://` backend, typically between tests
+ *
+ * @param backend
+ */
+export function clearMemoryBackend(backend = MEMORY_BACKEND_PROTOCOL): void {
+    if (!backend.startsWith(MEMORY_BACKEND_PROTOCOL)) {
+        throw new GCUtilsError(`${backend} is not a memory backend`);
+    }
+    memoryStores
+        .get(backend.substring(MEMORY_BACKEND_PROTOCOL.length))
+        ?.clear();
+}
+
+/**
+ * Return the stats of path or undefined if it doesn't exist
+ *
+ * @param path
+ * @returns
+ */
+async function statOrUndefined(path: string): Promise<fs.Stats | undefined> {
+    return fs.promises.stat(path).catch(ignoreNotFound);
+}
+
+/**
+ * Rethrow the error unless it's a missing file or directory
+ *
+ * @param err
+ * @returns
+ */
+function ignoreNotFound(err: unknown): undefined {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ENOTDIR') {
+        return undefined;
+    }
+    throw err;
+}
+
+/**
+ * Write the data to a temporary file renamed to path once written
+ *
+ * @param path
+ * @param data
+ */
+async function writeAtomically(path: string, data: Buffer): Promise<void> {
+    await fs.promises.mkdir(nodePath.dirname(path), { recursive: true });
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, path);
+}
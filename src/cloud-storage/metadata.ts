@@ -0,0 +1,131 @@
+import { convertToDate } from '../core';
+import { TMetaData } from './base';
+
+/**
+ * Custom metadata of an object
+ */
+export type TCustomMetadata = { [key: string]: string };
+
+/**
+ * Typed metadata of an object
+ */
+export interface IGsObjectMetadata {
+    bucket: string;
+    name: string;
+    /**
+     * size in bytes of the stored content
+     */
+    size: number;
+    contentType?: string;
+    contentEncoding?: string;
+    contentDisposition?: string;
+    contentLanguage?: string;
+    cacheControl?: string;
+    storageClass?: string;
+    generation?: string;
+    metageneration?: string;
+    etag?: string;
+    /**
+     * base64 MD5 hash, not available for composite objects
+     */
+    md5Hash?: string;
+    /**
+     * base64 CRC32C checksum
+     */
+    crc32c?: string;
+    timeCreated?: Date;
+    updated?: Date;
+    customTime?: Date;
+    /**
+     * custom metadata of the object, empty if none
+     */
+    metadata: TCustomMetadata;
+    /**
+     * metadata as returned by the Cloud Storage SDK
+     */
+    raw: TMetaData;
+}
+
+/**
+ * Update of the metadata of an object by `BStore.setMetadata`.  Only the
+ * fields provided are changed.
+ */
+export interface IMetadataPatch {
+    contentType?: string | null;
+    contentEncoding?: string | null;
+    contentDisposition?: string | null;
+    contentLanguage?: string | null;
+    cacheControl?: string | null;
+    customTime?: Date | string;
+    /**
+     * custom metadata merged with the existing one; a `null` value removes the key
+     */
+    metadata?: { [key: string]: string | null };
+}
+
+/**
+ * Return the value as string or undefined if not set
+ *
+ * @param value
+ * @returns
+ */
+function optionalString(value: unknown): string | undefined {
+    return value === undefined || value === null ? undefined : `${value}`;
+}
+
+/**
+ * Convert the metadata returned by the Cloud Storage SDK into IGsObjectMetadata
+ *
+ * @param raw
+ * @returns
+ */
+export function toGsObjectMetadata(raw: TMetaData): IGsObjectMetadata {
+    const metadata: TCustomMetadata = {};
+    const custom = raw.metadata;
+    if (custom !== null && typeof custom === 'object') {
+        for (const [key, value] of Object.entries(custom)) {
+            if (value !== null && value !== undefined) {
+                metadata[key] = `${value}`;
+            }
+        }
+    }
+
+    return {
+        bucket: `${raw.bucket ?? ''}`,
+        name: `${raw.name ?? ''}`,
+        size: Number(raw.size ?? 0),
+        contentType: optionalString(raw.contentType),
+        contentEncoding: optionalString(raw.contentEncoding),
+        contentDisposition: optionalString(raw.contentDisposition),
+        contentLanguage: optionalString(raw.contentLanguage),
+        cacheControl: optionalString(raw.cacheControl),
+        storageClass: optionalString(raw.storageClass),
+        generation: optionalString(raw.generation),
+        metageneration: optionalString(raw.metageneration),
+        etag: optionalString(raw.etag),
+        md5Hash: optionalString(raw.md5Hash),
+        crc32c: optionalString(raw.crc32c),
+        timeCreated: convertToDate(raw.timeCreated),
+        updated: convertToDate(raw.updated),
+        customTime: convertToDate(raw.customTime),
+        metadata,
+        raw,
+    };
+}
+
+/**
+ * Convert IMetadataPatch into the metadata accepted by `File.setMetadata`
+ *
+ * @param patch
+ * @returns
+ */
+export function toMetadataRequest(patch: IMetadataPatch): TMetaData {
+    const result: TMetaData = {};
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === undefined) {
+            continue;
+        }
+        result[key] = value instanceof Date ? value.toISOString() : value;
+    }
+    return result;
+}
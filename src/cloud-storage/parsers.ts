@@ -0,0 +1,167 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Options for `BStore.readCsv`
+ */
+export interface ICsvOptions<T extends object> {
+    /**
+     * field delimiter.  Default to `,`
+     */
+    delimiter?: string;
+    /**
+     * quote character.  Default to `"`
+     */
+    quote?: string;
+    /**
+     * name of the columns.  If provided, the first row is considered as data
+     * instead of header.
+     */
+    headers?: string[];
+    /**
+     * rename a header read from the first row or passed in `headers`
+     */
+    mapHeader?: (header: string, index: number) => string;
+    /**
+     * skip the empty lines.  Default to true
+     */
+    skipEmptyLines?: boolean;
+    /**
+     * optional class to create from each record
+     */
+    type?: { new (): T };
+}
+
+/**
+ * Split a source of chunks into lines, supporting both `\n` and `\r\n`
+ * line endings.  Chunks are decoded as utf8 taking care of multi-byte
+ * characters split between chunks.
+ *
+ * @param source
+ */
+export async function* splitLines(
+    source: AsyncIterable<Buffer | string>,
+): AsyncGenerator<string> {
+    const decoder = new StringDecoder('utf8');
+    let remainder = '';
+
+    for await (const chunk of source) {
+        remainder += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+        const lines = remainder.split('\n');
+        remainder = lines.pop() ?? '';
+        for (const line of lines) {
+            yield stripCarriageReturn(line);
+        }
+    }
+
+    remainder += decoder.end();
+    if (remainder.length) {
+        yield stripCarriageReturn(remainder);
+    }
+}
+
+/**
+ * Parse a source of chunks as CSV records, supporting quoted fields with
+ * escaped quote, delimiter and line breaks.
+ *
+ * @param source
+ * @param options only `delimiter`, `quote` and `skipEmptyLines` are used
+ */
+export async function* parseCsv(
+    source: AsyncIterable<Buffer | string>,
+    options: Pick<
+        ICsvOptions<object>,
+        'delimiter' | 'quote' | 'skipEmptyLines'
+    > = {},
+): AsyncGenerator<string[]> {
+    const delimiter = options.delimiter ?? ',';
+    const quote = options.quote ?? '"';
+    const skipEmptyLines = options.skipEmptyLines ?? true;
+    const decoder = new StringDecoder('utf8');
+
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let quotePending = false; // quote found inside quoted field
+    let crPending = false; // \r found outside of quoted field
+
+    // Return the record if it should be emitted and reset the state
+    const endRecord = (): string[] | undefined => {
+        record.push(field);
+        const result = record;
+        record = [];
+        field = '';
+        if (skipEmptyLines && result.length === 1 && result[0] === '') {
+            return undefined;
+        }
+        return result;
+    };
+
+    for await (const chunk of source) {
+        const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+        for (const char of text) {
+            if (inQuotes) {
+                if (quotePending) {
+                    quotePending = false;
+                    if (char === quote) {
+                        // Escaped quote
+                        field += quote;
+                        continue;
+                    }
+                    // Closing quote; process char as unquoted
+                    inQuotes = false;
+                } else if (char === quote) {
+                    quotePending = true;
+                    continue;
+                } else {
+                    field += char;
+                    continue;
+                }
+            }
+
+            if (crPending) {
+                crPending = false;
+                if (char === '\n') {
+                    const result = endRecord();
+                    if (result) yield result;
+                    continue;
+                }
+                field += '\r';
+            }
+
+            if (char === quote && field === '') {
+                inQuotes = true;
+            } else if (char === delimiter) {
+                record.push(field);
+                field = '';
+            } else if (char === '\r') {
+                crPending = true;
+            } else if (char === '\n') {
+                const result = endRecord();
+                if (result) yield result;
+            } else {
+                field += char;
+            }
+        }
+    }
+
+    if (inQuotes && !quotePending) {
+        throw new Error('Unterminated quoted field at the end of CSV');
+    }
+
+    if (field !== '' || record.length) {
+        const result = endRecord();
+        if (result) yield result;
+    }
+}
+
+/**
+ * Remove the trailing `\r` of a line
+ *
+ * @param line
+ * @returns
+ */
+function stripCarriageReturn(line: string): string {
+    return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
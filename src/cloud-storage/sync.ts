@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import { File } from '@google-cloud/storage';
+
+import { convertToDate } from '../core';
+import { computeFileChecksum } from './checksum';
+import { ITransferFailure } from './base';
+
+/**
+ * How to decide if a local file and an object are the same:
+ *
+ * - md5: compare the md5 hash, falling back to crc32c for composite objects
+ * - crc32c: compare the crc32c checksum
+ * - size-mtime: compare the size and check that the destination is not older
+ */
+export type TSyncCompare = 'md5' | 'crc32c' | 'size-mtime';
+
+/**
+ * Options for `BStore.sync`
+ */
+export interface ISyncOptions {
+    /**
+     * delete the files in the destination that are not in the source.  Default to false
+     */
+    delete?: boolean;
+    /**
+     * only return the plan without changing anything.  Default to false
+     */
+    dryRun?: boolean;
+    /**
+     * how to detect unchanged files.  Default to `md5`
+     */
+    compare?: TSyncCompare;
+    /**
+     * number of files transferred at the same time.  Default to `DEFAULT_CONCURRENCY`
+     */
+    concurrency?: number;
+}
+
+/**
+ * A file handled by `BStore.sync`
+ */
+export interface ISyncEntry {
+    /**
+     * path relative to the source and destination, using `/` as separator
+     */
+    path: string;
+    /**
+     * local path or gs path of the source
+     */
+    source: string;
+    /**
+     * local path or gs path of the destination
+     */
+    destination: string;
+}
+
+/**
+ * Plan or report of `BStore.sync`.  On dry run, it lists the actions that
+ * would be performed.  Otherwise, failed actions are moved to `failed`.
+ */
+export interface ISyncReport {
+    dryRun: boolean;
+    uploads: ISyncEntry[];
+    downloads: ISyncEntry[];
+    skips: ISyncEntry[];
+    /**
+     * local path or gs path of the deleted files
+     */
+    deletions: string[];
+    failed: ITransferFailure[];
+}
+
+/**
+ * Return all files under a local directory keyed by the path relative to root
+ * using `/` as separator.  Return an empty map if the directory doesn't exist.
+ *
+ * @param root
+ * @returns
+ */
+export async function listLocalFiles(
+    root: string,
+): Promise<Map<string, fs.Stats>> {
+    const result = new Map<string, fs.Stats>();
+
+    const walk = async (dir: string, relative: string): Promise<void> => {
+        const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        for (const entry of entries) {
+            const fullpath = nodePath.join(dir, entry.name);
+            const relpath = relative ? `${relative}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                await walk(fullpath, relpath);
+            } else if (entry.isFile()) {
+                result.set(relpath, await fs.promises.stat(fullpath));
+            }
+        }
+    };
+
+    try {
+        await walk(root, '');
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw err;
+        }
+    }
+    return result;
+}
+
+/**
+ * Check if the local file and the object have the same content
+ *
+ * @param localPath
+ * @param stats
+ * @param file object with metadata populated by the listing
+ * @param compare
+ * @param toUpload true if local file is the source
+ * @returns
+ */
+export async function isSameContent(
+    localPath: string,
+    stats: fs.Stats,
+    file: File,
+    compare: TSyncCompare,
+    toUpload: boolean,
+): Promise<boolean> {
+    const meta = file.metadata;
+    if (Number(meta.size) !== stats.size) {
+        return false;
+    }
+
+    if (compare === 'size-mtime') {
+        const updated = convertToDate(meta.updated);
+        if (updated === undefined) {
+            return false;
+        }
+        return toUpload ? stats.mtime <= updated : stats.mtime >= updated;
+    }
+
+    // Composite objects do not have md5Hash
+    if (compare === 'md5' && meta.md5Hash) {
+        const md5 = await computeFileChecksum(localPath, 'md5');
+        return md5 === meta.md5Hash;
+    }
+
+    if (meta.crc32c) {
+        const crc32c = await computeFileChecksum(localPath, 'crc32c');
+        return crc32c === meta.crc32c;
+    }
+
+    return false;
+}
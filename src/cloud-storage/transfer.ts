@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import { Transform } from 'stream';
+
+import { GCUtilsError } from '../core';
+import { IReadOptions, IWriteOptions } from './base';
+
+/**
+ * Default minimum number of milliseconds between two progress events of
+ * `BStore.download` and `BStore.upload`
+ */
+export const DEFAULT_PROGRESS_INTERVAL = 500;
+
+/**
+ * Progress of `BStore.download` and `BStore.upload`
+ */
+export interface ITransferProgress {
+    /**
+     * number of bytes transferred so far
+     */
+    bytes: number;
+    /**
+     * total number of bytes, undefined if unknown such as for a decompressed
+     * download
+     */
+    totalBytes?: number;
+    /**
+     * percentage of totalBytes transferred, undefined if totalBytes is unknown
+     */
+    percent?: number;
+    /**
+     * average number of bytes per second since the start of the transfer
+     */
+    rate: number;
+}
+
+/**
+ * Options common to `BStore.download` and `BStore.upload`
+ */
+export interface ITransferOptions {
+    /**
+     * called at most every `progressInterval` milliseconds and once at the end
+     */
+    onProgress?: (progress: ITransferProgress) => void;
+    /**
+     * minimum number of milliseconds between two calls of onProgress.
+     * Default to `DEFAULT_PROGRESS_INTERVAL`
+     */
+    progressInterval?: number;
+    /**
+     * abort the transfer, destroying the underlying streams
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for `BStore.download`
+ */
+export interface IDownloadOptions
+    extends ITransferOptions, Pick<IReadOptions, 'decompress'> {}
+
+/**
+ * Options for `BStore.upload`
+ */
+export interface IUploadOptions
+    extends ITransferOptions, Omit<IWriteOptions, 'resumable' | 'compress'> {
+    /**
+     * local file where the resumable upload session is saved while
+     * uploading.  If the file exists, the interrupted upload of the same
+     * local file is resumed.  The file is deleted once the upload completes.
+     */
+    sessionFile?: string;
+}
+
+/**
+ * Resumable upload session saved in `IUploadOptions.sessionFile`
+ */
+export interface IUploadSession {
+    /**
+     * resumable upload uri
+     */
+    uri: string;
+    /**
+     * `gs://` path of the destination
+     */
+    destination: string;
+    /**
+     * size and modification time of the local file, used to detect a change
+     * of the local file since the upload started
+     */
+    size: number;
+    mtimeMs: number;
+}
+
+/**
+ * Create a pass through stream reporting the progress of the bytes passing
+ * through
+ *
+ * @param totalBytes
+ * @param options
+ * @returns
+ */
+export function createProgressStream(
+    totalBytes: number | undefined,
+    options: ITransferOptions,
+): Transform {
+    const onProgress = options.onProgress;
+    const interval = options.progressInterval ?? DEFAULT_PROGRESS_INTERVAL;
+    const startedAt = Date.now();
+    let bytes = 0;
+    let reportedAt = startedAt;
+
+    const report = () => {
+        const now = Date.now();
+        reportedAt = now;
+        const elapsed = (now - startedAt) / 1000;
+        const progress: ITransferProgress = {
+            bytes,
+            rate: elapsed > 0 ? Math.round(bytes / elapsed) : bytes,
+        };
+        if (totalBytes !== undefined) {
+            progress.totalBytes = totalBytes;
+            progress.percent =
+                totalBytes > 0
+                    ? Math.min(100, (bytes / totalBytes) * 100)
+                    : 100;
+        }
+        onProgress?.(progress);
+    };
+
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            bytes += chunk.length;
+            if (onProgress && Date.now() - reportedAt >= interval) {
+                report();
+            }
+            callback(null, chunk);
+        },
+        flush(callback) {
+            if (onProgress) {
+                report();
+            }
+            callback();
+        },
+    });
+}
+
+/**
+ * Load the upload session saved in path, undefined if none
+ *
+ * @param path
+ * @returns
+ */
+export async function loadUploadSession(
+    path: string,
+): Promise<IUploadSession | undefined> {
+    let text: string;
+    try {
+        text = await fs.promises.readFile(path, 'utf8');
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw err;
+    }
+    try {
+        return JSON.parse(text) as IUploadSession;
+    } catch (err) {
+        throw new GCUtilsError(`Invalid upload session ${path}`, err);
+    }
+}
+
+/**
+ * Save the upload session in path, replacing the file atomically
+ *
+ * @param path
+ * @param session
+ */
+export async function saveUploadSession(
+    path: string,
+    session: IUploadSession,
+): Promise<void> {
+    const tempPath = `${path}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(session));
+    await fs.promises.rename(tempPath, path);
+}
+
+/**
+ * Delete the upload session saved in path, if any
+ *
+ * @param path
+ */
+export async function deleteUploadSession(path: string): Promise<void> {
+    await fs.promises.rm(path, { force: true });
+}
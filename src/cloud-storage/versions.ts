@@ -0,0 +1,83 @@
+import { IGsUri } from './base';
+import { IGsObjectMetadata } from './metadata';
+
+/**
+ * Generation of an object returned by `BStore.listVersions`
+ */
+export interface IObjectVersion {
+    /**
+     * path of the object with the generation set
+     */
+    gs: IGsUri;
+    generation: string;
+    /**
+     * true for the live generation, false for a noncurrent one
+     */
+    live: boolean;
+    /**
+     * time the generation became noncurrent, undefined for the live one
+     */
+    timeDeleted?: Date;
+    metadata: IGsObjectMetadata;
+}
+
+/**
+ * Options for `BStore.purgeVersions`
+ */
+export interface IPurgeVersionsOptions {
+    /**
+     * number of most recent noncurrent generations to keep.  Default to 0
+     */
+    keepLast?: number;
+    /**
+     * only delete the generations that became noncurrent before this date
+     */
+    olderThan?: Date;
+    /**
+     * only report the generations that would be deleted.  Default to false
+     */
+    dryRun?: boolean;
+    /**
+     * number of generations deleted at the same time.  Default to `DEFAULT_CONCURRENCY`
+     */
+    concurrency?: number;
+}
+
+/**
+ * Compare two generations numerically, generations being larger than the
+ * largest safe integer
+ *
+ * @param a
+ * @param b
+ * @returns negative if a is older than b
+ */
+export function compareGenerations(a: string, b: string): number {
+    return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+/**
+ * Return the noncurrent generations to be purged from versions ordered
+ * from the newest to the oldest.  The live generation is never purged.
+ *
+ * @param versions
+ * @param options
+ * @returns
+ */
+export function selectVersionsToPurge(
+    versions: IObjectVersion[],
+    options: IPurgeVersionsOptions,
+): IObjectVersion[] {
+    const keepLast = options.keepLast ?? 0;
+    const olderThan = options.olderThan;
+    return versions
+        .filter((version) => !version.live)
+        .slice(keepLast)
+        .filter((version) => {
+            if (olderThan === undefined) {
+                return true;
+            }
+            const noncurrentSince =
+                version.timeDeleted ?? version.metadata.updated;
+            return noncurrentSince !== undefined && noncurrentSince < olderThan;
+        });
+}
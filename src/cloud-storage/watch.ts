@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+
+import { GCUtilsError } from '../core';
+import { generateGsUri, IGsUri } from './base';
+
+/**
+ * Default number of milliseconds between two listings of `.watch`
+ */
+export const DEFAULT_WATCH_INTERVAL = 60000;
+
+/**
+ * Type of change detected by `.watch`
+ */
+export type TWatchEventType = 'created' | 'updated' | 'deleted';
+
+/**
+ * Change of an object detected by `.watch`
+ */
+export interface IWatchEvent {
+    type: TWatchEventType;
+    gs: IGsUri;
+    /**
+     * generation of the object, undefined for `deleted`
+     */
+    generation?: string;
+    /**
+     * generation of the previous listing, undefined for `created`
+     */
+    previousGeneration?: string;
+}
+
+/**
+ * Generation of each object found by a listing keyed by object name
+ */
+export type TWatchSnapshot = { [name: string]: string };
+
+/**
+ * Store of the last snapshot of `.watch` so a restart does not replay
+ * the events already emitted
+ */
+export interface IWatchCheckpoint {
+    /**
+     * return the last snapshot saved or undefined if none
+     */
+    load(): Promise<TWatchSnapshot | undefined>;
+    /**
+     * save the snapshot once the events of a listing have been handled
+     */
+    save(snapshot: TWatchSnapshot): Promise<void>;
+}
+
+/**
+ * Options for `.watch` and `.pollChanges`
+ */
+export interface IWatchOptions {
+    /**
+     * number of milliseconds between two listings.  Default to `DEFAULT_WATCH_INTERVAL`
+     */
+    interval?: number;
+    /**
+     * types of change to emit.  Default to all
+     */
+    events?: TWatchEventType[];
+    /**
+     * store of the last snapshot.  Without it, only the changes since the
+     * start of the watch are emitted
+     */
+    checkpoint?: IWatchCheckpoint;
+    /**
+     * emit a `created` event for each existing object when there is no
+     * previous snapshot.  Default to false
+     */
+    emitExisting?: boolean;
+    /**
+     * stop the watch of `BStore.watch` when aborted
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Result of a single listing compared with the previous snapshot
+ */
+export interface IWatchPollResult {
+    events: IWatchEvent[];
+    snapshot: TWatchSnapshot;
+    /**
+     * true if the snapshot differs from the previous one
+     */
+    changed: boolean;
+}
+
+/**
+ * Return the interval of the options, raising GCUtilsError if not positive
+ *
+ * @param options
+ * @returns
+ */
+export function resolveWatchInterval(options: IWatchOptions): number {
+    const interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+    if (!(interval > 0)) {
+        throw new GCUtilsError(`Invalid watch interval of ${interval}`);
+    }
+    return interval;
+}
+
+/**
+ * Compare two snapshots of a bucket and return the changes ordered by
+ * object name, deleted objects last
+ *
+ * @param bucket
+ * @param previous
+ * @param current
+ * @returns
+ */
+export function diffSnapshots(
+    bucket: string,
+    previous: TWatchSnapshot,
+    current: TWatchSnapshot,
+): IWatchEvent[] {
+    const result: IWatchEvent[] = [];
+    for (const name of Object.keys(current).sort()) {
+        const generation = current[name];
+        const previousGeneration = previous[name];
+        if (previousGeneration === undefined) {
+            result.push({
+                type: 'created',
+                gs: generateGsUri(bucket, name),
+                generation,
+            });
+        } else if (previousGeneration !== generation) {
+            result.push({
+                type: 'updated',
+                gs: generateGsUri(bucket, name),
+                generation,
+                previousGeneration,
+            });
+        }
+    }
+    for (const name of Object.keys(previous).sort()) {
+        if (current[name] === undefined) {
+            result.push({
+                type: 'deleted',
+                gs: generateGsUri(bucket, name),
+                previousGeneration: previous[name],
+            });
+        }
+    }
+    return result;
+}
+
+/**
+ * Create an IWatchCheckpoint saving the snapshot as json in a local file.
+ * The file is replaced atomically so a crash never leaves a partial snapshot.
+ *
+ * @param filePath path of the local json file
+ * @returns
+ */
+export function createFileCheckpoint(filePath: string): IWatchCheckpoint {
+    return {
+        async load(): Promise<TWatchSnapshot | undefined> {
+            let text: string;
+            try {
+                text = await fs.promises.readFile(filePath, 'utf8');
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return undefined;
+                }
+                throw err;
+            }
+            try {
+                return JSON.parse(text) as TWatchSnapshot;
+            } catch (err) {
+                throw new GCUtilsError(
+                    `Invalid watch checkpoint ${filePath}`,
+                    err,
+                );
+            }
+        },
+        async save(snapshot: TWatchSnapshot): Promise<void> {
+            const tempPath = `${filePath}.tmp`;
+            await fs.promises.writeFile(tempPath, JSON.stringify(snapshot));
+            await fs.promises.rename(tempPath, filePath);
+        },
+    };
+}
+
+/**
+ * Wait for ms milliseconds, resolving early if signal is aborted
+ *
+ * @param ms
+ * @param signal
+ * @returns
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -91,6 +91,44 @@ export class GCUtilsError extends Error {
     }
 }
 
+/**
+ * Raised when the checksum of the content transferred doesn't match the
+ * checksum of the object in Google Cloud Storage
+ */
+export class ChecksumMismatchError extends GCUtilsError {
+    /**
+     * gs path of the object
+     */
+    public readonly path: string;
+    /**
+     * algorithm of the checksum, `crc32c` or `md5`
+     */
+    public readonly algorithm: string;
+    /**
+     * base64 checksum of the object
+     */
+    public readonly expected: string;
+    /**
+     * base64 checksum of the content transferred
+     */
+    public readonly actual: string;
+    constructor(
+        path: string,
+        algorithm: string,
+        expected: string,
+        actual: string,
+    ) {
+        super(
+            `${algorithm} checksum mismatch for ${path}: expected ${expected} but got ${actual}`,
+        );
+        this.path = path;
+        this.algorithm = algorithm;
+        this.expected = expected;
+        this.actual = actual;
+        this.name = ChecksumMismatchError.name;
+    }
+}
+
 /**
  * An error designed to be used with retry method forcing
  * a retry despite an error
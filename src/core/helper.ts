@@ -233,6 +233,51 @@ export function convertToDate(
     return output;
 }
 
+/**
+ * PRIVATE: do not expose
+ *
+ * Run the action for each of the items with at most `concurrency` actions in
+ * progress at the same time.  Failure of an action does not stop the others;
+ * the settled result of each item is returned in the order of the items.
+ *
+ * @param items
+ * @param action
+ * @param concurrency
+ * @returns
+ */
+export async function settleWithConcurrency<I, T>(
+    items: I[],
+    action: (item: I) => Promise<T>,
+    concurrency: number,
+): Promise<PromiseSettledResult<T>[]> {
+    if (!(concurrency >= 1)) {
+        throw new Error(`Invalid concurrency of ${concurrency} provided`);
+    }
+
+    const results: PromiseSettledResult<T>[] = new Array(items.length);
+    let next = 0;
+
+    // Each worker picks up the next item until all items are processed
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                const value = await action(items[index]);
+                results[index] = { status: 'fulfilled', value };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(concurrency, items.length); i++) {
+        workers.push(worker());
+    }
+    await Promise.all(workers);
+    return results;
+}
+
 /**
  * PRIVATE: do not expose
  *
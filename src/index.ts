@@ -1,4 +1,5 @@
 export {
+    ChecksumMismatchError,
     convertToDate,
     createError,
     GCUtilsError,
@@ -11,3 +11,11 @@ export {
     Subscriber,
     TJsonMessageHandler,
 } from './pstore';
+export {
+    IStorageCloudEvent,
+    IStorageEvent,
+    IStorageEventFilter,
+    parseStorageNotification,
+    TStorageEventHandler,
+    TStorageEventType,
+} from './storage';
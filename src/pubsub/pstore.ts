@@ -17,6 +17,12 @@ import {
     getPubSubLoggerPayload,
 } from './base';
 import { MessageOptions } from '@google-cloud/pubsub/build/src/topic';
+import {
+    IStorageEventFilter,
+    matchStorageEvent,
+    parseStorageNotification,
+    TStorageEventHandler,
+} from './storage';
 
 const logger = createLogger('PubSubService');
 const CONTENT_TYPE_JSON = 'application/json';
@@ -154,7 +160,11 @@ export class Subscriber {
                 message,
             });
 
-            if (contentType !== CONTENT_TYPE_JSON) {
+            // Cloud Storage notifications set payloadFormat instead of contentType
+            if (
+                contentType !== CONTENT_TYPE_JSON &&
+                message.attributes?.payloadFormat !== 'JSON_API_V1'
+            ) {
                 logger.warn(
                     `Message id ${message.id} does not have json contentType`,
                     loggerPayload,
@@ -176,6 +186,33 @@ export class Subscriber {
         await this.listen(jsonMessageHandler, errorHandler);
     }
 
+    /**
+     * Listen for Cloud Storage notifications on the subscription, only calling
+     * the handler for the events matching the filter.  Other events are
+     * acknowledged without calling the handler.  The notification must be
+     * configured with the `JSON_API_V1` payload format.
+     *
+     * @param handler The storage event handler function
+     * @param filter Event types and object name prefix to handle
+     * @param errorHandler The error handler function
+     */
+    public async listenStorageEvents(
+        handler: TStorageEventHandler,
+        filter: IStorageEventFilter = {},
+        errorHandler?: (error: Error, message?: Message) => void,
+    ): Promise<void> {
+        await this.listenJson<unknown>(async (_json, message) => {
+            const event = parseStorageNotification(message);
+            if (!matchStorageEvent(event, filter)) {
+                logger.debug(
+                    `Skipped ${event.eventType} of ${event.gs.path} from messageId ${message.id}`,
+                );
+                return;
+            }
+            await handler(event, message);
+        }, errorHandler);
+    }
+
     /**
      * Close and clean up the subscription. Once closed the current instance
      * of subscriber is no longer usable and new subscribers must be created.
@@ -0,0 +1,184 @@
+import { Message } from '@google-cloud/pubsub';
+
+import { convertToDate, GCUtilsError } from '../core';
+import { generateGsUri, IGsUri, TMetaData } from '../cloud-storage';
+
+/**
+ * Event types of the Cloud Storage Pub/Sub notifications
+ */
+export type TStorageEventType =
+    | 'OBJECT_FINALIZE'
+    | 'OBJECT_METADATA_UPDATE'
+    | 'OBJECT_DELETE'
+    | 'OBJECT_ARCHIVE';
+
+/**
+ * CloudEvent types of Cloud Storage delivered by Eventarc
+ */
+const CLOUD_EVENT_TYPES: { [key: string]: TStorageEventType } = {
+    'google.cloud.storage.object.v1.finalized': 'OBJECT_FINALIZE',
+    'google.cloud.storage.object.v1.metadataUpdated': 'OBJECT_METADATA_UPDATE',
+    'google.cloud.storage.object.v1.deleted': 'OBJECT_DELETE',
+    'google.cloud.storage.object.v1.archived': 'OBJECT_ARCHIVE',
+};
+
+/**
+ * Structured CloudEvent body as delivered by Eventarc
+ */
+export interface IStorageCloudEvent {
+    specversion?: string;
+    id?: string;
+    type: string;
+    source?: string;
+    subject?: string;
+    time?: string;
+    data?: TMetaData;
+}
+
+/**
+ * Cloud Storage event parsed by `parseStorageNotification`
+ */
+export interface IStorageEvent {
+    eventType: TStorageEventType;
+    /**
+     * object of the event
+     */
+    gs: IGsUri;
+    generation?: string;
+    eventTime?: Date;
+    /**
+     * generation replaced by this object, if any
+     */
+    overwroteGeneration?: string;
+    /**
+     * generation that replaced this object, if any
+     */
+    overwrittenByGeneration?: string;
+    /**
+     * object resource of the payload; undefined if the notification is
+     * configured without payload
+     */
+    metadata?: TMetaData;
+    /**
+     * `pubsub` for a Pub/Sub notification and `eventarc` for a CloudEvent
+     */
+    source: 'pubsub' | 'eventarc';
+}
+
+/**
+ * Filter of `Subscriber.listenStorageEvents`
+ */
+export interface IStorageEventFilter {
+    /**
+     * only handle these event types.  Default to all
+     */
+    eventTypes?: TStorageEventType[];
+    /**
+     * only handle the objects with name starting with prefix
+     */
+    prefix?: string;
+}
+
+/**
+ * Handler of `Subscriber.listenStorageEvents`
+ */
+export type TStorageEventHandler = (
+    event: IStorageEvent,
+    message: Message,
+) => Promise<void>;
+
+/**
+ * Parse the payload of the message as object resource
+ *
+ * @param data
+ * @returns
+ */
+function parsePayload(data: Buffer | undefined): TMetaData | undefined {
+    const text = data?.toString() ?? '';
+    if (!text.length) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(text) as TMetaData;
+    } catch (err) {
+        throw new GCUtilsError(
+            'Invalid JSON payload of storage notification',
+            err,
+        );
+    }
+}
+
+/**
+ * Parse a Cloud Storage notification received from Pub/Sub or a CloudEvent
+ * delivered by Eventarc into an IStorageEvent.  Raise GCUtilsError if the
+ * input is not a Cloud Storage event.
+ *
+ * @param input Pub/Sub Message or structured CloudEvent body
+ * @returns
+ */
+export function parseStorageNotification(
+    input: Message | IStorageCloudEvent,
+): IStorageEvent {
+    if ('attributes' in input && input.attributes !== undefined) {
+        const attributes = input.attributes;
+        const eventType = attributes.eventType as TStorageEventType;
+        if (!eventType || !attributes.bucketId || !attributes.objectId) {
+            throw new GCUtilsError(
+                `Message ${input.id} is not a Cloud Storage notification`,
+            );
+        }
+
+        const metadata =
+            attributes.payloadFormat === 'NONE'
+                ? undefined
+                : parsePayload(input.data);
+        return {
+            eventType,
+            gs: generateGsUri(attributes.bucketId, attributes.objectId),
+            generation: attributes.objectGeneration,
+            eventTime: convertToDate(attributes.eventTime),
+            overwroteGeneration: attributes.overwroteGeneration,
+            overwrittenByGeneration: attributes.overwrittenByGeneration,
+            metadata,
+            source: 'pubsub',
+        };
+    }
+
+    const event = input as IStorageCloudEvent;
+    const eventType = CLOUD_EVENT_TYPES[event.type];
+    const data = event.data;
+    if (!eventType || !data?.bucket || !data?.name) {
+        throw new GCUtilsError(
+            `CloudEvent ${event.type} is not a Cloud Storage object event`,
+        );
+    }
+    return {
+        eventType,
+        gs: generateGsUri(`${data.bucket}`, `${data.name}`),
+        generation:
+            data.generation === undefined ? undefined : `${data.generation}`,
+        eventTime: convertToDate(event.time),
+        metadata: data,
+        source: 'eventarc',
+    };
+}
+
+/**
+ * Check if the event matches the filter
+ *
+ * @param event
+ * @param filter
+ * @returns
+ */
+export function matchStorageEvent(
+    event: IStorageEvent,
+    filter: IStorageEventFilter,
+): boolean {
+    if (filter.eventTypes && !filter.eventTypes.includes(event.eventType)) {
+        return false;
+    }
+    if (filter.prefix && !event.gs.path.startsWith(filter.prefix)) {
+        return false;
+    }
+    return true;
+}
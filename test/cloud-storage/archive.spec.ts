@@ -0,0 +1,165 @@
+import { expect } from '../testlib';
+
+import { PassThrough, Readable } from 'stream';
+import { fromBufferPromise } from 'yauzl';
+import { GCUtilsError } from '@fp8proj/core';
+import {
+    BStore,
+    clearMemoryBackend,
+    IArchiveProgress,
+} from '@fp8proj/cloud-storage';
+import {
+    createArchiveStream,
+    IArchiveSource,
+    resolveArchiveFormat,
+} from '@fp8proj/cloud-storage/archive';
+
+const BACKEND = 'mem://archive';
+
+function createSource(name: string, content: string): IArchiveSource {
+    return {
+        name,
+        size: Buffer.byteLength(content),
+        mtime: new Date('2024-05-01T10:20:30Z'),
+        open: () => Readable.from([Buffer.from(content)]),
+    };
+}
+
+async function* iterate<T>(items: T[]): AsyncGenerator<T> {
+    yield* items;
+}
+
+async function collect(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+}
+
+describe('cloud-storage.archive', () => {
+    const bstore = new BStore({ backend: BACKEND });
+    const longName = `${'long-directory-name/'.repeat(6)}file.txt`;
+
+    beforeEach(async () => {
+        await bstore.write('gs://bucket/docs/a.txt', 'content of a');
+        await bstore.write('gs://bucket/docs/sub/b.json', '{"b":1}');
+        await bstore.write(`gs://bucket/docs/${longName}`, 'long');
+        await bstore.write('gs://bucket/docs/empty.txt', '');
+        await bstore.write('gs://bucket/other/c.txt', 'c');
+    });
+
+    afterEach(() => clearMemoryBackend(BACKEND));
+
+    it('resolveArchiveFormat', () => {
+        expect(resolveArchiveFormat('a/b.ZIP')).toBe('zip');
+        expect(resolveArchiveFormat('a/b.tar.gz')).toBe('tar.gz');
+        expect(resolveArchiveFormat('a/b.tgz')).toBe('tar.gz');
+        expect(resolveArchiveFormat('a/b.tar')).toBeUndefined();
+        expect(resolveArchiveFormat('a/b.bin', 'zip')).toBe('zip');
+        expect(() =>
+            resolveArchiveFormat('a', 'rar' as unknown as 'zip'),
+        ).toThrow('Unsupported archive format rar');
+    });
+
+    for (const ext of ['zip', 'tar.gz']) {
+        it(`archive and extract ${ext}`, async () => {
+            const progress: IArchiveProgress[] = [];
+            const report = await bstore.archive(
+                'gs://bucket/docs/',
+                `gs://bucket/out/docs.${ext}`,
+                { onProgress: (value) => progress.push(value) },
+            );
+            expect(report).toEqual({ entries: 4, bytes: 23 });
+            expect(progress.map((value) => value.name)).toEqual([
+                'a.txt',
+                'empty.txt',
+                longName,
+                'sub/b.json',
+            ]);
+            expect(progress[3]).toEqual({
+                entries: 4,
+                bytes: 23,
+                name: 'sub/b.json',
+            });
+            const meta = await bstore.meta(`gs://bucket/out/docs.${ext}`);
+            expect(meta.contentType).toBe(
+                ext === 'zip' ? 'application/zip' : 'application/gzip',
+            );
+
+            const extracted = await bstore.extract(
+                `gs://bucket/out/docs.${ext}`,
+                'gs://bucket/copy/',
+            );
+            expect(extracted).toEqual({ entries: 4, bytes: 23 });
+            const files = await bstore.getFiles('gs://bucket/copy/');
+            expect(files.map((file) => file.name)).toEqual([
+                'copy/a.txt',
+                'copy/empty.txt',
+                `copy/${longName}`,
+                'copy/sub/b.json',
+            ]);
+            expect(
+                (await bstore.read('gs://bucket/copy/sub/b.json')).toString(),
+            ).toBe('{"b":1}');
+            expect(
+                (await bstore.read(`gs://bucket/copy/${longName}`)).toString(),
+            ).toBe('long');
+        });
+    }
+
+    it('archive into a stream', async () => {
+        const output = new PassThrough();
+        const [report, data] = await Promise.all([
+            bstore.archive('gs://bucket/docs/sub/', output),
+            collect(output),
+        ]);
+        expect(report.entries).toBe(1);
+
+        const zip = await fromBufferPromise(data, { lazyEntries: true });
+        const entries: [string, number][] = [];
+        for await (const entry of zip.eachEntry()) {
+            entries.push([entry.fileName, entry.uncompressedSize]);
+        }
+        expect(entries).toEqual([['b.json', 7]]);
+    });
+
+    it('names entries relative to the directory of the path', async () => {
+        const progress: string[] = [];
+        await bstore.archive('gs://bucket/docs', 'gs://bucket/docs.zip', {
+            onProgress: (value) => progress.push(value.name),
+        });
+        expect(progress).toContain('docs/a.txt');
+
+        // The archive itself is never included
+        await bstore.archive('gs://bucket/', 'gs://bucket/all.zip');
+        await bstore.archive('gs://bucket/', 'gs://bucket/all.zip', {
+            onProgress: (value) => progress.push(value.name),
+        });
+        expect(progress).not.toContain('all.zip');
+        expect(progress).toContain('docs.zip');
+    });
+
+    it('rejects entries escaping the destination', async () => {
+        const tar = createArchiveStream(
+            'tar.gz',
+            iterate([createSource('../escape.txt', 'x')]),
+        );
+        await bstore.write('gs://bucket/evil.tar.gz', tar);
+        await expect(
+            bstore.extract('gs://bucket/evil.tar.gz', 'gs://bucket/copy/'),
+        ).rejects.toThrow(
+            'Entry ../escape.txt of gs://bucket/evil.tar.gz escapes',
+        );
+    });
+
+    it('rejects invalid archives', async () => {
+        await expect(
+            bstore.extract('gs://bucket/docs/a.txt', 'gs://bucket/copy/'),
+        ).rejects.toThrow('Unknown archive format');
+        await bstore.write('gs://bucket/bad.zip', 'not a zip');
+        await expect(
+            bstore.extract('gs://bucket/bad.zip', 'gs://bucket/copy/'),
+        ).rejects.toThrow(GCUtilsError);
+    });
+});
@@ -5,8 +5,12 @@ import {
     parseGsPath,
     generateGsPath,
     AbstractBStore,
+    createWriteStreamOptions,
+    isPreconditionFailed,
+    resolveByteRange,
 } from '@fp8proj/cloud-storage/base';
 import { Readable, Writable } from 'stream';
+import { generateKeyPairSync } from 'crypto';
 
 import { File, Bucket } from '@google-cloud/storage';
 
@@ -40,6 +44,35 @@ describe('cloud-storage.base', () => {
         expect(resUrl).toEqual(gspath);
     });
 
+    it('gspath with glob', () => {
+        const gspathGlob = `gs://${BUCKET_NAME}/exports/**/2024-?.{csv,json}`;
+        const uri = parseGsPath(gspathGlob);
+        expect(uri).toEqual({
+            bucket: BUCKET_NAME,
+            path: 'exports/**/2024-?.{csv,json}',
+            dirname: 'exports/**',
+            filename: '2024-?.{csv,json}',
+            basename: '2024-?',
+            extname: '.{csv,json}',
+            glob: 'exports/**/2024-?.{csv,json}',
+        });
+        expect(generateGsPath(uri)).toEqual(gspathGlob);
+    });
+
+    it('gspath with generation', () => {
+        const uri = parseGsPath(`${gspath}#1700000000000001`);
+        expect(uri).toEqual({
+            bucket: BUCKET_NAME,
+            path: 'public/sample.pdf',
+            dirname: 'public',
+            filename: 'sample.pdf',
+            basename: 'sample',
+            extname: '.pdf',
+            generation: '1700000000000001',
+        });
+        expect(generateGsPath(uri)).toEqual(`${gspath}#1700000000000001`);
+    });
+
     it('gspath', () => {
         const config: any = {
             [`gs://${BUCKET_NAME}/public/sample.pdf`]: {
@@ -405,4 +438,168 @@ describe('cloud-storage.base', () => {
         const file = new File(mockBucket, 'file-name');
         expect(bstore['getBlob'](file)).toBe(file);
     });
+
+    it('createWriteStreamOptions', () => {
+        expect(createWriteStreamOptions()).toEqual({});
+        expect(
+            createWriteStreamOptions({
+                contentType: 'application/json',
+                cacheControl: 'public, max-age=60',
+                metadata: { owner: 'gcutils' },
+                resumable: false,
+            }),
+        ).toEqual({
+            contentType: 'application/json',
+            metadata: {
+                cacheControl: 'public, max-age=60',
+                metadata: { owner: 'gcutils' },
+            },
+            resumable: false,
+        });
+    });
+
+    it('createWriteStreamOptions with generation precondition', () => {
+        expect(createWriteStreamOptions({ ifGenerationMatch: 0 })).toEqual({
+            preconditionOpts: { ifGenerationMatch: 0 },
+        });
+    });
+
+    it('isPreconditionFailed', () => {
+        const error = Object.assign(new Error('failed'), { code: 412 });
+        expect(isPreconditionFailed(error)).toBe(true);
+        expect(isPreconditionFailed(new GCUtilsError('wrapped', error))).toBe(
+            true,
+        );
+        expect(isPreconditionFailed(new Error('other'))).toBe(false);
+        expect(isPreconditionFailed('412')).toBe(false);
+    });
+
+    it('resolveByteRange', () => {
+        const path = 'gs://bucket/a.log';
+        expect(resolveByteRange(path, 100, {})).toEqual({ start: 0, end: 99 });
+        expect(resolveByteRange(path, 100, { start: 10, end: 19 })).toEqual({
+            start: 10,
+            end: 19,
+        });
+        // End is capped to the last byte
+        expect(resolveByteRange(path, 100, { start: 90, end: 200 })).toEqual({
+            start: 90,
+            end: 99,
+        });
+        expect(resolveByteRange(path, 100, { head: 10 })).toEqual({
+            start: 0,
+            end: 9,
+        });
+        expect(resolveByteRange(path, 100, { tail: 10 })).toEqual({
+            start: 90,
+            end: 99,
+        });
+        expect(resolveByteRange(path, 5, { tail: 10 })).toEqual({
+            start: 0,
+            end: 4,
+        });
+        // Empty object
+        expect(resolveByteRange(path, 0, { head: 10 })).toEqual({
+            start: 0,
+            end: -1,
+        });
+
+        expect(() => resolveByteRange(path, 100, { start: 100 })).toThrow(
+            'Invalid range 100- for gs://bucket/a.log of 100 bytes',
+        );
+        expect(() =>
+            resolveByteRange(path, 100, { start: 10, end: 5 }),
+        ).toThrow('Invalid range 10-5 for gs://bucket/a.log of 100 bytes');
+        expect(() => resolveByteRange(path, 100, { start: -1 })).toThrow(
+            GCUtilsError,
+        );
+        expect(() => resolveByteRange(path, 100, { tail: 0 })).toThrow(
+            'Number of bytes to read from gs://bucket/a.log must be a positive integer but got 0',
+        );
+    });
+
+    describe('signed url and policy', () => {
+        const { privateKey } = generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+        });
+        const credentials = {
+            client_email: 'signer@gcutils-test.iam.gserviceaccount.com',
+            private_key: privateKey,
+        };
+        const bstore = new TestBStore();
+
+        it('getSignedUrl for read', async () => {
+            const url = new URL(
+                await bstore.getSignedUrl('gs://sign-bucket/docs/report.pdf', {
+                    expiresIn: 60,
+                    responseDisposition: 'attachment; filename="report.pdf"',
+                    credentials,
+                }),
+            );
+            expect(url.pathname).toEqual('/sign-bucket/docs/report.pdf');
+            expect(url.searchParams.get('X-Goog-Algorithm')).toEqual(
+                'GOOG4-RSA-SHA256',
+            );
+            expect(url.searchParams.get('X-Goog-Expires')).toEqual('60');
+            expect(url.searchParams.get('X-Goog-Credential')).toMatch(
+                /^signer@gcutils-test/,
+            );
+            expect(
+                url.searchParams.get('response-content-disposition'),
+            ).toEqual('attachment; filename="report.pdf"');
+        });
+
+        it('getSignedUrl for write with content type', async () => {
+            const url = new URL(
+                await bstore.getSignedUrl(
+                    parseGsPath('gs://sign-bucket/upload/data.csv'),
+                    { action: 'write', contentType: 'text/csv', credentials },
+                ),
+            );
+            expect(url.searchParams.get('X-Goog-SignedHeaders')).toEqual(
+                'content-type;host',
+            );
+        });
+
+        it('getSignedUrl rejects invalid expiresIn', async () => {
+            await expect(
+                bstore.getSignedUrl('gs://sign-bucket/a.txt', {
+                    expiresIn: 604801,
+                    credentials,
+                }),
+            ).rejects.toThrow('expiresIn must be between 1 and 604800');
+        });
+
+        it('getSignedPostPolicy', async () => {
+            const policy = await bstore.getSignedPostPolicy(
+                'gs://sign-bucket/upload/photo.jpg',
+                {
+                    contentType: 'image/jpeg',
+                    maxSize: 1024,
+                    fields: { 'x-goog-meta-owner': 'gcutils' },
+                    credentials,
+                },
+            );
+            expect(policy.url).toEqual(
+                'https://storage.googleapis.com/sign-bucket/',
+            );
+            expect(policy.fields).toMatchObject({
+                key: 'upload/photo.jpg',
+                'content-type': 'image/jpeg',
+                'x-goog-meta-owner': 'gcutils',
+                'x-goog-algorithm': 'GOOG4-RSA-SHA256',
+            });
+
+            const decoded = JSON.parse(
+                Buffer.from(policy.fields.policy, 'base64').toString(),
+            );
+            expect(decoded.conditions).toContainEqual([
+                'content-length-range',
+                0,
+                1024,
+            ]);
+        });
+    });
 });
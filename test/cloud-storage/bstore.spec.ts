@@ -1,8 +1,38 @@
-import { expect } from '../testlib';
+import {
+    createDownloadStream,
+    createMockFile,
+    createUploadStream,
+    deleteResponse,
+    expect,
+    metadataResponse,
+} from '../testlib';
 
 import * as fs from 'fs';
-import { BStore } from '@fp8proj/cloud-storage';
-import { Writable } from 'stream';
+import * as os from 'os';
+import * as nodePath from 'path';
+import {
+    BStore,
+    clearMemoryBackend,
+    computeChecksum,
+    IGsUri,
+    parseGsPath,
+} from '@fp8proj/cloud-storage';
+import * as checksum from '@fp8proj/cloud-storage/checksum';
+import { toGsObjectMetadata } from '@fp8proj/cloud-storage/metadata';
+import {
+    ChecksumMismatchError,
+    GCUtilsError,
+    TCreateEntityCallback,
+} from '@fp8proj/core';
+import { Readable, Writable } from 'stream';
+import { gunzipSync, gzipSync } from 'zlib';
+import {
+    Bucket,
+    CombineResponse,
+    File,
+    FileMetadata,
+    GetFilesOptions,
+} from '@google-cloud/storage';
 
 const BUCKET_NAME = process.env.GCUTILS_TEST_BUCKET;
 const gspathPublic = `gs://${BUCKET_NAME}/public`;
@@ -86,9 +116,10 @@ describe('cloud-storage.BStore', () => {
     it('processFiles', async () => {
         const publicPath = `${gspathPublic}/`;
 
-        const result = await bstore.processFiles<string>(publicPath, (file) =>
+        const report = await bstore.processFiles<string>(publicPath, (file) =>
             Promise.resolve(file.name),
         );
+        const result = report.succeeded.map((entry) => entry.result).sort();
         expect(result).toEqual(['public/man-join.txt', 'public/sample.pdf']);
     });
 
@@ -119,7 +150,7 @@ describe('cloud-storage.BStore', () => {
         });
 
         // console.log('# META', meta);
-        expect(meta.size).toEqual('48');
+        expect(meta.size).toEqual(48);
         expect(meta.md5Hash).toEqual('gVeooD5V52WnMWKcIofSow==');
 
         // Now delete the file
@@ -129,6 +160,740 @@ describe('cloud-storage.BStore', () => {
         expect(found).toBeFalsy();
     }, 15000);
 
+    it('write and delete', async () => {
+        const testFile = `${gspathPublic}/test/test-bstore-write-Kq2Rb8xZTe.txt`;
+        const inputText =
+            'This is testFile for BStore.write with data Kq2Rb8xZTe';
+
+        const meta = await bstore.write(testFile, inputText, {
+            contentType: 'text/plain',
+            metadata: { source: 'gcutils-test' },
+        });
+        expect(meta).toHaveProperty('contentType', 'text/plain');
+        expect(meta).toHaveProperty('metadata', { source: 'gcutils-test' });
+
+        const data = await bstore.read(testFile);
+        expect(data.toString()).toEqual(inputText);
+
+        await bstore.deleteFiles(testFile);
+    }, 15000);
+
+    it('write accepts Buffer, string and Readable', async () => {
+        const localBstore = new BStore();
+        const written: string[] = [];
+        const blob = {
+            metadata: { name: 'file' },
+            createWriteStream: jest.fn(
+                (_options?: unknown) =>
+                    new Writable({
+                        write(chunk, _encoding, callback) {
+                            written.push(chunk.toString());
+                            callback();
+                        },
+                    }),
+            ),
+        };
+        jest.spyOn(localBstore as any, 'getBlob').mockReturnValue(blob);
+
+        await localBstore.write('gs://bucket/file', 'string data');
+        await localBstore.write('gs://bucket/file', Buffer.from('buffer data'));
+        const meta = await localBstore.write(
+            'gs://bucket/file',
+            Readable.from(['readable ', 'data']),
+            { contentType: 'text/plain', cacheControl: 'no-cache' },
+        );
+
+        expect(written.join('|')).toEqual(
+            'string data|buffer data|readable |data',
+        );
+        expect(meta).toMatchObject({ name: 'file' });
+        expect(blob.createWriteStream).toHaveBeenLastCalledWith({
+            contentType: 'text/plain',
+            metadata: { cacheControl: 'no-cache' },
+        });
+    });
+
+    it('write rejects on stream error', async () => {
+        const localBstore = new BStore({ errorHandler: () => undefined });
+        const error = new Error('write error');
+        jest.spyOn(localBstore as any, 'getBlob').mockReturnValue({
+            createWriteStream: () =>
+                new Writable({
+                    write(_chunk, _encoding, callback) {
+                        callback(error);
+                    },
+                }),
+        });
+        await expect(
+            localBstore.write('gs://bucket/file', 'data'),
+        ).rejects.toBe(error);
+    });
+
+    it('readJson parses content', async () => {
+        const localBstore = new BStore();
+        jest.spyOn(localBstore, 'read').mockResolvedValue(
+            Buffer.from('{"name":"gcutils","tags":["a","b"]}'),
+        );
+        const result = await localBstore.readJson<{ name: string }>(
+            'gs://bucket/config.json',
+        );
+        expect(result).toEqual({ name: 'gcutils', tags: ['a', 'b'] });
+    });
+
+    it('readJson raises GCUtilsError with path on invalid json', async () => {
+        const localBstore = new BStore();
+        jest.spyOn(localBstore, 'read').mockResolvedValue(
+            Buffer.from('{"name":'),
+        );
+        const result = localBstore.readJson('gs://bucket/invalid.json');
+        await expect(result).rejects.toBeInstanceOf(GCUtilsError);
+        await expect(result).rejects.toThrow(
+            'Failed to parse JSON from gs://bucket/invalid.json',
+        );
+    });
+
+    it('readJson creates entity via createEntityCallback', async () => {
+        class Config {
+            name?: string;
+        }
+        const createEntityCallback: TCreateEntityCallback = (type, data) => {
+            const { name } = data as Config;
+            if (!name) {
+                throw new Error('name is required');
+            }
+            return Object.assign(new type(), data);
+        };
+        const localBstore = new BStore({ createEntityCallback });
+        const read = jest.spyOn(localBstore, 'read');
+
+        read.mockResolvedValue(Buffer.from('{"name":"gcutils"}'));
+        const config = await localBstore.readJson(
+            'gs://bucket/config.json',
+            Config,
+        );
+        expect(config).toBeInstanceOf(Config);
+        expect(config.name).toEqual('gcutils');
+
+        read.mockResolvedValue(Buffer.from('{}'));
+        await expect(
+            localBstore.readJson('gs://bucket/config.json', Config),
+        ).rejects.toThrow(
+            'Failed to create Config from gs://bucket/config.json',
+        );
+    });
+
+    it('writeJson sets json content type', async () => {
+        const localBstore = new BStore();
+        const write = jest
+            .spyOn(localBstore, 'write')
+            .mockResolvedValue(toGsObjectMetadata({ name: 'data.json' }));
+
+        await localBstore.writeJson(
+            'gs://bucket/data.json',
+            { a: 1 },
+            { contentType: 'text/plain', cacheControl: 'no-cache' },
+        );
+        expect(write).toHaveBeenCalledWith('gs://bucket/data.json', '{"a":1}', {
+            contentType: 'application/json',
+            cacheControl: 'no-cache',
+        });
+    });
+
+    it('readNdjson and readCsv stream records', async () => {
+        const localBstore = new BStore();
+        const createReadableStream = jest.spyOn(
+            localBstore,
+            'createReadableStream',
+        );
+
+        createReadableStream.mockReturnValue(
+            Readable.from(['{"id":1}\n\n{"id"', ':2}\n']),
+        );
+        const rows: unknown[] = [];
+        for await (const row of localBstore.readNdjson(
+            'gs://bucket/a.ndjson',
+        )) {
+            rows.push(row);
+        }
+        expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+
+        createReadableStream.mockReturnValue(
+            Readable.from(['\uFEFFId,Name\n1,"Doe, John"\n2,Jane\n']),
+        );
+        const records: unknown[] = [];
+        const csv = localBstore.readCsv('gs://bucket/a.csv', {
+            mapHeader: (header) => header.toLowerCase(),
+        });
+        for await (const record of csv) {
+            records.push(record);
+        }
+        expect(records).toEqual([
+            { id: '1', name: 'Doe, John' },
+            { id: '2', name: 'Jane' },
+        ]);
+    });
+
+    it('readNdjson names the path and line on invalid json', async () => {
+        const localBstore = new BStore();
+        jest.spyOn(localBstore, 'createReadableStream').mockReturnValue(
+            Readable.from(['{"id":1}\n{"id":\n']),
+        );
+        const iterate = async () => {
+            for await (const _ of localBstore.readNdjson(
+                'gs://bucket/a.ndjson',
+            )) {
+                // consume
+            }
+        };
+        await expect(iterate()).rejects.toThrow(
+            'Failed to parse JSON from gs://bucket/a.ndjson at line 2',
+        );
+    });
+
+    it('readCsv names the path and record on unterminated quote', async () => {
+        const localBstore = new BStore();
+        jest.spyOn(localBstore, 'createReadableStream').mockImplementation(() =>
+            Readable.from(['id,name\n1,Jane\n2,"Doe\n']),
+        );
+        const iterate = async () => {
+            for await (const _ of localBstore.readCsv('gs://bucket/a.csv')) {
+                // consume
+            }
+        };
+        await expect(iterate()).rejects.toThrow(GCUtilsError);
+        await expect(iterate()).rejects.toThrow(
+            'Failed to parse CSV from gs://bucket/a.csv at record 3',
+        );
+    });
+
+    describe('copy and move', () => {
+        const localBstore = new BStore();
+        const srcBucket = localBstore.getBucket('src-bucket');
+        const files = [
+            srcBucket.file('data/a.txt'),
+            srcBucket.file('data/sub/b.txt'),
+        ];
+
+        let copy: jest.SpiedFunction<File['copy']>;
+        let remove: jest.SpiedFunction<File['delete']>;
+
+        beforeEach(() => {
+            jest.spyOn(localBstore as any, 'listFiles').mockResolvedValue(
+                files,
+            );
+            copy = jest
+                .spyOn(File.prototype, 'copy')
+                .mockImplementation(function (this: File, destination) {
+                    if (this.name.endsWith('b.txt')) {
+                        return Promise.reject(new Error('copy failed'));
+                    }
+                    return Promise.resolve([destination as File, {}]);
+                });
+            remove = jest
+                .spyOn(File.prototype, 'delete')
+                .mockImplementation(async () => deleteResponse());
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('copy passes metadata overrides', async () => {
+            const file = await localBstore.copy(
+                'gs://src-bucket/data/a.txt',
+                'gs://dest-bucket/backup/a.txt',
+                { contentType: 'text/plain', metadata: { owner: 'test' } },
+            );
+            expect(file.bucket.name).toEqual('dest-bucket');
+            expect(file.name).toEqual('backup/a.txt');
+            expect(copy).toHaveBeenCalledWith(expect.any(File), {
+                contentType: 'text/plain',
+                metadata: { owner: 'test' },
+            });
+            expect(remove).not.toHaveBeenCalled();
+        });
+
+        it('move deletes the source', async () => {
+            await localBstore.move(
+                'gs://src-bucket/data/a.txt',
+                'gs://src-bucket/data/renamed.txt',
+            );
+            expect(copy).toHaveBeenCalledWith(expect.any(File), {});
+            expect(remove).toHaveBeenCalledTimes(1);
+        });
+
+        it('copyPrefix reports success and failure', async () => {
+            const report = await localBstore.copyPrefix(
+                'gs://src-bucket/data/',
+                'gs://dest-bucket/backup/',
+                { concurrency: 1 },
+            );
+            expect(report.succeeded).toEqual([
+                {
+                    source: 'gs://src-bucket/data/a.txt',
+                    destination: 'gs://dest-bucket/backup/a.txt',
+                },
+            ]);
+            expect(report.failed).toHaveLength(1);
+            expect(report.failed[0]).toMatchObject({
+                source: 'gs://src-bucket/data/sub/b.txt',
+                destination: 'gs://dest-bucket/backup/sub/b.txt',
+            });
+            expect(report.failed[0].error.message).toEqual('copy failed');
+            expect(remove).not.toHaveBeenCalled();
+        });
+
+        it('copyPrefix considers the paths as directories', async () => {
+            // List by prefix among siblings sharing the name of the source
+            jest.spyOn(localBstore as any, 'listFiles').mockImplementation(
+                async (gs) =>
+                    ['data/a.txt', 'database/c.txt', 'data-old/d.txt']
+                        .filter((name) => name.startsWith((gs as IGsUri).path))
+                        .map((name) => srcBucket.file(name)),
+            );
+            const report = await localBstore.copyPrefix(
+                'gs://src-bucket/data',
+                'gs://dest-bucket/backup',
+            );
+            expect(report).toEqual({
+                succeeded: [
+                    {
+                        source: 'gs://src-bucket/data/a.txt',
+                        destination: 'gs://dest-bucket/backup/a.txt',
+                    },
+                ],
+                failed: [],
+            });
+        });
+
+        it('copyPrefix names the targets after the glob prefix', async () => {
+            const report = await localBstore.copyPrefix(
+                'gs://src-bucket/data/**/*.txt',
+                'gs://dest-bucket/backup/',
+            );
+            expect(report.succeeded).toEqual([
+                {
+                    source: 'gs://src-bucket/data/a.txt',
+                    destination: 'gs://dest-bucket/backup/a.txt',
+                },
+            ]);
+            expect(report.failed[0]).toMatchObject({
+                source: 'gs://src-bucket/data/sub/b.txt',
+                destination: 'gs://dest-bucket/backup/sub/b.txt',
+            });
+        });
+
+        it('movePrefix only deletes copied sources', async () => {
+            const report = await localBstore.movePrefix(
+                'gs://src-bucket/data/',
+                'gs://src-bucket/archive/',
+            );
+            expect(report.succeeded).toHaveLength(1);
+            expect(report.failed).toHaveLength(1);
+            expect(remove).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('generation precondition', () => {
+        const localBstore = new BStore({ errorHandler: () => undefined });
+        const precondition = Object.assign(new Error('precondition failed'), {
+            code: 412,
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('readWithGeneration reads the generation from meta', async () => {
+            jest.spyOn(File.prototype, 'getMetadata').mockImplementation(
+                async () => metadataResponse({ generation: 1700000000000001 }),
+            );
+            const createReadableStream = jest
+                .spyOn(localBstore, 'createReadableStream')
+                .mockReturnValue(Readable.from([Buffer.from('content')]));
+
+            const result = await localBstore.readWithGeneration(
+                'gs://bucket/data/a.txt',
+            );
+            expect(result.buffer.toString()).toEqual('content');
+            expect(result.generation).toEqual('1700000000000001');
+
+            const pinned = createReadableStream.mock.calls[0][0] as File;
+            expect(pinned.name).toEqual('data/a.txt');
+            expect(pinned.generation).toEqual(1700000000000001);
+        });
+
+        it('delete passes the precondition', async () => {
+            const remove = jest
+                .spyOn(File.prototype, 'delete')
+                .mockImplementation(async () => deleteResponse());
+            await localBstore.delete('gs://bucket/data/a.txt', {
+                ifGenerationMatch: 5,
+            });
+            expect(remove).toHaveBeenCalledWith({ ifGenerationMatch: 5 });
+        });
+
+        it('modify retries on concurrent update', async () => {
+            jest.spyOn(localBstore as any, 'readGeneration')
+                .mockResolvedValueOnce({
+                    buffer: Buffer.from('1'),
+                    generation: '10',
+                })
+                .mockResolvedValueOnce({
+                    buffer: Buffer.from('2'),
+                    generation: '11',
+                });
+            const writeData = jest
+                .spyOn(localBstore as any, 'writeData')
+                .mockRejectedValueOnce(precondition)
+                .mockResolvedValueOnce({ generation: '12' });
+
+            const fn = jest.fn(
+                (content?: Buffer) => `${Number(content?.toString()) + 1}`,
+            );
+            const meta = await localBstore.modify('gs://bucket/counter', fn, {
+                contentType: 'text/plain',
+                waitFor: 1,
+            });
+
+            expect(meta).toEqual({ generation: '12' });
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(writeData).toHaveBeenLastCalledWith(expect.anything(), '3', {
+                contentType: 'text/plain',
+                ifGenerationMatch: '11',
+            });
+        });
+
+        it('modify creates a missing file', async () => {
+            jest.spyOn(localBstore as any, 'readGeneration').mockRejectedValue(
+                Object.assign(new Error('not found'), { code: 404 }),
+            );
+            const writeData = jest
+                .spyOn(localBstore as any, 'writeData')
+                .mockResolvedValue({ generation: '1' });
+
+            const fn = jest.fn((content?: Buffer, _generation?: string) =>
+                content ? 'old' : 'new',
+            );
+            await localBstore.modify('gs://bucket/counter', fn);
+
+            expect(fn).toHaveBeenCalledWith(undefined, '0');
+            expect(writeData).toHaveBeenCalledWith(expect.anything(), 'new', {
+                ifGenerationMatch: '0',
+            });
+        });
+
+        it('modify gives up after maxRetry', async () => {
+            jest.spyOn(localBstore as any, 'readGeneration').mockResolvedValue({
+                buffer: Buffer.from('1'),
+                generation: '10',
+            });
+            jest.spyOn(localBstore as any, 'writeData').mockRejectedValue(
+                precondition,
+            );
+
+            const result = localBstore.modify(
+                'gs://bucket/counter',
+                () => 'x',
+                {
+                    maxRetry: 2,
+                    waitFor: 1,
+                },
+            );
+            await expect(result).rejects.toBeInstanceOf(GCUtilsError);
+            await expect(result).rejects.toThrow(
+                'Failed to modify gs://bucket/counter after 2 attempts',
+            );
+        });
+
+        it('modify keeps the gzip encoding', async () => {
+            const memBstore = new BStore({ backend: 'mem://modify' });
+            try {
+                await memBstore.write('gs://bucket/counter', '1', {
+                    compress: true,
+                });
+                await memBstore.modify(
+                    'gs://bucket/counter',
+                    (content) => `${Number(content?.toString()) + 1}`,
+                );
+                const meta = await memBstore.meta('gs://bucket/counter');
+                expect(meta.contentEncoding).toEqual('gzip');
+                expect(
+                    (await memBstore.read('gs://bucket/counter')).toString(),
+                ).toEqual('2');
+            } finally {
+                clearMemoryBackend('mem://modify');
+            }
+        });
+
+        it('modify does not retry other errors', async () => {
+            jest.spyOn(localBstore as any, 'readGeneration').mockRejectedValue(
+                new Error('forbidden'),
+            );
+            await expect(
+                localBstore.modify('gs://bucket/counter', () => 'x'),
+            ).rejects.toThrow('forbidden');
+        });
+    });
+
+    describe('listDirectory and walk', () => {
+        const localBstore = new BStore();
+        const names = [
+            'data/',
+            'data/a.txt',
+            'data/2024/b.csv',
+            'data/2024/01/c.csv',
+            'data/2025/d.csv',
+        ];
+
+        // Emulate the delimiter api, returning prefixes in two pages for data/
+        const getFiles = jest.fn(
+            async (query: {
+                prefix?: string;
+                delimiter?: string;
+                autoPaginate?: boolean;
+                pageToken?: string;
+            }) => {
+                const prefix = query.prefix ?? '';
+                const files: { name: string }[] = [];
+                const prefixes = new Set<string>();
+                for (const name of names) {
+                    if (!name.startsWith(prefix)) continue;
+                    const index = name.indexOf('/', prefix.length);
+                    if (index === -1 || index === name.length - 1) {
+                        files.push({ name });
+                    } else {
+                        prefixes.add(name.substring(0, index + 1));
+                    }
+                }
+                const dirs = [...prefixes];
+                if (prefix === 'data/' && query.pageToken === undefined) {
+                    return [
+                        files,
+                        { ...query, pageToken: 'next' },
+                        {
+                            prefixes: dirs.slice(0, 1),
+                        },
+                    ];
+                } else if (prefix === 'data/') {
+                    return [[], null, { prefixes: dirs.slice(1) }];
+                }
+                return [files, null, { prefixes: dirs }];
+            },
+        );
+
+        beforeEach(() => {
+            getFiles.mockClear();
+            jest.spyOn(localBstore, 'getBucket').mockReturnValue({
+                getFiles,
+            } as any);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('listDirectory returns immediate directories and files', async () => {
+            const listing = await localBstore.listDirectory('gs://bucket/data');
+            expect(listing.directories).toEqual([
+                parseGsPath('gs://bucket/data/2024/'),
+                parseGsPath('gs://bucket/data/2025/'),
+            ]);
+            expect(listing.files).toEqual([
+                parseGsPath('gs://bucket/data/a.txt'),
+            ]);
+            expect(getFiles).toHaveBeenCalledWith({
+                delimiter: '/',
+                autoPaginate: false,
+                prefix: 'data/',
+            });
+        });
+
+        it('listDirectory includes sub directories up to depth', async () => {
+            const listing = await localBstore.listDirectory('gs://bucket/', {
+                depth: 3,
+            });
+            expect(listing.directories.map((dir) => dir.path)).toEqual([
+                'data/',
+                'data/2024/',
+                'data/2025/',
+                'data/2024/01/',
+            ]);
+            expect(listing.files.map((file) => file.path)).toEqual([
+                'data/a.txt',
+                'data/2024/b.csv',
+                'data/2025/d.csv',
+            ]);
+        });
+
+        it('walk visits the tree depth first', async () => {
+            const visited: string[] = [];
+            for await (const entry of localBstore.walk('gs://bucket/data/')) {
+                visited.push(
+                    `${entry.directory.path}:${entry.files.map((f) => f.filename).join(',')}`,
+                );
+            }
+            expect(visited).toEqual([
+                'data/:a.txt',
+                'data/2024/:b.csv',
+                'data/2024/01/:c.csv',
+                'data/2025/:d.csv',
+            ]);
+        });
+
+        it('walk rejects invalid depth', async () => {
+            const iterate = async () => {
+                for await (const _ of localBstore.walk('gs://bucket/data/', {
+                    depth: 0,
+                })) {
+                    // consume
+                }
+            };
+            await expect(iterate()).rejects.toThrow(
+                'Invalid depth of 0 provided',
+            );
+        });
+    });
+
+    describe('sync', () => {
+        const localBstore = new BStore({ backend: 'mem://sync' });
+        let root: string;
+
+        beforeEach(async () => {
+            root = fs.mkdtempSync(
+                nodePath.join(os.tmpdir(), 'gcutils-bstore-'),
+            );
+            fs.mkdirSync(nodePath.join(root, 'sub'));
+            fs.writeFileSync(nodePath.join(root, 'a.txt'), 'a');
+            fs.writeFileSync(nodePath.join(root, 'sub/b.txt'), 'b');
+
+            // a.txt is unchanged, b.txt is changed and c.txt only exists remotely
+            await localBstore.write('gs://sync-bucket/build/a.txt', 'a');
+            await localBstore.write('gs://sync-bucket/build/sub/b.txt', 'x');
+            await localBstore.write('gs://sync-bucket/build/c.txt', 'c');
+        });
+
+        afterEach(() => {
+            fs.rmSync(root, { recursive: true, force: true });
+            clearMemoryBackend('mem://sync');
+            jest.restoreAllMocks();
+        });
+
+        it('upload dry run returns the plan', async () => {
+            const report = await localBstore.sync(
+                root,
+                'gs://sync-bucket/build',
+                { dryRun: true, delete: true },
+            );
+            expect(report.dryRun).toBe(true);
+            expect(report.uploads).toEqual([
+                {
+                    path: 'sub/b.txt',
+                    source: nodePath.join(root, 'sub/b.txt'),
+                    destination: 'gs://sync-bucket/build/sub/b.txt',
+                },
+            ]);
+            expect(report.skips.map((entry) => entry.path)).toEqual(['a.txt']);
+            expect(report.deletions).toEqual(['gs://sync-bucket/build/c.txt']);
+            expect(report.downloads).toEqual([]);
+            await expect(
+                localBstore.read('gs://sync-bucket/build/sub/b.txt'),
+            ).resolves.toEqual(Buffer.from('x'));
+        });
+
+        it('upload writes changed files', async () => {
+            const report = await localBstore.sync(
+                root,
+                'gs://sync-bucket/build/',
+            );
+            expect(report.uploads.map((entry) => entry.path)).toEqual([
+                'sub/b.txt',
+            ]);
+            expect(report.deletions).toEqual([]);
+            await expect(
+                localBstore.read('gs://sync-bucket/build/sub/b.txt'),
+            ).resolves.toEqual(Buffer.from('b'));
+        });
+
+        it('download writes files and deletes extra local files', async () => {
+            fs.writeFileSync(nodePath.join(root, 'extra.txt'), 'extra');
+            const report = await localBstore.sync(
+                'gs://sync-bucket/build/',
+                root,
+                { delete: true, compare: 'md5' },
+            );
+            expect(report.downloads.map((entry) => entry.path)).toEqual([
+                'c.txt',
+                'sub/b.txt',
+            ]);
+            expect(report.deletions).toEqual([
+                nodePath.join(root, 'extra.txt'),
+            ]);
+            expect(report.failed).toEqual([]);
+            expect(
+                fs.readFileSync(nodePath.join(root, 'c.txt')).toString(),
+            ).toEqual('c');
+            expect(fs.existsSync(nodePath.join(root, 'extra.txt'))).toBe(false);
+            expect(fs.readdirSync(root).sort()).toEqual([
+                'a.txt',
+                'c.txt',
+                'sub',
+            ]);
+        });
+
+        it('download keeps gzip objects as stored', async () => {
+            await localBstore.write(
+                'gs://sync-bucket/build/data.json',
+                '{"a":1}',
+                { compress: true },
+            );
+            await localBstore.sync('gs://sync-bucket/build/', root);
+            expect(
+                gunzipSync(
+                    fs.readFileSync(nodePath.join(root, 'data.json')),
+                ).toString(),
+            ).toEqual('{"a":1}');
+
+            // Unchanged compressed objects are not downloaded again
+            const report = await localBstore.sync(
+                'gs://sync-bucket/build/',
+                root,
+            );
+            expect(report.downloads).toEqual([]);
+            expect(report.skips).toHaveLength(4);
+        });
+
+        it('reports the files that could not be compared', async () => {
+            jest.spyOn(checksum, 'computeFileChecksum').mockRejectedValue(
+                new Error('permission denied'),
+            );
+            const report = await localBstore.sync(
+                root,
+                'gs://sync-bucket/build/',
+            );
+            expect(report.uploads).toEqual([]);
+            expect(report.failed).toHaveLength(2);
+            expect(report.failed[0]).toMatchObject({
+                source: nodePath.join(root, 'a.txt'),
+                destination: 'gs://sync-bucket/build/a.txt',
+            });
+            expect(report.failed[0].error.message).toEqual(
+                `Failed to compare ${nodePath.join(root, 'a.txt')} with gs://sync-bucket/build/a.txt`,
+            );
+            await expect(
+                localBstore.read('gs://sync-bucket/build/sub/b.txt'),
+            ).resolves.toEqual(Buffer.from('x'));
+        });
+
+        it('requires one local and one gs path', async () => {
+            await expect(
+                localBstore.sync('gs://a/src', 'gs://b/dest'),
+            ).rejects.toThrow(
+                'BStore.sync requires a local path and a gs path',
+            );
+        });
+    });
+
     it('read propagates error from stream', async () => {
         const localBstore = new BStore();
         // Patch createReadableStream to emit error
@@ -171,21 +936,898 @@ describe('cloud-storage.BStore', () => {
         expect(result.map((f) => f.name)).toEqual(['foo.txt', 'baz.pdf']);
     });
 
+    it('getFiles with glob sets matchGlob and filters', async () => {
+        const files = [
+            { name: 'exports/2024-01.csv' },
+            { name: 'exports/daily/2024-02.csv' },
+            { name: 'exports/daily/2023-12.csv' },
+        ];
+        const bucket = { getFiles: jest.fn().mockResolvedValue([files]) };
+        const testBstore = new TestBStoreForFiles();
+        testBstore.setMockBucket(bucket);
+        const result = await testBstore.getFiles(
+            'gs://bucket/exports/**/2024-*.csv',
+        );
+        expect(result.map((f) => f.name)).toEqual([
+            'exports/2024-01.csv',
+            'exports/daily/2024-02.csv',
+        ]);
+        expect(bucket.getFiles).toHaveBeenCalledWith({
+            prefix: 'exports/',
+            matchGlob: 'exports/**/2024-*.csv',
+        });
+    });
+
+    it('iterateFiles pages and reports the page token', async () => {
+        const pages: { [token: string]: unknown[] } = {
+            first: [
+                [{ name: 'data/a.txt' }, { name: 'data/sub/' }],
+                { pageToken: 'p2' },
+            ],
+            p2: [[{ name: 'data/b.txt' }], null],
+        };
+        const bucket = {
+            getFiles: jest.fn(
+                async (query: GetFilesOptions) =>
+                    pages[query.pageToken ?? 'first'],
+            ),
+        };
+        const testBstore = new TestBStoreForFiles();
+        testBstore.setMockBucket(bucket);
+
+        const tokens: Array<string | undefined> = [];
+        const names: string[] = [];
+        for await (const file of testBstore.iterateFiles('gs://bucket/data/', {
+            pageSize: 2,
+            startOffset: 'data/a',
+            endOffset: 'data/c',
+            onPageToken: (token) => tokens.push(token),
+        })) {
+            names.push(file.name);
+        }
+
+        expect(names).toEqual(['data/a.txt', 'data/b.txt']);
+        expect(tokens).toEqual(['p2', undefined]);
+        expect(bucket.getFiles).toHaveBeenNthCalledWith(1, {
+            autoPaginate: false,
+            prefix: 'data/',
+            maxResults: 2,
+            startOffset: 'data/a',
+            endOffset: 'data/c',
+        });
+        expect(bucket.getFiles).toHaveBeenNthCalledWith(2, { pageToken: 'p2' });
+    });
+
+    it('iterateFiles resumes from page token', async () => {
+        const bucket = { getFiles: jest.fn().mockResolvedValue([[], null]) };
+        const testBstore = new TestBStoreForFiles();
+        testBstore.setMockBucket(bucket);
+
+        for await (const _ of testBstore.iterateFiles('gs://bucket/data/', {
+            pageToken: 'p2',
+        })) {
+            // consume
+        }
+        expect(bucket.getFiles).toHaveBeenCalledWith({
+            autoPaginate: false,
+            prefix: 'data/',
+            pageToken: 'p2',
+        });
+    });
+
     it('processFiles returns all results from action', async () => {
         const files = [{ name: 'a' }, { name: 'b' }];
         bstore.getFiles = jest.fn().mockResolvedValue(files);
-        const result = await bstore.processFiles('gs://bucket/path', (file) =>
+        const report = await bstore.processFiles('gs://bucket/path', (file) =>
             Promise.resolve(file.name + 'X'),
         );
-        expect(result).toEqual(['aX', 'bX']);
+        expect(report.succeeded.map((entry) => entry.result)).toEqual([
+            'aX',
+            'bX',
+        ]);
+        expect(report.succeeded[0].file).toBe(files[0]);
+        expect(report.failed).toEqual([]);
+        expect(report.skipped).toEqual([]);
     });
 
     it('processFiles returns empty array if no files', async () => {
         bstore.getFiles = jest.fn().mockResolvedValue([]);
-        const result = await bstore.processFiles('gs://bucket/path', (file) =>
+        const report = await bstore.processFiles('gs://bucket/path', (file) =>
             Promise.resolve(file.name + 'X'),
         );
-        expect(result).toEqual([]);
+        expect(report.succeeded).toEqual([]);
+    });
+
+    describe('deleteFiles', () => {
+        const bucket = new BStore().getBucket('bucket');
+        const createFile = (name: string, updated: string) =>
+            createMockFile(bucket, name, { updated });
+        const files = [
+            createFile('tmp/', '2024-01-01T00:00:00Z'),
+            createFile('tmp/a.log', '2024-01-01T00:00:00Z'),
+            createFile('tmp/sub/b.log', '2024-06-01T00:00:00Z'),
+            createFile('tmp/sub/c.txt', '2024-01-01T00:00:00Z'),
+        ];
+        const testBstore = new TestBStoreForFiles();
+        const mockBucket = { getFiles: jest.fn() };
+        let remove: jest.SpiedFunction<File['delete']>;
+
+        beforeEach(() => {
+            mockBucket.getFiles.mockReset().mockResolvedValue([files]);
+            testBstore.setMockBucket(mockBucket);
+            remove = jest
+                .spyOn(File.prototype, 'delete')
+                .mockImplementation(function (this: File) {
+                    if (this.name === 'tmp/sub/c.txt') {
+                        return Promise.reject(new Error('delete failed'));
+                    }
+                    return Promise.resolve(deleteResponse());
+                });
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('returns deleted and failed objects', async () => {
+            const report = await testBstore.deleteFiles('gs://bucket/tmp/');
+            expect(report.dryRun).toBe(false);
+            expect(report.deleted).toEqual([
+                'gs://bucket/tmp/',
+                'gs://bucket/tmp/a.log',
+                'gs://bucket/tmp/sub/b.log',
+            ]);
+            expect(report.failed).toHaveLength(1);
+            expect(report.failed[0].path).toEqual('gs://bucket/tmp/sub/c.txt');
+            expect(report.failed[0].error.message).toEqual('delete failed');
+            expect(mockBucket.getFiles).toHaveBeenCalledWith({
+                prefix: 'tmp/',
+            });
+        });
+
+        it('dry run does not delete', async () => {
+            const report = await testBstore.deleteFiles('gs://bucket/tmp/', {
+                dryRun: true,
+            });
+            expect(report.dryRun).toBe(true);
+            expect(report.deleted).toHaveLength(4);
+            expect(remove).not.toHaveBeenCalled();
+        });
+
+        it('filters by glob and age', async () => {
+            const report = await testBstore.deleteFiles(
+                'gs://bucket/tmp/**/*.log',
+                { dryRun: true, olderThan: new Date('2024-03-01T00:00:00Z') },
+            );
+            expect(report.deleted).toEqual(['gs://bucket/tmp/a.log']);
+            expect(mockBucket.getFiles).toHaveBeenCalledWith({
+                prefix: 'tmp/',
+                matchGlob: 'tmp/**/*.log',
+            });
+        });
+
+        it('refuses bucket root unless confirmed', async () => {
+            await expect(
+                testBstore.deleteFiles('gs://bucket/'),
+            ).rejects.toThrow(
+                'Deleting all objects of bucket bucket requires the confirmBucketRoot option',
+            );
+            expect(mockBucket.getFiles).not.toHaveBeenCalled();
+
+            const report = await testBstore.deleteFiles('gs://bucket/', {
+                dryRun: true,
+                confirmBucketRoot: true,
+            });
+            expect(report.deleted).toHaveLength(4);
+            expect(mockBucket.getFiles).toHaveBeenCalledWith({});
+        });
+    });
+
+    describe('processFiles options', () => {
+        const localBstore = new BStore();
+        const files = ['a', 'b', 'c', 'd', 'e'].map((name) => ({ name }));
+
+        beforeEach(() => {
+            jest.spyOn(localBstore, 'getFiles').mockResolvedValue(
+                files as File[],
+            );
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('limits the number of actions in progress', async () => {
+            let inProgress = 0;
+            let maxInProgress = 0;
+            const report = await localBstore.processFiles(
+                'gs://bucket/path',
+                async (file) => {
+                    inProgress++;
+                    maxInProgress = Math.max(maxInProgress, inProgress);
+                    await new Promise((resolve) => setTimeout(resolve, 5));
+                    inProgress--;
+                    return file.name;
+                },
+                { concurrency: 2 },
+            );
+            expect(maxInProgress).toEqual(2);
+            expect(report.succeeded).toHaveLength(5);
+            expect(report.duration).toBeGreaterThanOrEqual(0);
+        });
+
+        it('stops after the first failure by default', async () => {
+            const error = new Error('failed on b');
+            const report = await localBstore.processFiles(
+                'gs://bucket/path',
+                async (file) => {
+                    if (file.name === 'b') throw error;
+                    return file.name;
+                },
+                { concurrency: 1 },
+            );
+            expect(report.succeeded.map((entry) => entry.result)).toEqual([
+                'a',
+            ]);
+            expect(report.failed).toEqual([
+                { file: files[1], error, duration: expect.any(Number) },
+            ]);
+            expect(report.skipped.map((file) => file.name)).toEqual([
+                'c',
+                'd',
+                'e',
+            ]);
+        });
+
+        it('continues on error', async () => {
+            const report = await localBstore.processFiles(
+                'gs://bucket/path',
+                async (file) => {
+                    if (file.name === 'b') throw 'not an error';
+                    return file.name;
+                },
+                { concurrency: 1, continueOnError: true },
+            );
+            expect(report.succeeded).toHaveLength(4);
+            expect(report.failed[0].error).toBeInstanceOf(GCUtilsError);
+            expect(report.failed[0].error.message).toEqual('not an error');
+            expect(report.skipped).toEqual([]);
+        });
+
+        it('stops starting new actions when aborted', async () => {
+            const controller = new AbortController();
+            const report = await localBstore.processFiles(
+                'gs://bucket/path',
+                async (file) => {
+                    if (file.name === 'b') controller.abort();
+                    return file.name;
+                },
+                { concurrency: 1, signal: controller.signal },
+            );
+            expect(report.succeeded.map((entry) => entry.result)).toEqual([
+                'a',
+                'b',
+            ]);
+            expect(report.skipped).toHaveLength(3);
+        });
+    });
+
+    describe('checksum verification', () => {
+        const localBstore = new BStore({ errorHandler: () => undefined });
+        const checksums = {
+            crc32c: '37TmyQ==',
+            md5Hash: 'gKdR/eV3AoZAxBkADjPrpg==',
+        };
+
+        // Mock the upload, setting the metadata of the object upon completion
+        const mockUpload = (metadata: FileMetadata) =>
+            jest
+                .spyOn(File.prototype, 'createWriteStream')
+                .mockImplementation(function (this: File) {
+                    return createUploadStream([], () => {
+                        this.metadata = metadata;
+                    });
+                });
+
+        // Mock the download, emitting the response headers before the content
+        const mockDownload = (headers: object) =>
+            jest
+                .spyOn(File.prototype, 'createReadStream')
+                .mockImplementation(() =>
+                    createDownloadStream('lorem ipsum', headers),
+                );
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('write verifies the checksums of the uploaded object', async () => {
+            mockUpload({ ...checksums, size: 11 });
+            await expect(
+                localBstore.write('gs://bucket/a.txt', 'lorem ipsum'),
+            ).resolves.toMatchObject({ ...checksums, size: 11 });
+
+            mockUpload({ crc32c: 'AAAAAA==' });
+            await expect(
+                localBstore.write('gs://bucket/a.txt', 'lorem ipsum'),
+            ).rejects.toThrow(
+                'crc32c checksum mismatch for gs://bucket/a.txt: expected AAAAAA== but got 37TmyQ==',
+            );
+        });
+
+        it('write skips verification when disabled', async () => {
+            const store = new BStore({ verifyChecksum: false });
+            mockUpload({ crc32c: 'AAAAAA==' });
+            await expect(
+                store.write('gs://bucket/a.txt', 'lorem ipsum'),
+            ).resolves.toMatchObject({ crc32c: 'AAAAAA==' });
+        });
+
+        it('read verifies the x-goog-hash header', async () => {
+            mockDownload({
+                'x-goog-hash': 'crc32c=37TmyQ==,md5=gKdR/eV3AoZAxBkADjPrpg==',
+            });
+            const result = await localBstore.read('gs://bucket/a.txt');
+            expect(result.toString()).toEqual('lorem ipsum');
+
+            mockDownload({ 'x-goog-hash': 'md5=AAAAAAAAAAAAAAAAAAAAAA==' });
+            await expect(localBstore.read('gs://bucket/a.txt')).rejects.toThrow(
+                ChecksumMismatchError,
+            );
+        });
+
+        it('read skips verification of ranges and transcoded content', async () => {
+            const hash = 'md5=AAAAAAAAAAAAAAAAAAAAAA==';
+            mockDownload({
+                'x-goog-hash': hash,
+                'content-range': 'bytes 0-10/20',
+            });
+            await expect(
+                localBstore.read('gs://bucket/a.txt'),
+            ).resolves.toEqual(Buffer.from('lorem ipsum'));
+
+            mockDownload({
+                'x-goog-hash': hash,
+                'x-goog-stored-content-encoding': 'gzip',
+            });
+            await expect(
+                localBstore.read('gs://bucket/a.txt'),
+            ).resolves.toEqual(Buffer.from('lorem ipsum'));
+        });
+
+        it('isSame compares size and checksums', async () => {
+            const getMetadata = jest.spyOn(File.prototype, 'getMetadata');
+
+            getMetadata.mockImplementation(async () =>
+                metadataResponse({ ...checksums, size: '11' }),
+            );
+            await expect(
+                localBstore.isSame(
+                    Buffer.from('lorem ipsum'),
+                    'gs://bucket/a.txt',
+                ),
+            ).resolves.toBe(true);
+            await expect(
+                localBstore.isSame(
+                    Buffer.from('lorem ipsun'),
+                    'gs://bucket/a.txt',
+                ),
+            ).resolves.toBe(false);
+
+            getMetadata.mockImplementation(async () =>
+                metadataResponse({ ...checksums, size: '12' }),
+            );
+            await expect(
+                localBstore.isSame(
+                    Buffer.from('lorem ipsum'),
+                    'gs://bucket/a.txt',
+                ),
+            ).resolves.toBe(false);
+
+            getMetadata.mockImplementation(async () => {
+                throw Object.assign(new Error('not found'), { code: 404 });
+            });
+            await expect(
+                localBstore.isSame(
+                    Buffer.from('lorem ipsum'),
+                    'gs://bucket/a.txt',
+                ),
+            ).resolves.toBe(false);
+        });
+    });
+
+    describe('gzip compression', () => {
+        const localBstore = new BStore({ verifyChecksum: false });
+        const content = 'lorem ipsum dolor sit amet';
+        const gzipped = gzipSync(content);
+
+        // Mock the download of the stored bytes with the response headers
+        const mockDownload = (data: Buffer, headers: object) =>
+            jest
+                .spyOn(File.prototype, 'createReadStream')
+                .mockImplementation(() => createDownloadStream(data, headers));
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('write compresses and sets content encoding', async () => {
+            const chunks: Buffer[] = [];
+            const createWriteStream = jest
+                .spyOn(File.prototype, 'createWriteStream')
+                .mockImplementation(() => createUploadStream(chunks));
+
+            await localBstore.write('gs://bucket/a.txt.gz', content, {
+                compress: true,
+                contentType: 'text/plain',
+            });
+            expect(gunzipSync(Buffer.concat(chunks)).toString()).toEqual(
+                content,
+            );
+            expect(createWriteStream).toHaveBeenCalledWith({
+                contentType: 'text/plain',
+                metadata: { contentEncoding: 'gzip' },
+            });
+        });
+
+        it('read decompresses content with gzip content encoding', async () => {
+            const readStream = mockDownload(gzipped, {
+                'content-encoding': 'gzip',
+            });
+            const result = await localBstore.read('gs://bucket/a.txt');
+            expect(result.toString()).toEqual(content);
+            expect(readStream).toHaveBeenCalledWith({ decompress: false });
+
+            mockDownload(gzipped, { 'content-encoding': 'gzip' });
+            await expect(
+                localBstore.read('gs://bucket/a.txt', { decompress: false }),
+            ).resolves.toEqual(gzipped);
+        });
+
+        it('read detects gzip by magic bytes in decompress mode', async () => {
+            mockDownload(gzipped, {});
+            await expect(localBstore.read('gs://bucket/a.gz')).resolves.toEqual(
+                gzipped,
+            );
+
+            mockDownload(gzipped, {});
+            const result = await localBstore.read('gs://bucket/a.gz', {
+                decompress: true,
+            });
+            expect(result.toString()).toEqual(content);
+
+            mockDownload(Buffer.from(content), {});
+            const plain = await localBstore.read('gs://bucket/a.txt', {
+                decompress: true,
+            });
+            expect(plain.toString()).toEqual(content);
+        });
+
+        it('retrieve decompresses content', async () => {
+            jest.spyOn(File.prototype, 'getMetadata').mockImplementation(
+                async () =>
+                    metadataResponse({
+                        contentType: 'application/gzip',
+                        size: '46',
+                    }),
+            );
+            mockDownload(gzipped, {});
+            const result = await localBstore.retrieve('gs://bucket/a.gz', {
+                decompress: true,
+            });
+            expect(result.buffer.toString()).toEqual(content);
+            expect(result.meta.contentType).toEqual('application/gzip');
+            expect(result.meta.size).toEqual(46);
+        });
+
+        it('read verifies the checksums of the compressed content', async () => {
+            const store = new BStore({ errorHandler: () => undefined });
+            const [good, bad] = await Promise.all([
+                computeChecksum(gzipped),
+                computeChecksum(Buffer.from('x')),
+            ]);
+            const headers = {
+                'content-encoding': 'gzip',
+                'x-goog-stored-content-encoding': 'gzip',
+            };
+
+            mockDownload(gzipped, {
+                ...headers,
+                'x-goog-hash': `crc32c=${good.crc32c}`,
+            });
+            const result = await store.read('gs://bucket/a.txt');
+            expect(result.toString()).toEqual(content);
+
+            mockDownload(gzipped, {
+                ...headers,
+                'x-goog-hash': `crc32c=${bad.crc32c}`,
+            });
+            await expect(store.read('gs://bucket/a.txt')).rejects.toThrow(
+                ChecksumMismatchError,
+            );
+        });
+    });
+
+    describe('byte range', () => {
+        const localBstore = new BStore({ errorHandler: () => undefined });
+        const content = Buffer.from('0123456789');
+        let createReadStream: jest.SpyInstance;
+
+        beforeEach(() => {
+            jest.spyOn(File.prototype, 'getMetadata').mockImplementation(
+                async () => metadataResponse({ size: '10', generation: '42' }),
+            );
+            createReadStream = jest
+                .spyOn(File.prototype, 'createReadStream')
+                .mockImplementation((options) => {
+                    const { start = 0, end = 9 } = options ?? {};
+                    return createDownloadStream(
+                        content.subarray(start, end + 1),
+                        {
+                            'content-range': `bytes ${start}-${end}/10`,
+                            'x-goog-hash': 'crc32c=AAAAAA==',
+                        },
+                    );
+                });
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('readRange reads the range of the pinned generation', async () => {
+            const result = await localBstore.readRange('gs://bucket/a.log', {
+                start: 2,
+                end: 4,
+            });
+            expect(result.toString()).toEqual('234');
+            expect(createReadStream).toHaveBeenCalledWith({
+                decompress: false,
+                start: 2,
+                end: 4,
+            });
+            const pinned = createReadStream.mock.contexts[0] as File;
+            expect(pinned.generation).toEqual(42);
+        });
+
+        it('readRange caps the end and validates the start', async () => {
+            await expect(
+                localBstore.readRange('gs://bucket/a.log', {
+                    start: 8,
+                    end: 20,
+                }),
+            ).resolves.toEqual(Buffer.from('89'));
+            await expect(
+                localBstore.readRange('gs://bucket/a.log', { start: 10 }),
+            ).rejects.toThrow(
+                'Invalid range 10- for gs://bucket/a.log of 10 bytes',
+            );
+        });
+
+        it('head and tail', async () => {
+            await expect(
+                localBstore.head('gs://bucket/a.log', 3),
+            ).resolves.toEqual(Buffer.from('012'));
+            await expect(
+                localBstore.tail('gs://bucket/a.log', 3),
+            ).resolves.toEqual(Buffer.from('789'));
+            await expect(
+                localBstore.tail('gs://bucket/a.log', 20),
+            ).resolves.toEqual(content);
+            await expect(
+                localBstore.tail('gs://bucket/a.log', 0),
+            ).rejects.toThrow(GCUtilsError);
+        });
+
+        it('head of an empty object', async () => {
+            jest.spyOn(File.prototype, 'getMetadata').mockImplementation(
+                async () => metadataResponse({ size: '0', generation: '1' }),
+            );
+            await expect(
+                localBstore.head('gs://bucket/empty.log', 3),
+            ).resolves.toEqual(Buffer.alloc(0));
+            expect(createReadStream).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('metadata', () => {
+        const localBstore = new BStore();
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('meta returns typed metadata', async () => {
+            jest.spyOn(File.prototype, 'getMetadata').mockImplementation(
+                async () =>
+                    metadataResponse({
+                        bucket: 'bucket',
+                        name: 'a.txt',
+                        size: '11',
+                        generation: '1700000000000001',
+                        updated: '2025-01-02T03:04:05.000Z',
+                        metadata: { owner: 'batch' },
+                    }),
+            );
+
+            const meta = await localBstore.meta('gs://bucket/a.txt');
+            expect(meta.size).toEqual(11);
+            expect(meta.generation).toEqual('1700000000000001');
+            expect(meta.updated).toEqual(new Date('2025-01-02T03:04:05.000Z'));
+            expect(meta.metadata).toEqual({ owner: 'batch' });
+        });
+
+        it('setMetadata and setCustomMetadata patch in place', async () => {
+            const setMetadata = jest
+                .spyOn(File.prototype, 'setMetadata')
+                .mockImplementation(async (): Promise<[FileMetadata]> => [
+                    {
+                        size: '11',
+                        contentType: 'text/csv',
+                        metadata: { owner: 'batch' },
+                    },
+                ]);
+
+            const meta = await localBstore.setMetadata('gs://bucket/a.txt', {
+                contentType: 'text/csv',
+                cacheControl: undefined,
+                customTime: new Date('2025-01-02T03:04:05.000Z'),
+            });
+            expect(setMetadata).toHaveBeenCalledWith({
+                contentType: 'text/csv',
+                customTime: '2025-01-02T03:04:05.000Z',
+            });
+            expect(meta.contentType).toEqual('text/csv');
+
+            await localBstore.setCustomMetadata('gs://bucket/a.txt', {
+                owner: 'batch',
+                stale: null,
+            });
+            expect(setMetadata).toHaveBeenLastCalledWith({
+                metadata: { owner: 'batch', stale: null },
+            });
+        });
+    });
+
+    describe('compose and parallelUpload', () => {
+        const localBstore = new BStore();
+        let combine: jest.SpyInstance;
+        let remove: jest.SpyInstance;
+
+        beforeEach(() => {
+            combine = jest
+                .spyOn(Bucket.prototype, 'combine')
+                .mockImplementation(async function (
+                    this: Bucket,
+                    _sources,
+                    destination,
+                ): Promise<CombineResponse> {
+                    return [
+                        typeof destination === 'string'
+                            ? this.file(destination)
+                            : destination,
+                        {},
+                    ];
+                });
+            remove = jest
+                .spyOn(File.prototype, 'delete')
+                .mockImplementation(async () => deleteResponse());
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('compose in a single request', async () => {
+            const file = await localBstore.compose(
+                ['gs://bucket/out/a.csv', 'gs://bucket/out/b.csv'],
+                'gs://bucket/out.csv',
+                { contentType: 'text/csv' },
+            );
+            expect(file.name).toEqual('out.csv');
+            expect(file.metadata.contentType).toEqual('text/csv');
+            expect(combine).toHaveBeenCalledTimes(1);
+            const sources = combine.mock.calls[0][0] as File[];
+            expect(sources.map((source) => source.name)).toEqual([
+                'out/a.csv',
+                'out/b.csv',
+            ]);
+            expect(remove).not.toHaveBeenCalled();
+        });
+
+        it('compose more than 32 sources in rounds', async () => {
+            const sources = Array.from(
+                { length: 70 },
+                (_, index) => `gs://bucket/shards/${index}`,
+            );
+            await localBstore.compose(sources, 'gs://bucket/out.csv');
+
+            // 3 intermediate objects then the destination
+            expect(combine).toHaveBeenCalledTimes(4);
+            const last = combine.mock.calls[3];
+            const intermediates = last[0] as File[];
+            expect(intermediates).toHaveLength(3);
+            expect(intermediates[0].name).toMatch(
+                /^out\.csv\.compose-[0-9a-f]{8}-0-0\.tmp$/,
+            );
+            expect((last[1] as File).name).toEqual('out.csv');
+            expect(remove).toHaveBeenCalledTimes(3);
+            expect(remove).toHaveBeenCalledWith({ ignoreNotFound: true });
+        });
+
+        it('compose deletes intermediate objects upon failure', async () => {
+            combine.mockImplementation((_sources, destination) =>
+                (destination as File).name.endsWith('-1.tmp')
+                    ? Promise.reject(new Error('compose failed'))
+                    : Promise.resolve([destination, {}]),
+            );
+            const sources = Array.from(
+                { length: 40 },
+                (_, index) => `gs://bucket/shards/${index}`,
+            );
+            await expect(
+                localBstore.compose(sources, 'gs://bucket/out.csv'),
+            ).rejects.toThrow(
+                'Failed to compose intermediate objects of gs://bucket/out.csv',
+            );
+            expect(remove).toHaveBeenCalledTimes(2);
+        });
+
+        it('compose rejects sources of another bucket', async () => {
+            await expect(
+                localBstore.compose(
+                    ['gs://bucket/a', 'gs://other/b'],
+                    'gs://bucket/out',
+                ),
+            ).rejects.toThrow(
+                'Cannot compose gs://other/b into gs://bucket/out as sources must be in the same bucket',
+            );
+            expect(combine).not.toHaveBeenCalled();
+        });
+
+        it('parallelUpload uploads parts and composes', async () => {
+            const root = fs.mkdtempSync(
+                nodePath.join(os.tmpdir(), 'gcutils-parallel-'),
+            );
+            const localFile = nodePath.join(root, 'data.txt');
+            fs.writeFileSync(localFile, 'lorem ipsum');
+
+            const uploaded = new Map<string, string>();
+            jest.spyOn(localBstore as any, 'writeData').mockImplementation(
+                async (file: unknown, data: unknown) => {
+                    const chunks: Buffer[] = [];
+                    for await (const chunk of data as Readable) {
+                        chunks.push(chunk);
+                    }
+                    uploaded.set(
+                        (file as File).name,
+                        Buffer.concat(chunks).toString(),
+                    );
+                    return {};
+                },
+            );
+            jest.spyOn(File.prototype, 'getMetadata').mockImplementation(
+                async () => metadataResponse({ crc32c: '37TmyQ==' }),
+            );
+
+            try {
+                const file = await localBstore.parallelUpload(
+                    localFile,
+                    'gs://bucket/data.txt',
+                    { parts: 3 },
+                );
+                expect(file.name).toEqual('data.txt');
+                expect([...uploaded.values()]).toEqual(['lore', 'm ip', 'sum']);
+                const parts = combine.mock.calls[0][0] as File[];
+                expect(parts.map((part) => part.name)).toEqual([
+                    ...uploaded.keys(),
+                ]);
+                expect(remove).toHaveBeenCalledTimes(3);
+
+                // Composed object doesn't match the local file
+                jest.spyOn(File.prototype, 'getMetadata').mockImplementation(
+                    async () => metadataResponse({ crc32c: 'AAAAAA==' }),
+                );
+                await expect(
+                    localBstore.parallelUpload(
+                        localFile,
+                        'gs://bucket/data.txt',
+                        { parts: 3 },
+                    ),
+                ).rejects.toThrow(ChecksumMismatchError);
+            } finally {
+                fs.rmSync(root, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('watch', () => {
+        const localBstore = new BStore();
+        let listings: Array<{ [name: string]: string }>;
+
+        beforeEach(() => {
+            listings = [];
+            jest.spyOn(localBstore as any, 'listFiles').mockImplementation(
+                async () => {
+                    const listing = listings.shift() ?? {};
+                    return Object.entries(listing).map(
+                        ([name, generation]) =>
+                            ({ name, metadata: { generation } }) as File,
+                    );
+                },
+            );
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('watch yields changes between listings', async () => {
+            listings.push(
+                { 'a.txt': '1', 'b.txt': '1' },
+                { 'a.txt': '2', 'b.txt': '1', 'c.txt': '1' },
+                { 'c.txt': '1' },
+            );
+            const controller = new AbortController();
+            const events: string[] = [];
+            for await (const event of localBstore.watch('gs://bucket/in/', {
+                interval: 1,
+                events: ['created', 'deleted'],
+                signal: controller.signal,
+            })) {
+                events.push(`${event.type} ${event.gs.path}`);
+                if (events.length === 3) {
+                    controller.abort();
+                }
+            }
+            expect(events).toEqual([
+                'created c.txt',
+                'deleted a.txt',
+                'deleted b.txt',
+            ]);
+        });
+
+        it('pollChanges resumes from checkpoint', async () => {
+            let saved: { [name: string]: string } | undefined;
+            const checkpoint = {
+                load: async () => saved,
+                save: jest.fn(async (snapshot: { [name: string]: string }) => {
+                    saved = snapshot;
+                }),
+            };
+            listings.push(
+                { 'a.txt': '1' },
+                { 'a.txt': '1' },
+                { 'a.txt': '1', 'b.txt': '1' },
+            );
+
+            // First poll only records the existing objects
+            await expect(
+                localBstore.pollChanges('gs://bucket/in/', { checkpoint }),
+            ).resolves.toEqual([]);
+            expect(saved).toEqual({ 'a.txt': '1' });
+
+            // Unchanged listing is not saved again
+            await expect(
+                localBstore.pollChanges('gs://bucket/in/', { checkpoint }),
+            ).resolves.toEqual([]);
+            expect(checkpoint.save).toHaveBeenCalledTimes(1);
+
+            const events = await localBstore.pollChanges('gs://bucket/in/', {
+                checkpoint,
+            });
+            expect(events.map((event) => event.gs.path)).toEqual(['b.txt']);
+            expect(saved).toEqual({ 'a.txt': '1', 'b.txt': '1' });
+        });
+
+        it('pollChanges emits existing objects', async () => {
+            listings.push({ 'a.txt': '1' });
+            const events = await localBstore.pollChanges('gs://bucket/in/', {
+                emitExisting: true,
+            });
+            expect(events).toHaveLength(1);
+            expect(events[0]).toHaveProperty('type', 'created');
+        });
     });
 });
 
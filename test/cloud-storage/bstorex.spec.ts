@@ -1,7 +1,24 @@
-import { expect, allValuesFrom } from '../testlib';
+import {
+    expect,
+    allValuesFrom,
+    createDownloadStream,
+    metadataResponse,
+} from '../testlib';
 
 import * as fs from 'fs';
-import { map, lastValueFrom, mergeMap, throwError, Subscriber } from 'rxjs';
+import {
+    from,
+    map,
+    lastValueFrom,
+    mergeMap,
+    of,
+    throwError,
+    Subscriber,
+    take,
+    toArray,
+} from 'rxjs';
+import { File } from '@google-cloud/storage';
+import { Readable, Writable } from 'stream';
 import { BStoreRx } from '@fp8proj/cloud-storage';
 
 const BUCKET_NAME = process.env.GCUTILS_TEST_BUCKET;
@@ -106,6 +123,31 @@ describe('cloud-storage.BStore', () => {
         expect(action).toHaveBeenCalledTimes(2);
     });
 
+    it('processFiles runs async actions with concurrency', async () => {
+        const localBstore = new BStoreRx();
+        const files = ['a', 'b', 'c'].map((name) => ({ name }));
+        jest.spyOn(localBstore, 'getFiles').mockReturnValue(
+            from(files as File[]),
+        );
+
+        let inProgress = 0;
+        let maxInProgress = 0;
+        const obs = localBstore.processFiles(
+            gspathDirectory,
+            async (file) => {
+                inProgress++;
+                maxInProgress = Math.max(maxInProgress, inProgress);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                inProgress--;
+                return file.name;
+            },
+            { concurrency: 2 },
+        );
+        const result = await allValuesFrom(obs);
+        expect(result.sort()).toEqual(['a', 'b', 'c']);
+        expect(maxInProgress).toEqual(2);
+    });
+
     it('exists', (done) => {
         const testFile = `gs://${BUCKET_NAME}/public/file-does-not-exists.txt`;
 
@@ -144,7 +186,7 @@ describe('cloud-storage.BStore', () => {
         );
 
         // console.log('# META', meta);
-        expect(meta.size).toEqual('50');
+        expect(meta.size).toEqual(50);
         expect(meta.md5Hash).toEqual('APHDaTQ9kqp8Uk4ITMsRkw==');
 
         // Now delete the file
@@ -154,6 +196,128 @@ describe('cloud-storage.BStore', () => {
         expect(found).toBeFalsy();
     });
 
+    it('write emits metadata of written object', async () => {
+        const localBstore = new BStoreRx();
+        const written: string[] = [];
+        jest.spyOn(localBstore as any, 'getBlob').mockReturnValue({
+            metadata: { name: 'file', contentType: 'text/plain' },
+            createWriteStream: () =>
+                new Writable({
+                    write(chunk, _encoding, callback) {
+                        written.push(chunk.toString());
+                        callback();
+                    },
+                }),
+        });
+
+        const obs = localBstore.write('gs://bucket/file', 'lorem ipsum', {
+            contentType: 'text/plain',
+        });
+        // Nothing should be written until subscribed
+        expect(written).toEqual([]);
+
+        const meta = await lastValueFrom(obs);
+        expect(written).toEqual(['lorem ipsum']);
+        expect(meta).toHaveProperty('contentType', 'text/plain');
+    });
+
+    it('readJson parses content and names path on error', async () => {
+        const localBstore = new BStoreRx();
+        const read = jest.spyOn(localBstore, 'read');
+
+        read.mockReturnValue(of(Buffer.from('[1,2,3]')));
+        const result = await lastValueFrom(
+            localBstore.readJson<number[]>('gs://bucket/list.json'),
+        );
+        expect(result).toEqual([1, 2, 3]);
+
+        read.mockReturnValue(of(Buffer.from('not json')));
+        await expect(
+            lastValueFrom(localBstore.readJson('gs://bucket/list.json')),
+        ).rejects.toThrow('Failed to parse JSON from gs://bucket/list.json');
+    });
+
+    it('readLines and readCsv emit entries', async () => {
+        const localBstore = new BStoreRx();
+        const createReadableStream = jest.spyOn(
+            localBstore,
+            'createReadableStream',
+        );
+
+        createReadableStream.mockReturnValue(Readable.from(['a\nb', '\nc']));
+        const lines = await allValuesFrom(
+            localBstore.readLines('gs://bucket/a.txt'),
+        );
+        expect(lines).toEqual(['a', 'b', 'c']);
+
+        createReadableStream.mockReturnValue(Readable.from(['x|y\n1|2\n']));
+        const records = await allValuesFrom(
+            localBstore.readCsv('gs://bucket/a.csv', {
+                delimiter: '|',
+                headers: ['first', 'second'],
+            }),
+        );
+        expect(records).toEqual([
+            { first: 'x', second: 'y' },
+            { first: '1', second: '2' },
+        ]);
+    });
+
+    it('copyPrefix emits transfer report', async () => {
+        const localBstore = new BStoreRx();
+        const report = { succeeded: [], failed: [] };
+        const transferPrefix = jest
+            .spyOn(localBstore as any, 'transferPrefix')
+            .mockResolvedValue(report);
+
+        const obs = localBstore.copyPrefix('gs://a/src/', 'gs://b/dest/');
+        expect(transferPrefix).not.toHaveBeenCalled();
+        await expect(lastValueFrom(obs)).resolves.toBe(report);
+        expect(transferPrefix).toHaveBeenCalledWith(
+            'gs://a/src/',
+            'gs://b/dest/',
+            false,
+            undefined,
+        );
+    });
+
+    it('modify emits metadata of the written object', async () => {
+        const localBstore = new BStoreRx();
+        const modifyBlob = jest
+            .spyOn(localBstore as any, 'modifyBlob')
+            .mockResolvedValue({ generation: '2' });
+        const fn = () => 'data';
+
+        const obs = localBstore.modify('gs://a/counter', fn);
+        expect(modifyBlob).not.toHaveBeenCalled();
+        await expect(lastValueFrom(obs)).resolves.toEqual({ generation: '2' });
+        expect(modifyBlob).toHaveBeenCalledWith(
+            'gs://a/counter',
+            fn,
+            undefined,
+        );
+    });
+
+    it('walk emits each directory', async () => {
+        const localBstore = new BStoreRx();
+        const listDelimited = jest
+            .spyOn(localBstore as any, 'listDelimited')
+            .mockImplementation(async (_bucket, prefix) =>
+                prefix === 'a/'
+                    ? {
+                          directories: [{ bucket: 'b', path: 'a/c/' }],
+                          files: [],
+                      }
+                    : { directories: [], files: [] },
+            );
+
+        const obs = localBstore
+            .walk('gs://b/a/')
+            .pipe(map((entry) => entry.directory.path));
+        expect(listDelimited).not.toHaveBeenCalled();
+        await expect(allValuesFrom(obs)).resolves.toEqual(['a/', 'a/c/']);
+    });
+
     it('getFiles logs prefix and filters directories', async () => {
         const publicPath = gspathDirectory;
         const obs = bstore.getFiles(publicPath).pipe(map((file) => file.name));
@@ -164,10 +328,78 @@ describe('cloud-storage.BStore', () => {
         ]);
     });
 
-    it('deleteFiles logs prefix and handles no path error', () => {
-        expect(() =>
-            // @ts-expect-error purposely passing invalid object
-            bstore.deleteFiles({ bucket: BUCKET_NAME }),
-        ).toThrow(/Invalid gsuri passed to generateGsPath/);
+    it('deleteFiles logs prefix and handles no path error', async () => {
+        await expect(
+            lastValueFrom(
+                // @ts-expect-error purposely passing invalid object
+                bstore.deleteFiles({ bucket: BUCKET_NAME }),
+            ),
+        ).rejects.toThrow(/requires the confirmBucketRoot option/);
+    });
+
+    it('deleteFiles emits the report', async () => {
+        const localBstore = new BStoreRx();
+        const report = { dryRun: true, deleted: ['gs://a/tmp/x'], failed: [] };
+        const deleteFileList = jest
+            .spyOn(localBstore as any, 'deleteFileList')
+            .mockResolvedValue(report);
+
+        const obs = localBstore.deleteFiles('gs://a/tmp/', { dryRun: true });
+        expect(deleteFileList).not.toHaveBeenCalled();
+        await expect(lastValueFrom(obs)).resolves.toBe(report);
+        expect(deleteFileList).toHaveBeenCalledWith('gs://a/tmp/', {
+            dryRun: true,
+        });
+    });
+
+    it('tail', async () => {
+        const bstoreTail = new BStoreRx();
+        jest.spyOn(File.prototype, 'getMetadata').mockImplementation(async () =>
+            metadataResponse({ size: '11', generation: '1' }),
+        );
+        const createReadStream = jest
+            .spyOn(File.prototype, 'createReadStream')
+            .mockImplementation(() => createDownloadStream('ipsum'));
+
+        const result = await lastValueFrom(
+            bstoreTail.tail(gspathSampleFile, 5),
+        );
+        expect(result.toString()).toEqual('ipsum');
+        expect(createReadStream).toHaveBeenCalledWith({
+            decompress: false,
+            start: 6,
+            end: 10,
+        });
+        jest.restoreAllMocks();
+    });
+
+    it('watch', async () => {
+        const bstoreWatch = new BStoreRx();
+        const listings = [{ 'a.txt': '1' }, { 'a.txt': '2' }, {}];
+        jest.spyOn(bstoreWatch as any, 'listFiles').mockImplementation(
+            async () =>
+                Object.entries(listings.shift() ?? {}).map(
+                    ([name, generation]) =>
+                        ({ name, metadata: { generation } }) as File,
+                ),
+        );
+        const save = jest.fn(
+            async (_snapshot: { [name: string]: string }) => undefined,
+        );
+
+        const events = await lastValueFrom(
+            bstoreWatch
+                .watch('gs://bucket/in/', {
+                    interval: 1,
+                    checkpoint: { load: async () => undefined, save },
+                })
+                .pipe(take(2), toArray()),
+        );
+        expect(events.map((event) => event.type)).toEqual([
+            'updated',
+            'deleted',
+        ]);
+        expect(save).toHaveBeenCalledWith({ 'a.txt': '1' });
+        jest.restoreAllMocks();
     });
 });
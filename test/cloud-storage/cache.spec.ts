@@ -0,0 +1,183 @@
+import { expect } from '../testlib';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import {
+    BStore,
+    clearMemoryBackend,
+    IReadCacheOptions,
+} from '@fp8proj/cloud-storage';
+import { LocalFile } from '@fp8proj/cloud-storage/local-storage';
+
+const BACKEND = 'mem://cache';
+const GSPATH = 'gs://bucket/config/app.json';
+
+describe('cloud-storage.cache', () => {
+    let tempDir: string;
+
+    const createBStore = (cache: IReadCacheOptions = {}) =>
+        new BStore({ backend: BACKEND, cache });
+
+    beforeEach(async () => {
+        tempDir = await fs.promises.mkdtemp(
+            nodePath.join(os.tmpdir(), 'gcutils-cache-'),
+        );
+        await new BStore({ backend: BACKEND }).write(GSPATH, '{"v":1}');
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        clearMemoryBackend(BACKEND);
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('no cache by default', async () => {
+        const bstore = new BStore({ backend: BACKEND });
+        expect((await bstore.read(GSPATH)).toString()).toBe('{"v":1}');
+        expect(bstore.cacheStats()).toBeUndefined();
+    });
+
+    it('revalidate every read without ttl', async () => {
+        const bstore = createBStore();
+        const other = new BStore({ backend: BACKEND });
+        const createReadStream = jest.spyOn(
+            LocalFile.prototype,
+            'createReadStream',
+        );
+
+        expect((await bstore.read(GSPATH)).toString()).toBe('{"v":1}');
+        expect((await bstore.read(GSPATH)).toString()).toBe('{"v":1}');
+        expect(createReadStream).toHaveBeenCalledTimes(1);
+
+        // Change made elsewhere is detected by the revalidation
+        await other.write(GSPATH, '{"v":2}');
+        expect((await bstore.read(GSPATH)).toString()).toBe('{"v":2}');
+        expect(bstore.cacheStats()).toEqual({
+            hits: 1,
+            misses: 2,
+            revalidations: 3,
+            evictions: 0,
+            entries: 2,
+            bytes: 14,
+        });
+    });
+
+    it('trust the live generation within ttl', async () => {
+        const bstore = createBStore({ ttl: 60000 });
+        const other = new BStore({ backend: BACKEND });
+        const getMetadata = jest.spyOn(LocalFile.prototype, 'getMetadata');
+
+        await bstore.read(GSPATH);
+        await other.write(GSPATH, '{"v":2}');
+        expect((await bstore.read(GSPATH)).toString()).toBe('{"v":1}');
+        expect(getMetadata).toHaveBeenCalledTimes(1);
+
+        // Write through the same BStore is seen immediately
+        await bstore.write(GSPATH, '{"v":3}');
+        expect((await bstore.read(GSPATH)).toString()).toBe('{"v":3}');
+    });
+
+    it('retrieve', async () => {
+        const bstore = createBStore({ ttl: 60000 });
+        const first = await bstore.retrieve(GSPATH);
+        const second = await bstore.retrieve(GSPATH);
+        expect(second.buffer.toString()).toBe('{"v":1}');
+        expect(second.meta.generation).toBe(first.meta.generation);
+        expect(second.gs.path).toBe('config/app.json');
+        expect(bstore.cacheStats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it('keep the content cached unchanged', async () => {
+        const bstore = createBStore({ ttl: 60000 });
+        const buffer = await bstore.read(GSPATH);
+        buffer.write('xxx');
+        expect((await bstore.read(GSPATH)).toString()).toBe('{"v":1}');
+    });
+
+    it('pinned generation and ranges', async () => {
+        const bstore = createBStore();
+        const meta = await bstore.meta(GSPATH);
+        await bstore.read(`${GSPATH}#${meta.generation}`);
+        await bstore.read(`${GSPATH}#${meta.generation}`);
+        // Generation never changes so it is not revalidated
+        expect(bstore.cacheStats()).toMatchObject({
+            hits: 1,
+            misses: 1,
+            revalidations: 1,
+        });
+
+        expect(
+            (await bstore.read(GSPATH, { start: 1, end: 3 })).toString(),
+        ).toBe('"v"');
+        expect(bstore.cacheStats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it('evict the least recently read within maxBytes', async () => {
+        const bstore = createBStore({ maxBytes: 16, maxEntryBytes: 10 });
+        await bstore.write('gs://bucket/a.txt', '12345678');
+        await bstore.write('gs://bucket/b.txt', '12345678');
+        await bstore.write('gs://bucket/large.txt', '12345678901');
+
+        await bstore.read('gs://bucket/a.txt');
+        await bstore.read('gs://bucket/b.txt');
+        await bstore.read('gs://bucket/a.txt');
+        await bstore.read('gs://bucket/large.txt');
+        expect(bstore.cacheStats()).toMatchObject({
+            hits: 1,
+            misses: 3,
+            evictions: 0,
+            entries: 2,
+            bytes: 16,
+        });
+
+        await bstore.write('gs://bucket/c.txt', '1234');
+        await bstore.read('gs://bucket/c.txt');
+        expect(bstore.cacheStats()).toMatchObject({
+            evictions: 1,
+            entries: 2,
+            bytes: 12,
+        });
+        // b.txt was the least recently read
+        await bstore.read('gs://bucket/a.txt');
+        expect(bstore.cacheStats()).toMatchObject({ hits: 2, misses: 4 });
+    });
+
+    it('share the cache directory', async () => {
+        const directory = nodePath.join(tempDir, 'cache');
+        await createBStore({ directory }).read(GSPATH);
+
+        const bstore = createBStore({ directory });
+        const createReadStream = jest.spyOn(
+            LocalFile.prototype,
+            'createReadStream',
+        );
+        expect((await bstore.read(GSPATH)).toString()).toBe('{"v":1}');
+        expect(createReadStream).not.toHaveBeenCalled();
+        expect(bstore.cacheStats()).toMatchObject({ hits: 1, misses: 0 });
+
+        await bstore.clearCache();
+        expect(fs.existsSync(directory)).toBe(false);
+        expect(bstore.cacheStats()).toMatchObject({ entries: 0, bytes: 0 });
+    });
+
+    it('read a pinned generation from the cache directory', async () => {
+        const directory = nodePath.join(tempDir, 'cache');
+        const meta = await new BStore({ backend: BACKEND }).meta(GSPATH);
+        const pinned = `${GSPATH}#${meta.generation}`;
+        await createBStore({ directory }).read(pinned);
+
+        const bstore = createBStore({ directory });
+        const getMetadata = jest.spyOn(LocalFile.prototype, 'getMetadata');
+        const result = await bstore.retrieve(pinned);
+        expect(result.buffer.toString()).toBe('{"v":1}');
+        expect(result.meta.generation).toBe(meta.generation);
+        expect(result.meta.updated).toEqual(meta.updated);
+        expect(getMetadata).not.toHaveBeenCalled();
+        expect(bstore.cacheStats()).toMatchObject({
+            hits: 1,
+            misses: 0,
+            revalidations: 0,
+        });
+    });
+});
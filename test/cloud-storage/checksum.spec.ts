@@ -0,0 +1,98 @@
+import { expect } from '../testlib';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { computeChecksum } from '@fp8proj/cloud-storage';
+import {
+    createChecksumStream,
+    createChecksumVerifier,
+    parseGoogHash,
+    verifyChecksums,
+} from '@fp8proj/cloud-storage/checksum';
+import { ChecksumMismatchError } from '@fp8proj/core';
+
+describe('cloud-storage.checksum', () => {
+    const expected = { crc32c: '37TmyQ==', md5: 'gKdR/eV3AoZAxBkADjPrpg==' };
+
+    it('computeChecksum of Buffer and file', async () => {
+        const root = fs.mkdtempSync(
+            nodePath.join(os.tmpdir(), 'gcutils-checksum-'),
+        );
+        try {
+            const localPath = nodePath.join(root, 'a.txt');
+            fs.writeFileSync(localPath, 'lorem ipsum');
+
+            await expect(
+                computeChecksum(Buffer.from('lorem ipsum')),
+            ).resolves.toEqual(expected);
+            await expect(computeChecksum(localPath)).resolves.toEqual(expected);
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+
+    it('parseGoogHash', () => {
+        expect(
+            parseGoogHash('crc32c=37TmyQ==,md5=gKdR/eV3AoZAxBkADjPrpg=='),
+        ).toEqual(expected);
+        expect(parseGoogHash(['crc32c=37TmyQ==', 'md5=x=='])).toEqual({
+            crc32c: '37TmyQ==',
+            md5: 'x==',
+        });
+        expect(parseGoogHash(undefined)).toEqual({});
+    });
+
+    it('verifyChecksums', () => {
+        expect(verifyChecksums('gs://b/a', expected, expected)).toBeUndefined();
+        // Missing algorithms are not compared
+        expect(
+            verifyChecksums('gs://b/a', { md5: expected.md5 }, { crc32c: 'x' }),
+        ).toBeUndefined();
+
+        const error = verifyChecksums('gs://b/a', expected, {
+            crc32c: 'AAAAAA==',
+        });
+        expect(error).toBeInstanceOf(ChecksumMismatchError);
+        expect(error?.algorithm).toEqual('crc32c');
+        expect(error?.message).toEqual(
+            'crc32c checksum mismatch for gs://b/a: expected 37TmyQ== but got AAAAAA==',
+        );
+    });
+
+    it('createChecksumStream', async () => {
+        const checksum = createChecksumStream();
+        const chunks: Buffer[] = [];
+        await pipeline(
+            Readable.from([Buffer.from('lorem '), Buffer.from('ipsum')]),
+            checksum.stream,
+            async function (source: AsyncIterable<Buffer>) {
+                for await (const chunk of source) {
+                    chunks.push(chunk);
+                }
+            },
+        );
+        expect(Buffer.concat(chunks).toString()).toEqual('lorem ipsum');
+        expect(checksum.digest()).toEqual(expected);
+    });
+
+    it('createChecksumVerifier', async () => {
+        const read = (getExpected: () => object | undefined) =>
+            pipeline(
+                Readable.from([Buffer.from('lorem ipsum')]),
+                createChecksumVerifier('gs://b/a', getExpected),
+                async function (source: AsyncIterable<Buffer>) {
+                    for await (const _ of source) {
+                        // consume
+                    }
+                },
+            );
+
+        await expect(read(() => expected)).resolves.toBeUndefined();
+        await expect(read(() => undefined)).resolves.toBeUndefined();
+        await expect(
+            read(() => ({ md5: 'AAAAAAAAAAAAAAAAAAAAAA==' })),
+        ).rejects.toThrow(ChecksumMismatchError);
+    });
+});
@@ -0,0 +1,33 @@
+import { expect } from '../testlib';
+import {
+    chunkItems,
+    createTempName,
+    splitIntoParts,
+} from '@fp8proj/cloud-storage/compose';
+
+describe('cloud-storage.compose', () => {
+    it('chunkItems', () => {
+        expect(chunkItems([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+        expect(chunkItems([], 2)).toEqual([]);
+    });
+
+    it('splitIntoParts', () => {
+        expect(splitIntoParts(10, 3)).toEqual([
+            { start: 0, end: 3 },
+            { start: 4, end: 7 },
+            { start: 8, end: 9 },
+        ]);
+        expect(splitIntoParts(2, 8)).toEqual([
+            { start: 0, end: 0 },
+            { start: 1, end: 1 },
+        ]);
+        expect(splitIntoParts(10, 1)).toEqual([{ start: 0, end: 9 }]);
+        expect(splitIntoParts(0, 4)).toEqual([]);
+    });
+
+    it('createTempName', () => {
+        expect(createTempName('out/data.csv', 'part-ab12', 3)).toEqual(
+            'out/data.csv.part-ab12-3.tmp',
+        );
+    });
+});
@@ -0,0 +1,76 @@
+import { expect } from '../testlib';
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import {
+    createDecompressStream,
+    isGzip,
+} from '@fp8proj/cloud-storage/compression';
+
+describe('cloud-storage.compression', () => {
+    const content = 'lorem ipsum dolor sit amet';
+
+    async function readAll(
+        chunks: Buffer[],
+        shouldDecompress: (head: Buffer) => boolean,
+    ): Promise<string> {
+        const result: Buffer[] = [];
+        const stream = Readable.from(chunks).pipe(
+            createDecompressStream(shouldDecompress),
+        );
+        for await (const chunk of stream) {
+            result.push(chunk as Buffer);
+        }
+        return Buffer.concat(result).toString();
+    }
+
+    it('isGzip', () => {
+        expect(isGzip(gzipSync(content))).toBe(true);
+        expect(isGzip(Buffer.from(content))).toBe(false);
+        expect(isGzip(Buffer.from([0x1f]))).toBe(false);
+    });
+
+    it('createDecompressStream decompresses split chunks', async () => {
+        const gzipped = gzipSync(content);
+        const chunks = [
+            gzipped.subarray(0, 1),
+            gzipped.subarray(1, 10),
+            gzipped.subarray(10),
+        ];
+        await expect(readAll(chunks, isGzip)).resolves.toEqual(content);
+    });
+
+    it('createDecompressStream passes through', async () => {
+        const shouldDecompress = jest.fn((_head: Buffer) => false);
+        const chunks = [Buffer.from('l'), Buffer.from('orem')];
+        await expect(readAll(chunks, shouldDecompress)).resolves.toEqual(
+            'lorem',
+        );
+        expect(shouldDecompress).toHaveBeenCalledWith(Buffer.from('lorem'));
+
+        // Content shorter than the magic bytes
+        await expect(readAll([Buffer.from('a')], isGzip)).resolves.toEqual('a');
+        await expect(readAll([], isGzip)).resolves.toEqual('');
+    });
+
+    it('createDecompressStream pauses gunzip while not read', async () => {
+        const size = 8 * 1024 * 1024;
+        const stream = createDecompressStream(isGzip);
+        stream.end(gzipSync(Buffer.alloc(size)));
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(stream.readableLength).toBeLessThan(1024 * 1024);
+
+        let length = 0;
+        for await (const chunk of stream) {
+            length += (chunk as Buffer).length;
+        }
+        expect(length).toEqual(size);
+    });
+
+    it('createDecompressStream errors on invalid gzip', async () => {
+        const invalid = Buffer.concat([
+            Buffer.from([0x1f, 0x8b]),
+            Buffer.from('invalid'),
+        ]);
+        await expect(readAll([invalid], () => true)).rejects.toThrow();
+    });
+});
@@ -0,0 +1,242 @@
+import { expect } from '../testlib';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import { Readable } from 'stream';
+import { lastValueFrom } from 'rxjs';
+import {
+    BStore,
+    BStoreRx,
+    clearMemoryBackend,
+    lookupContentType,
+    sniffContentType,
+} from '@fp8proj/cloud-storage';
+import { LocalFile } from '@fp8proj/cloud-storage/local-storage';
+import {
+    mergeContentTypes,
+    peekStream,
+} from '@fp8proj/cloud-storage/content-type';
+
+const BACKEND = 'mem://content-type';
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]);
+
+describe('cloud-storage.content-type', () => {
+    let bstore: BStore;
+
+    const contentTypeOf = async (gspath: string) =>
+        (await bstore.meta(gspath)).contentType;
+
+    beforeEach(() => {
+        bstore = new BStore({ backend: BACKEND });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        clearMemoryBackend(BACKEND);
+    });
+
+    it('lookupContentType', () => {
+        expect(lookupContentType('.csv')).toBe('text/csv');
+        expect(lookupContentType('.JSON')).toBe('application/json');
+        expect(lookupContentType('.unknown')).toBeUndefined();
+        expect(lookupContentType('')).toBeUndefined();
+
+        const contentTypes = mergeContentTypes({
+            sql: 'application/sql',
+            '.CSV': 'application/csv',
+        });
+        expect(lookupContentType('.sql', contentTypes)).toBe('application/sql');
+        expect(lookupContentType('.csv', contentTypes)).toBe('application/csv');
+    });
+
+    it('sniffContentType', () => {
+        expect(sniffContentType(PNG)).toBe('image/png');
+        expect(sniffContentType(Buffer.from('%PDF-1.7\n'))).toBe(
+            'application/pdf',
+        );
+        expect(sniffContentType(Buffer.from([0x1f, 0x8b, 8]))).toBe(
+            'application/gzip',
+        );
+        const tar = Buffer.alloc(512);
+        tar.write('ustar', 257, 'latin1');
+        expect(sniffContentType(tar)).toBe('application/x-tar');
+
+        expect(sniffContentType(Buffer.from(' {"a": [1, 2]}'))).toBe(
+            'application/json',
+        );
+        // Truncated JSON is only known to be text
+        expect(sniffContentType(Buffer.from('{"a": [1,'))).toBe('text/plain');
+        expect(sniffContentType(Buffer.from('<?xml version="1.0"?>'))).toBe(
+            'application/xml',
+        );
+        expect(sniffContentType(Buffer.from('<!DOCTYPE html><html>'))).toBe(
+            'text/html',
+        );
+        // Character cut at the end of the chunk
+        expect(sniffContentType(Buffer.from('héllo').subarray(0, 2))).toBe(
+            'text/plain',
+        );
+        expect(sniffContentType(Buffer.from([0, 1, 2, 3]))).toBeUndefined();
+        expect(sniffContentType(Buffer.alloc(0))).toBeUndefined();
+    });
+
+    it('peekStream', async () => {
+        const { head, stream } = await peekStream(
+            Readable.from([Buffer.from('ab'), Buffer.from('cd')]),
+        );
+        expect(head.toString()).toBe('ab');
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) {
+            chunks.push(chunk as Buffer);
+        }
+        expect(Buffer.concat(chunks).toString()).toBe('abcd');
+
+        const empty = await peekStream(Readable.from([]));
+        expect(empty.head.length).toBe(0);
+    });
+
+    it('write with content type from extension or content', async () => {
+        await bstore.write('gs://bucket/data/rows.csv', 'a,b\n1,2\n');
+        await bstore.write('gs://bucket/data/image', PNG);
+        await bstore.write(
+            'gs://bucket/data/stream',
+            Readable.from([Buffer.from('%PDF-1.7\n'), Buffer.from('...')]),
+        );
+        await bstore.write('gs://bucket/data/blob.bin', Buffer.from([0, 1]));
+        await bstore.write('gs://bucket/data/typed.csv', 'a', {
+            contentType: 'text/plain',
+        });
+
+        expect(await contentTypeOf('gs://bucket/data/rows.csv')).toBe(
+            'text/csv',
+        );
+        expect(await contentTypeOf('gs://bucket/data/image')).toBe('image/png');
+        expect(await contentTypeOf('gs://bucket/data/stream')).toBe(
+            'application/pdf',
+        );
+        expect((await bstore.read('gs://bucket/data/stream')).toString()).toBe(
+            '%PDF-1.7\n...',
+        );
+        expect(await contentTypeOf('gs://bucket/data/blob.bin')).toBe(
+            'application/octet-stream',
+        );
+        expect(await contentTypeOf('gs://bucket/data/typed.csv')).toBe(
+            'text/plain',
+        );
+    });
+
+    it('createWriteableStream and BStoreRx', async () => {
+        await new Promise((resolve, reject) =>
+            bstore
+                .createWriteableStream('gs://bucket/page.html')
+                .on('finish', resolve)
+                .on('error', reject)
+                .end('<html></html>'),
+        );
+        expect(await contentTypeOf('gs://bucket/page.html')).toBe('text/html');
+
+        const bstoreRx = new BStoreRx({
+            backend: BACKEND,
+            contentTypes: { '.sql': 'application/sql' },
+        });
+        await lastValueFrom(bstoreRx.write('gs://bucket/query.sql', 'SELECT'));
+        expect(await contentTypeOf('gs://bucket/query.sql')).toBe(
+            'application/sql',
+        );
+    });
+
+    it('detectContentType disabled', async () => {
+        const plain = new BStore({
+            backend: BACKEND,
+            detectContentType: false,
+        });
+        await plain.write('gs://bucket/rows.csv', 'a,b\n');
+        expect(await contentTypeOf('gs://bucket/rows.csv')).toBe(
+            'application/octet-stream',
+        );
+    });
+
+    it('upload with content type from the local file', async () => {
+        const tempDir = await fs.promises.mkdtemp(
+            nodePath.join(os.tmpdir(), 'gcutils-content-type-'),
+        );
+        try {
+            const localPath = nodePath.join(tempDir, 'export');
+            await fs.promises.writeFile(localPath, '[1, 2, 3]');
+            await bstore.upload(localPath, 'gs://bucket/export');
+            expect(await contentTypeOf('gs://bucket/export')).toBe(
+                'application/json',
+            );
+        } finally {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    it('fixContentTypes', async () => {
+        const plain = new BStore({
+            backend: BACKEND,
+            detectContentType: false,
+        });
+        await plain.write('gs://bucket/fix/rows.csv', 'a,b\n');
+        await plain.write('gs://bucket/fix/image', PNG);
+        await plain.write('gs://bucket/fix/blob', Buffer.from([0, 1]));
+        await plain.write('gs://bucket/fix/typed.csv', 'a', {
+            contentType: 'text/plain',
+        });
+        await plain.write('gs://bucket/other.csv', 'a');
+
+        const dryRun = await bstore.fixContentTypes('gs://bucket/fix/', {
+            dryRun: true,
+        });
+        expect(dryRun).toEqual({
+            dryRun: true,
+            fixed: [
+                {
+                    path: 'gs://bucket/fix/image',
+                    previous: 'application/octet-stream',
+                    contentType: 'image/png',
+                },
+                {
+                    path: 'gs://bucket/fix/rows.csv',
+                    previous: 'application/octet-stream',
+                    contentType: 'text/csv',
+                },
+            ],
+            failed: [],
+        });
+        expect(await contentTypeOf('gs://bucket/fix/rows.csv')).toBe(
+            'application/octet-stream',
+        );
+
+        const report = await bstore.fixContentTypes('gs://bucket/fix/');
+        expect(report.fixed).toHaveLength(2);
+        expect(await contentTypeOf('gs://bucket/fix/rows.csv')).toBe(
+            'text/csv',
+        );
+        expect(await contentTypeOf('gs://bucket/fix/image')).toBe('image/png');
+        expect(await contentTypeOf('gs://bucket/fix/typed.csv')).toBe(
+            'text/plain',
+        );
+        expect(await contentTypeOf('gs://bucket/other.csv')).toBe(
+            'application/octet-stream',
+        );
+    });
+
+    it('fixContentTypes reports failures', async () => {
+        const plain = new BStore({
+            backend: BACKEND,
+            detectContentType: false,
+        });
+        await plain.write('gs://bucket/fix/rows.csv', 'a,b\n');
+        jest.spyOn(LocalFile.prototype, 'setMetadata').mockRejectedValue(
+            new Error('denied'),
+        );
+
+        const report = await bstore.fixContentTypes('gs://bucket/fix/');
+        expect(report.fixed).toEqual([]);
+        expect(report.failed).toHaveLength(1);
+        expect(report.failed[0].path).toBe('gs://bucket/fix/rows.csv');
+        expect(report.failed[0].error.message).toBe('denied');
+    });
+});
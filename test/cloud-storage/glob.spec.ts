@@ -0,0 +1,47 @@
+import { expect } from '../testlib';
+import { globPrefix, globToRegExp, isGlob } from '@fp8proj/cloud-storage/glob';
+
+describe('cloud-storage.glob', () => {
+    it('isGlob', () => {
+        expect(isGlob('exports/**/2024-*.csv')).toBe(true);
+        expect(isGlob('exports/file?.csv')).toBe(true);
+        expect(isGlob('exports/[ab].csv')).toBe(true);
+        expect(isGlob('exports/{a,b}.csv')).toBe(true);
+        expect(isGlob('exports/2024-01.csv')).toBe(false);
+    });
+
+    it('globPrefix', () => {
+        expect(globPrefix('exports/**/2024-*.csv')).toEqual('exports/');
+        expect(globPrefix('exports/daily/2024-*.csv')).toEqual(
+            'exports/daily/',
+        );
+        expect(globPrefix('*.csv')).toEqual('');
+        expect(globPrefix('exports/a.csv')).toEqual('exports/a.csv');
+    });
+
+    it('globToRegExp with star and globstar', () => {
+        const regex = globToRegExp('exports/**/2024-*.csv');
+        expect(regex.test('exports/2024-01.csv')).toBe(true);
+        expect(regex.test('exports/daily/eu/2024-01.csv')).toBe(true);
+        expect(regex.test('exports/daily/2023-01.csv')).toBe(false);
+        expect(regex.test('exports/daily/2024-01/data.csv')).toBe(false);
+        expect(regex.test('exports/2024-01.csv.gz')).toBe(false);
+
+        expect(globToRegExp('a/*.txt').test('a/b/c.txt')).toBe(false);
+        expect(globToRegExp('a/**').test('a/b/c.txt')).toBe(true);
+    });
+
+    it('globToRegExp with single character, sets and alternatives', () => {
+        expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true);
+        expect(globToRegExp('file?.txt').test('file12.txt')).toBe(false);
+        expect(globToRegExp('[ab].txt').test('a.txt')).toBe(true);
+        expect(globToRegExp('[ab].txt').test('c.txt')).toBe(false);
+        expect(globToRegExp('[!ab].txt').test('c.txt')).toBe(true);
+        expect(globToRegExp('[!ab].txt').test('a.txt')).toBe(false);
+        expect(globToRegExp('*.{csv,json}').test('a.json')).toBe(true);
+        expect(globToRegExp('*.{csv,json}').test('a.txt')).toBe(false);
+        // Regex characters are escaped
+        expect(globToRegExp('a+b.(1).txt').test('a+b.(1).txt')).toBe(true);
+        expect(globToRegExp('a.txt').test('abtxt')).toBe(false);
+    });
+});
@@ -0,0 +1,165 @@
+import { expect } from '../testlib';
+
+import { GCUtilsError } from '@fp8proj/core';
+import {
+    BStore,
+    BStoreRx,
+    clearMemoryBackend,
+    GsPath,
+    parseGsPath,
+} from '@fp8proj/cloud-storage';
+import { lastValueFrom, toArray } from 'rxjs';
+
+describe('cloud-storage.gs-path', () => {
+    it('parse a string', () => {
+        const gs = new GsPath('gs://bucket/path/to/report.csv');
+        expect({ ...gs }).toEqual(
+            parseGsPath('gs://bucket/path/to/report.csv'),
+        );
+        expect(gs.toString()).toBe('gs://bucket/path/to/report.csv');
+        expect(gs.isDirectory).toBe(false);
+        expect(Object.isFrozen(gs)).toBe(true);
+
+        const dir = new GsPath('gs://bucket/path/to/');
+        expect(dir.filename).toBe('');
+        expect(dir.dirname).toBe('path/to');
+        expect(dir.isDirectory).toBe(true);
+
+        const root = new GsPath('gs://bucket');
+        expect(root.path).toBe('');
+        expect(root.toString()).toBe('gs://bucket/');
+        expect(root.isDirectory).toBe(true);
+    });
+
+    it('keep special characters verbatim', () => {
+        const gs = new GsPath('gs://bucket/my dir/50% #1.txt');
+        expect(gs.path).toBe('my dir/50% #1.txt');
+        expect(gs.filename).toBe('50% #1.txt');
+        expect(gs.encode()).toBe('gs://bucket/my%20dir/50%25%20%231.txt');
+        expect(GsPath.decode(gs.encode()).equals(gs)).toBe(true);
+        expect(() => GsPath.decode('gs://bucket/%E0%A4%A')).toThrow(
+            GCUtilsError,
+        );
+    });
+
+    it('create from IGsUri, File and GsPath', () => {
+        const gs = new GsPath('gs://bucket/a/b.txt');
+        expect(new GsPath(parseGsPath('gs://bucket/a/b.txt')).equals(gs)).toBe(
+            true,
+        );
+        const bstore = new BStore({ backend: 'mem://gs-path' });
+        const file = bstore.getBucket('bucket').file('a/b.txt');
+        expect(new GsPath(file).equals(gs)).toBe(true);
+        expect(GsPath.from(gs)).toBe(gs);
+
+        const glob = new GsPath('gs://bucket/exports/**/*.csv');
+        expect(glob.glob).toBe('exports/**/*.csv');
+        expect(new GsPath(glob).glob).toBe('exports/**/*.csv');
+        expect('glob' in gs).toBe(false);
+
+        expect(() => new GsPath('bucket/a.txt')).toThrow(
+            'Invalid gs path bucket/a.txt',
+        );
+        expect(() => new GsPath({ bucket: '', path: 'a.txt' })).toThrow(
+            'Missing bucket',
+        );
+    });
+
+    it('join and parent', () => {
+        const dir = new GsPath('gs://bucket/exports/');
+        expect(dir.join('2024', 'report.csv').toString()).toBe(
+            'gs://bucket/exports/2024/report.csv',
+        );
+        expect(dir.join('2024/').isDirectory).toBe(true);
+        expect(dir.join('../other.txt').path).toBe('other.txt');
+        expect(dir.join('..').path).toBe('');
+        expect(() => dir.join('../..')).toThrow('escapes the bucket');
+
+        const file = new GsPath('gs://bucket/a/b/c.txt');
+        expect(file.parent().path).toBe('a/b/');
+        expect(file.parent().parent().path).toBe('a/');
+        expect(file.parent().parent().parent().path).toBe('');
+        expect(new GsPath('gs://bucket/').parent().path).toBe('');
+    });
+
+    it('relativeTo and isPrefixOf', () => {
+        const file = new GsPath('gs://bucket/data/2024/a.txt');
+        expect(file.relativeTo('gs://bucket/data/')).toBe('2024/a.txt');
+        expect(file.relativeTo('gs://bucket/data')).toBe('2024/a.txt');
+        expect(file.relativeTo('gs://bucket/')).toBe('data/2024/a.txt');
+        expect(file.relativeTo(file)).toBe('');
+        expect(() => file.relativeTo('gs://bucket/dat')).toThrow(
+            'is not under',
+        );
+
+        const data = new GsPath('gs://bucket/data');
+        expect(data.isPrefixOf(file)).toBe(true);
+        expect(data.isPrefixOf('gs://bucket/database.txt')).toBe(false);
+        expect(data.isPrefixOf('gs://other/data/a.txt')).toBe(false);
+        expect(new GsPath('gs://bucket').isPrefixOf(file)).toBe(true);
+    });
+
+    it('withExtension and withBasename', () => {
+        const file = new GsPath('gs://bucket/a/report.csv');
+        expect(file.withExtension('.json').path).toBe('a/report.json');
+        expect(file.withExtension('gz').path).toBe('a/report.gz');
+        expect(file.withExtension('').path).toBe('a/report');
+        expect(file.withBasename('summary').path).toBe('a/summary.csv');
+        expect(new GsPath('gs://bucket/b.txt').withBasename('c').path).toBe(
+            'c.txt',
+        );
+        expect(() => file.withBasename('x/y')).toThrow('Invalid filename');
+        expect(() => file.parent().withExtension('.txt')).toThrow(
+            'is a directory',
+        );
+    });
+
+    it('generation', () => {
+        const gs = new GsPath('gs://bucket/a/report.csv#1700000000000001');
+        expect(gs.path).toBe('a/report.csv');
+        expect(gs.generation).toBe('1700000000000001');
+        expect(gs.toString()).toBe('gs://bucket/a/report.csv#1700000000000001');
+        expect(gs.encode()).toBe('gs://bucket/a/report.csv#1700000000000001');
+        expect(GsPath.decode(gs.encode()).equals(gs)).toBe(true);
+        expect(gs.equals('gs://bucket/a/report.csv')).toBe(false);
+        expect(gs.withGeneration(undefined).toString()).toBe(
+            'gs://bucket/a/report.csv',
+        );
+        expect(gs.withGeneration(2).generation).toBe('2');
+        expect(gs.withExtension('.json').generation).toBeUndefined();
+    });
+
+    describe('accepted by BStore and BStoreRx', () => {
+        afterEach(() => clearMemoryBackend('mem://gs-path'));
+
+        it('BStore', async () => {
+            const bstore = new BStore({ backend: 'mem://gs-path' });
+            const dir = new GsPath('gs://bucket/docs/');
+            await bstore.write(dir.join('a b.txt'), 'a');
+            await bstore.write(dir.join('sub', 'b.txt'), 'b');
+
+            expect((await bstore.read(dir.join('a b.txt'))).toString()).toBe(
+                'a',
+            );
+            expect((await bstore.meta(dir.join('a b.txt'))).name).toBe(
+                'docs/a b.txt',
+            );
+            const files = await bstore.getFiles(dir);
+            expect(
+                files.map((file) => new GsPath(file).relativeTo(dir)),
+            ).toEqual(['a b.txt', 'sub/b.txt']);
+        });
+
+        it('BStoreRx', async () => {
+            const bstore = new BStoreRx({ backend: 'mem://gs-path' });
+            const dir = new GsPath('gs://bucket/docs/');
+            await lastValueFrom(bstore.write(dir.join('c.txt'), 'c'));
+            const files = await lastValueFrom(
+                bstore.getFiles(dir).pipe(toArray()),
+            );
+            expect(files.map((file) => new GsPath(file).toString())).toEqual([
+                'gs://bucket/docs/c.txt',
+            ]);
+        });
+    });
+});
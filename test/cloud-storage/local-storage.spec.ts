@@ -0,0 +1,321 @@
+import { expect } from '../testlib';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import { lastValueFrom, toArray } from 'rxjs';
+import {
+    BStore,
+    BStoreRx,
+    clearMemoryBackend,
+    isPreconditionFailed,
+} from '@fp8proj/cloud-storage';
+import { GCUtilsError } from '@fp8proj/core';
+import { LocalFile } from '@fp8proj/cloud-storage/local-storage';
+
+describe('cloud-storage.local-storage', () => {
+    describe('mem backend', () => {
+        const bstore = new BStore({ backend: 'mem://test' });
+
+        afterEach(() => {
+            clearMemoryBackend('mem://test');
+        });
+
+        it('write, read and meta', async () => {
+            await bstore.write('gs://bucket/docs/a.txt', 'lorem ipsum', {
+                contentType: 'text/plain',
+                metadata: { owner: 'test' },
+            });
+            await expect(
+                bstore.read('gs://bucket/docs/a.txt'),
+            ).resolves.toEqual(Buffer.from('lorem ipsum'));
+            expect(bstore.blob('gs://bucket/docs/a.txt')).toBeInstanceOf(
+                LocalFile,
+            );
+
+            const meta = await bstore.meta('gs://bucket/docs/a.txt');
+            expect(meta.size).toEqual(11);
+            expect(meta.contentType).toEqual('text/plain');
+            expect(meta.metadata).toEqual({ owner: 'test' });
+            expect(meta.crc32c).toBeDefined();
+            await expect(
+                bstore.isSame(
+                    Buffer.from('lorem ipsum'),
+                    'gs://bucket/docs/a.txt',
+                ),
+            ).resolves.toBe(true);
+
+            // Instances with the same backend share the objects
+            const other = new BStore({ backend: 'mem://test' });
+            await expect(
+                other.exists('gs://bucket/docs/a.txt', 0, 1),
+            ).resolves.toBe(true);
+            const isolated = new BStore({ backend: 'mem://other' });
+            await expect(
+                isolated.exists('gs://bucket/docs/a.txt', 0, 1),
+            ).resolves.toBe(false);
+        });
+
+        it('errors as Cloud Storage', async () => {
+            await expect(
+                bstore.meta('gs://bucket/missing.txt'),
+            ).rejects.toThrow(/No such object: bucket\/missing.txt/);
+            await expect(
+                bstore.read('gs://bucket/missing.txt'),
+            ).rejects.toHaveProperty('code', 404);
+            await expect(
+                bstore.delete('gs://bucket/missing.txt', {
+                    ignoreNotFound: true,
+                }),
+            ).resolves.toBeUndefined();
+
+            await bstore.write('gs://bucket/a.txt', 'a');
+            const err = await bstore
+                .write('gs://bucket/a.txt', 'b', { ifGenerationMatch: 0 })
+                .catch((error: unknown) => error);
+            expect(isPreconditionFailed(err)).toBe(true);
+            await expect(bstore.read('gs://bucket/a.txt')).resolves.toEqual(
+                Buffer.from('a'),
+            );
+        });
+
+        it('modify, metadata and ranges', async () => {
+            await bstore.modify('gs://bucket/counter.txt', (content) =>
+                content === undefined ? '1' : `${Number(content) + 1}`,
+            );
+            await bstore.modify(
+                'gs://bucket/counter.txt',
+                (content) => `${Number(content) + 1}`,
+            );
+            await expect(
+                bstore.read('gs://bucket/counter.txt'),
+            ).resolves.toEqual(Buffer.from('2'));
+
+            const meta = await bstore.setCustomMetadata(
+                'gs://bucket/counter.txt',
+                { step: '1' },
+            );
+            expect(meta.metadata).toEqual({ step: '1' });
+            expect(meta.metageneration).toEqual('2');
+
+            await bstore.write('gs://bucket/range.txt', 'lorem ipsum');
+            await expect(
+                bstore.tail('gs://bucket/range.txt', 5),
+            ).resolves.toEqual(Buffer.from('ipsum'));
+
+            await bstore.write('gs://bucket/data.json.gz', '{"a":1}', {
+                compress: true,
+            });
+            await expect(
+                bstore.readJson('gs://bucket/data.json.gz'),
+            ).resolves.toEqual({ a: 1 });
+        });
+
+        it('listing and prefix operations', async () => {
+            for (const name of ['in/a.csv', 'in/b.txt', 'in/sub/c.csv']) {
+                await bstore.write(`gs://bucket/${name}`, name);
+            }
+
+            const files = await bstore.getFiles('gs://bucket/in/**/*.csv');
+            expect(files.map((file) => file.name)).toEqual([
+                'in/a.csv',
+                'in/sub/c.csv',
+            ]);
+            const listing = await bstore.listDirectory('gs://bucket/in/');
+            expect(listing.directories.map((dir) => dir.path)).toEqual([
+                'in/sub/',
+            ]);
+            expect(listing.files.map((file) => file.path)).toEqual([
+                'in/a.csv',
+                'in/b.txt',
+            ]);
+
+            const pages: Array<string | undefined> = [];
+            const iterated: string[] = [];
+            for await (const file of bstore.iterateFiles('gs://bucket/in/', {
+                pageSize: 2,
+                onPageToken: (token) => pages.push(token),
+            })) {
+                iterated.push(file.name);
+            }
+            expect(iterated).toHaveLength(3);
+            expect(pages).toEqual(['in/b.txt', undefined]);
+
+            const copied = await bstore.copyPrefix(
+                'gs://bucket/in/',
+                'gs://bucket/out/',
+            );
+            expect(copied.succeeded).toHaveLength(3);
+            await expect(
+                bstore.read('gs://bucket/out/sub/c.csv'),
+            ).resolves.toEqual(Buffer.from('in/sub/c.csv'));
+
+            const deleted = await bstore.deleteFiles('gs://bucket/in/');
+            expect(deleted.deleted).toHaveLength(3);
+            await expect(bstore.getFiles('gs://bucket/in/')).resolves.toEqual(
+                [],
+            );
+        });
+
+        it('compose', async () => {
+            await bstore.write('gs://bucket/p1', 'lorem ');
+            await bstore.write('gs://bucket/p2', 'ipsum');
+            await bstore.compose(
+                ['gs://bucket/p1', 'gs://bucket/p2'],
+                'gs://bucket/all.txt',
+            );
+            await expect(bstore.read('gs://bucket/all.txt')).resolves.toEqual(
+                Buffer.from('lorem ipsum'),
+            );
+            const meta = await bstore.meta('gs://bucket/all.txt');
+            expect(meta.md5Hash).toBeUndefined();
+        });
+
+        it('versions pins the files listed to their generation', async () => {
+            await bstore.write('gs://bucket/v/a.txt', 'a');
+            const meta = await bstore.meta('gs://bucket/v/a.txt');
+            const [files] = await bstore
+                .getBucket('bucket')
+                .getFiles({ prefix: 'v/', versions: true });
+            expect(files).toHaveLength(1);
+            expect(`${files[0].generation}`).toEqual(meta.generation);
+
+            // Only the generation of the File is deleted
+            await bstore.write('gs://bucket/v/a.txt', 'b');
+            await expect(files[0].delete()).rejects.toHaveProperty('code', 404);
+            await expect(bstore.read('gs://bucket/v/a.txt')).resolves.toEqual(
+                Buffer.from('b'),
+            );
+        });
+
+        it('rejects the methods not emulated', async () => {
+            await bstore.write('gs://bucket/a.txt', 'a');
+            await expect(
+                bstore.getSignedUrl('gs://bucket/a.txt'),
+            ).rejects.toThrow(
+                'File.getSignedUrl is not supported by the file:// and mem:// backends',
+            );
+            await expect(
+                bstore.blob('gs://bucket/a.txt').makePublic(),
+            ).rejects.toThrow(GCUtilsError);
+            await expect(
+                bstore.getBucket('bucket').getMetadata(),
+            ).rejects.toThrow(
+                'Request GET b/bucket is not supported by the file:// and mem:// backends',
+            );
+        });
+
+        it('BStoreRx', async () => {
+            const bstoreRx = new BStoreRx({ backend: 'mem://test' });
+            await lastValueFrom(bstoreRx.write('gs://bucket/rx/a.txt', 'a'));
+            await lastValueFrom(bstoreRx.write('gs://bucket/rx/b.txt', 'b'));
+
+            const meta = await lastValueFrom(
+                bstoreRx.meta('gs://bucket/rx/a.txt'),
+            );
+            expect(meta.size).toEqual(1);
+            const names = await lastValueFrom(
+                bstoreRx.getFiles('gs://bucket/rx/').pipe(toArray()),
+            );
+            expect(names.map((file) => file.name)).toEqual([
+                'rx/a.txt',
+                'rx/b.txt',
+            ]);
+
+            const root = fs.mkdtempSync(
+                nodePath.join(os.tmpdir(), 'local-storage-'),
+            );
+            try {
+                const report = await lastValueFrom(
+                    bstoreRx.sync('gs://bucket/rx/', root),
+                );
+                expect(report.downloads).toHaveLength(2);
+                expect(
+                    fs.readFileSync(nodePath.join(root, 'b.txt'), 'utf8'),
+                ).toEqual('b');
+            } finally {
+                fs.rmSync(root, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('file backend', () => {
+        const bstoreData = new BStore({ backend: 'file://test/data' });
+        let root: string;
+        let bstore: BStore;
+
+        beforeEach(() => {
+            root = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'local-storage-'));
+            bstore = new BStore({ backend: `file://${root}` });
+        });
+
+        afterEach(() => {
+            fs.rmSync(root, { recursive: true, force: true });
+        });
+
+        it('serves files added without metadata', async () => {
+            const files = await bstoreData.getFiles('gs://storage-bucket/');
+            expect(files.map((file) => file.name)).toEqual([
+                'man-join.txt',
+                'sample.pdf',
+            ]);
+            const meta = await bstoreData.meta(
+                'gs://storage-bucket/sample.pdf',
+            );
+            expect(meta.size).toEqual(
+                fs.statSync('test/data/storage-bucket/sample.pdf').size,
+            );
+            await expect(
+                bstoreData.isSame(
+                    'test/data/storage-bucket/man-join.txt',
+                    'gs://storage-bucket/man-join.txt',
+                ),
+            ).resolves.toBe(true);
+        });
+
+        it('write, read, list and delete', async () => {
+            await bstore.write('gs://bucket/in/a.txt', 'lorem', {
+                contentType: 'text/plain',
+            });
+            await bstore.write('gs://bucket/in/sub/', '');
+            expect(
+                fs.readFileSync(nodePath.join(root, 'bucket/in/a.txt'), 'utf8'),
+            ).toEqual('lorem');
+
+            // Metadata survives a new instance
+            const other = new BStore({ backend: `file://${root}` });
+            const meta = await other.meta('gs://bucket/in/a.txt');
+            expect(meta.contentType).toEqual('text/plain');
+
+            const files = await other.getFiles('gs://bucket/in/');
+            expect(files.map((file) => file.name)).toEqual(['in/a.txt']);
+            const listing = await other.listDirectory('gs://bucket/in/');
+            expect(listing.directories.map((dir) => dir.path)).toEqual([
+                'in/sub/',
+            ]);
+
+            await other.delete('gs://bucket/in/a.txt');
+            await expect(
+                other.exists('gs://bucket/in/a.txt', 0, 1),
+            ).resolves.toBe(false);
+            await expect(other.read('gs://bucket/in/a.txt')).rejects.toThrow(
+                /No such object/,
+            );
+        });
+
+        it('rejects names escaping the bucket', async () => {
+            await expect(
+                bstore.write(
+                    bstore.getBucket('bucket').file('../escape.txt'),
+                    'x',
+                ),
+            ).rejects.toThrow('not supported by the file backend');
+        });
+    });
+
+    it('unsupported backend', () => {
+        expect(() => new BStore({ backend: 'ftp://host' })).toThrow(
+            'Unsupported storage backend ftp://host',
+        );
+    });
+});
@@ -0,0 +1,60 @@
+import { expect } from '../testlib';
+import {
+    toGsObjectMetadata,
+    toMetadataRequest,
+} from '@fp8proj/cloud-storage/metadata';
+
+describe('cloud-storage.metadata', () => {
+    it('toGsObjectMetadata', () => {
+        const raw = {
+            bucket: 'bucket',
+            name: 'data/a.csv',
+            size: '1024',
+            contentType: 'text/csv',
+            generation: 1700000000000001,
+            metageneration: '2',
+            md5Hash: 'gKdR/eV3AoZAxBkADjPrpg==',
+            crc32c: '37TmyQ==',
+            timeCreated: '2025-01-01T00:00:00.000Z',
+            updated: '2025-01-02T00:00:00.000Z',
+            metadata: { owner: 'batch', retries: 3, removed: null },
+        };
+
+        expect(toGsObjectMetadata(raw)).toEqual({
+            bucket: 'bucket',
+            name: 'data/a.csv',
+            size: 1024,
+            contentType: 'text/csv',
+            generation: '1700000000000001',
+            metageneration: '2',
+            md5Hash: 'gKdR/eV3AoZAxBkADjPrpg==',
+            crc32c: '37TmyQ==',
+            timeCreated: new Date('2025-01-01T00:00:00.000Z'),
+            updated: new Date('2025-01-02T00:00:00.000Z'),
+            metadata: { owner: 'batch', retries: '3' },
+            raw,
+        });
+    });
+
+    it('toGsObjectMetadata without optional fields', () => {
+        const meta = toGsObjectMetadata({});
+        expect(meta.size).toEqual(0);
+        expect(meta.metadata).toEqual({});
+        expect(meta.updated).toBeUndefined();
+    });
+
+    it('toMetadataRequest', () => {
+        expect(
+            toMetadataRequest({
+                contentType: null,
+                cacheControl: undefined,
+                customTime: new Date('2025-01-01T00:00:00.000Z'),
+                metadata: { owner: null },
+            }),
+        ).toEqual({
+            contentType: null,
+            customTime: '2025-01-01T00:00:00.000Z',
+            metadata: { owner: null },
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import { expect } from '../testlib';
+import { Readable } from 'stream';
+import { parseCsv, splitLines } from '@fp8proj/cloud-storage/parsers';
+
+/**
+ * Collect all entries from an async iterable
+ */
+async function collect<T>(input: AsyncIterable<T>): Promise<T[]> {
+    const result: T[] = [];
+    for await (const entry of input) {
+        result.push(entry);
+    }
+    return result;
+}
+
+describe('cloud-storage.parsers', () => {
+    it('splitLines across chunks', async () => {
+        const source = Readable.from([
+            Buffer.from('first li'),
+            Buffer.from('ne\r\nsecond line\n\nth'),
+            Buffer.from('ird line'),
+        ]);
+        const lines = await collect(splitLines(source));
+        expect(lines).toEqual(['first line', 'second line', '', 'third line']);
+    });
+
+    it('splitLines with multi-byte characters split between chunks', async () => {
+        const data = Buffer.from('caffè\nnaïve\n');
+        // Split in the middle of `è`
+        const source = Readable.from([data.subarray(0, 5), data.subarray(5)]);
+        const lines = await collect(splitLines(source));
+        expect(lines).toEqual(['caffè', 'naïve']);
+    });
+
+    it('parseCsv with quotes', async () => {
+        const source = Readable.from([
+            'name,comment\r\n',
+            'alice,"hello, ""world"""\r\n',
+            'bob,"multi\nline"\n',
+            '\n',
+            'carol,',
+        ]);
+        const records = await collect(parseCsv(source));
+        expect(records).toEqual([
+            ['name', 'comment'],
+            ['alice', 'hello, "world"'],
+            ['bob', 'multi\nline'],
+            ['carol', ''],
+        ]);
+    });
+
+    it('parseCsv with custom delimiter and empty lines', async () => {
+        const source = Readable.from(['a;b\n\n', "'x;y';z\n"]);
+        const records = await collect(
+            parseCsv(source, {
+                delimiter: ';',
+                quote: "'",
+                skipEmptyLines: false,
+            }),
+        );
+        expect(records).toEqual([['a', 'b'], [''], ['x;y', 'z']]);
+    });
+
+    it('parseCsv throws on unterminated quote', async () => {
+        const source = Readable.from(['a,"b\n']);
+        await expect(collect(parseCsv(source))).rejects.toThrow(
+            'Unterminated quoted field',
+        );
+    });
+});
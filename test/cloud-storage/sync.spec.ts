@@ -0,0 +1,75 @@
+import { createMockFile, expect } from '../testlib';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import { Storage } from '@google-cloud/storage';
+import { isSameContent, listLocalFiles } from '@fp8proj/cloud-storage/sync';
+
+describe('cloud-storage.sync', () => {
+    const bucket = new Storage().bucket('sync-bucket');
+    let root: string;
+
+    beforeAll(() => {
+        root = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'gcutils-sync-'));
+        fs.mkdirSync(nodePath.join(root, 'sub/deep'), { recursive: true });
+        fs.writeFileSync(nodePath.join(root, 'a.txt'), 'lorem ipsum');
+        fs.writeFileSync(nodePath.join(root, 'sub/deep/b.txt'), 'dolor');
+    });
+
+    afterAll(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('listLocalFiles', async () => {
+        const files = await listLocalFiles(root);
+        expect([...files.keys()].sort()).toEqual(['a.txt', 'sub/deep/b.txt']);
+        expect(files.get('a.txt')?.size).toEqual(11);
+    });
+
+    it('listLocalFiles returns empty map for missing directory', async () => {
+        const files = await listLocalFiles(nodePath.join(root, 'missing'));
+        expect(files.size).toEqual(0);
+    });
+
+    it('isSameContent by md5 and crc32c', async () => {
+        const localPath = nodePath.join(root, 'a.txt');
+        const stats = fs.statSync(localPath);
+        const file = createMockFile(bucket, 'a.txt', {
+            size: 11,
+            md5Hash: 'gKdR/eV3AoZAxBkADjPrpg==',
+            crc32c: '37TmyQ==',
+        });
+
+        await expect(
+            isSameContent(localPath, stats, file, 'md5', true),
+        ).resolves.toBe(true);
+        await expect(
+            isSameContent(localPath, stats, file, 'crc32c', true),
+        ).resolves.toBe(true);
+
+        file.metadata = { size: 11, md5Hash: 'AAAAAAAAAAAAAAAAAAAAAA==' };
+        await expect(
+            isSameContent(localPath, stats, file, 'md5', true),
+        ).resolves.toBe(false);
+
+        file.metadata = { size: 10, md5Hash: 'gKdR/eV3AoZAxBkADjPrpg==' };
+        await expect(
+            isSameContent(localPath, stats, file, 'md5', true),
+        ).resolves.toBe(false);
+    });
+
+    it('isSameContent by size and mtime', async () => {
+        const localPath = nodePath.join(root, 'a.txt');
+        const stats = fs.statSync(localPath);
+        const file = bucket.file('a.txt');
+
+        const newer = new Date(stats.mtime.getTime() + 1000).toISOString();
+        file.metadata = { size: '11', updated: newer };
+        await expect(
+            isSameContent(localPath, stats, file, 'size-mtime', true),
+        ).resolves.toBe(true);
+        await expect(
+            isSameContent(localPath, stats, file, 'size-mtime', false),
+        ).resolves.toBe(false);
+    });
+});
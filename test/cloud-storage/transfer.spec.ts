@@ -0,0 +1,234 @@
+import { expect } from '../testlib';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import { Readable, Writable } from 'stream';
+import { GCUtilsError } from '@fp8proj/core';
+import {
+    BStore,
+    clearMemoryBackend,
+    ITransferProgress,
+} from '@fp8proj/cloud-storage';
+import { LocalFile } from '@fp8proj/cloud-storage/local-storage';
+import { createProgressStream } from '@fp8proj/cloud-storage/transfer';
+
+const BACKEND = 'mem://transfer';
+const CONTENT = 'x'.repeat(100000);
+
+describe('cloud-storage.transfer', () => {
+    let tempDir: string;
+    let bstore: BStore;
+
+    beforeEach(async () => {
+        tempDir = await fs.promises.mkdtemp(
+            nodePath.join(os.tmpdir(), 'gcutils-transfer-'),
+        );
+        bstore = new BStore({ backend: BACKEND });
+        await bstore.write('gs://bucket/data/big.txt', CONTENT);
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        clearMemoryBackend(BACKEND);
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('createProgressStream', async () => {
+        const progress: ITransferProgress[] = [];
+        const stream = createProgressStream(10, {
+            onProgress: (value) => progress.push(value),
+            progressInterval: 60000,
+        });
+        const chunks: Buffer[] = [];
+        for await (const chunk of Readable.from([
+            Buffer.from('12345'),
+            Buffer.from('67890'),
+        ]).pipe(stream)) {
+            chunks.push(chunk as Buffer);
+        }
+        expect(Buffer.concat(chunks).toString()).toBe('1234567890');
+        // Only the final progress within the interval
+        expect(progress).toHaveLength(1);
+        expect(progress[0]).toMatchObject({
+            bytes: 10,
+            totalBytes: 10,
+            percent: 100,
+        });
+        expect(progress[0].rate).toBeGreaterThan(0);
+    });
+
+    describe('download', () => {
+        it('stream to a local file', async () => {
+            const progress: ITransferProgress[] = [];
+            const localPath = nodePath.join(tempDir, 'sub', 'big.txt');
+            const meta = await bstore.download(
+                'gs://bucket/data/big.txt',
+                localPath,
+                {
+                    onProgress: (value) => progress.push(value),
+                    progressInterval: 0,
+                },
+            );
+            expect(await fs.promises.readFile(localPath, 'utf8')).toBe(CONTENT);
+            expect(meta.name).toBe('data/big.txt');
+            expect(progress[progress.length - 1]).toMatchObject({
+                bytes: CONTENT.length,
+                totalBytes: CONTENT.length,
+                percent: 100,
+            });
+        });
+
+        it('unknown total of decompressed content', async () => {
+            await bstore.write('gs://bucket/data/big.gz', CONTENT, {
+                compress: true,
+            });
+            const progress: ITransferProgress[] = [];
+            const localPath = nodePath.join(tempDir, 'big.txt');
+            await bstore.download('gs://bucket/data/big.gz', localPath, {
+                onProgress: (value) => progress.push(value),
+            });
+            expect(await fs.promises.readFile(localPath, 'utf8')).toBe(CONTENT);
+            expect(progress[progress.length - 1]).toEqual({
+                bytes: CONTENT.length,
+                rate: expect.any(Number),
+            });
+        });
+
+        it('abort through the error handler', async () => {
+            const errorHandler = jest.fn();
+            bstore.setErrorHandler(errorHandler);
+            const controller = new AbortController();
+            controller.abort();
+            const localPath = nodePath.join(tempDir, 'big.txt');
+
+            const promise = bstore.download(
+                'gs://bucket/data/big.txt',
+                localPath,
+                { signal: controller.signal },
+            );
+            await expect(promise).rejects.toThrow(GCUtilsError);
+            await expect(promise).rejects.toThrow(
+                'Download of gs://bucket/data/big.txt aborted',
+            );
+            expect(errorHandler).toHaveBeenCalled();
+            // No partial file is left
+            expect(await fs.promises.readdir(tempDir)).toEqual([]);
+        });
+    });
+
+    describe('upload', () => {
+        let localPath: string;
+        let sessionFile: string;
+
+        beforeEach(async () => {
+            localPath = nodePath.join(tempDir, 'upload.txt');
+            sessionFile = nodePath.join(tempDir, 'upload.session');
+            await fs.promises.writeFile(localPath, CONTENT);
+        });
+
+        async function saveSession(size = CONTENT.length): Promise<void> {
+            const stats = await fs.promises.stat(localPath);
+            await fs.promises.writeFile(
+                sessionFile,
+                JSON.stringify({
+                    uri: 'https://upload/session-1',
+                    destination: 'gs://bucket/up/upload.txt',
+                    size,
+                    mtimeMs: stats.mtimeMs,
+                }),
+            );
+        }
+
+        it('stream a local file', async () => {
+            const progress: ITransferProgress[] = [];
+            const spy = jest.spyOn(LocalFile.prototype, 'createWriteStream');
+            const meta = await bstore.upload(
+                localPath,
+                'gs://bucket/up/upload.txt',
+                {
+                    contentType: 'text/plain',
+                    onProgress: (value) => progress.push(value),
+                    sessionFile,
+                },
+            );
+            expect(meta.size).toBe(CONTENT.length);
+            expect(meta.contentType).toBe('text/plain');
+            expect(
+                (await bstore.read('gs://bucket/up/upload.txt')).toString(),
+            ).toBe(CONTENT);
+            expect(progress[progress.length - 1]).toMatchObject({
+                bytes: CONTENT.length,
+                percent: 100,
+            });
+            expect(spy.mock.calls[0][0]).toMatchObject({ resumable: true });
+            expect(spy.mock.calls[0][0]).not.toHaveProperty('uri');
+            expect(fs.existsSync(sessionFile)).toBe(false);
+        });
+
+        it('resume a saved session', async () => {
+            await saveSession();
+            const spy = jest.spyOn(LocalFile.prototype, 'createWriteStream');
+            await bstore.upload(localPath, 'gs://bucket/up/upload.txt', {
+                sessionFile,
+            });
+            expect(spy.mock.calls[0][0]).toMatchObject({
+                uri: 'https://upload/session-1',
+                validation: false,
+            });
+            expect(fs.existsSync(sessionFile)).toBe(false);
+        });
+
+        it('ignore the session of a changed file', async () => {
+            await saveSession(10);
+            const spy = jest.spyOn(LocalFile.prototype, 'createWriteStream');
+            await bstore.upload(localPath, 'gs://bucket/up/upload.txt', {
+                sessionFile,
+            });
+            expect(spy.mock.calls[0][0]).not.toHaveProperty('uri');
+        });
+
+        it('restart an expired session', async () => {
+            await saveSession();
+            bstore.setErrorHandler(() => undefined);
+            const spy = jest
+                .spyOn(LocalFile.prototype, 'createWriteStream')
+                .mockImplementationOnce(
+                    () =>
+                        new Writable({
+                            write(_chunk, _encoding, callback) {
+                                callback(
+                                    Object.assign(new Error('Gone'), {
+                                        code: 410,
+                                    }),
+                                );
+                            },
+                        }),
+                );
+            await bstore.upload(localPath, 'gs://bucket/up/upload.txt', {
+                sessionFile,
+            });
+            expect(spy).toHaveBeenCalledTimes(2);
+            expect(spy.mock.calls[1][0]).not.toHaveProperty('uri');
+            expect(
+                (await bstore.read('gs://bucket/up/upload.txt')).toString(),
+            ).toBe(CONTENT);
+        });
+
+        it('abort', async () => {
+            const errorHandler = jest.fn();
+            bstore.setErrorHandler(errorHandler);
+            const controller = new AbortController();
+            controller.abort();
+            await expect(
+                bstore.upload(localPath, 'gs://bucket/up/upload.txt', {
+                    signal: controller.signal,
+                }),
+            ).rejects.toThrow(`Upload of ${localPath} aborted`);
+            expect(errorHandler).toHaveBeenCalled();
+            expect(await bstore.exists('gs://bucket/up/upload.txt', 0, 1)).toBe(
+                false,
+            );
+        });
+    });
+});
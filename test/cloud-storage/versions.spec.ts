@@ -0,0 +1,220 @@
+import { expect } from '../testlib';
+
+import { File } from '@google-cloud/storage';
+import {
+    BStore,
+    clearMemoryBackend,
+    IObjectVersion,
+} from '@fp8proj/cloud-storage';
+import { LocalBucket, LocalFile } from '@fp8proj/cloud-storage/local-storage';
+import {
+    compareGenerations,
+    selectVersionsToPurge,
+} from '@fp8proj/cloud-storage/versions';
+
+const BACKEND = 'mem://versions';
+const GSPATH = 'gs://bucket/data/report.csv';
+
+/**
+ * Create a version as returned by listVersions, noncurrent if timeDeleted is set
+ */
+function createVersion(generation: string, timeDeleted?: Date): IObjectVersion {
+    return {
+        gs: {
+            bucket: 'bucket',
+            path: 'data/report.csv',
+            dirname: 'data',
+            filename: 'report.csv',
+            basename: 'report',
+            extname: '.csv',
+            generation,
+        },
+        generation,
+        live: timeDeleted === undefined,
+        timeDeleted,
+        metadata: {
+            bucket: 'bucket',
+            name: 'data/report.csv',
+            size: 0,
+            generation,
+            metadata: {},
+            raw: {},
+        },
+    };
+}
+
+describe('cloud-storage.versions', () => {
+    let bstore: BStore;
+
+    /**
+     * Make getFiles return the live object along with noncurrent
+     * generations, not supported by the local backends
+     */
+    const mockNoncurrent = (
+        versions: { generation: string; timeDeleted: string }[],
+    ) => {
+        const getFiles = LocalBucket.prototype.getFiles;
+        return jest
+            .spyOn(LocalBucket.prototype, 'getFiles')
+            .mockImplementation(async function (this: LocalBucket, query) {
+                const [files] = await getFiles.call(this, query);
+                const noncurrent = versions.map((version) => {
+                    const file = this.file('data/report.csv', {
+                        generation: version.generation,
+                    });
+                    file.metadata = {
+                        name: 'data/report.csv',
+                        generation: version.generation,
+                        updated: version.timeDeleted,
+                        timeDeleted: version.timeDeleted,
+                    };
+                    return file;
+                });
+                return [[...files, ...noncurrent], {}, {}];
+            });
+    };
+
+    beforeEach(async () => {
+        bstore = new BStore({ backend: BACKEND });
+        await bstore.write(GSPATH, 'current');
+        await bstore.write('gs://bucket/data/report.csv.bak', 'backup');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        clearMemoryBackend(BACKEND);
+    });
+
+    it('compareGenerations', () => {
+        expect(compareGenerations('9', '10')).toBeLessThan(0);
+        expect(
+            compareGenerations('1700000000000000001', '1700000000000000000'),
+        ).toBeGreaterThan(0);
+        expect(compareGenerations('42', '42')).toBe(0);
+    });
+
+    it('selectVersionsToPurge', () => {
+        const versions = [
+            createVersion('40'),
+            createVersion('30', new Date('2024-03-01T00:00:00Z')),
+            createVersion('20', new Date('2024-02-01T00:00:00Z')),
+            createVersion('10', new Date('2024-01-01T00:00:00Z')),
+        ];
+        const generations = (selected: IObjectVersion[]) =>
+            selected.map((version) => version.generation);
+
+        expect(generations(selectVersionsToPurge(versions, {}))).toEqual([
+            '30',
+            '20',
+            '10',
+        ]);
+        expect(
+            generations(selectVersionsToPurge(versions, { keepLast: 1 })),
+        ).toEqual(['20', '10']);
+        expect(
+            generations(
+                selectVersionsToPurge(versions, {
+                    olderThan: new Date('2024-02-15T00:00:00Z'),
+                }),
+            ),
+        ).toEqual(['20', '10']);
+        expect(
+            generations(selectVersionsToPurge(versions, { keepLast: 5 })),
+        ).toEqual([]);
+    });
+
+    it('listVersions of the live generation only', async () => {
+        const meta = await bstore.meta(GSPATH);
+        const versions = await bstore.listVersions(GSPATH);
+        expect(versions).toHaveLength(1);
+        expect(versions[0]).toMatchObject({
+            generation: meta.generation,
+            live: true,
+            timeDeleted: undefined,
+        });
+        expect(versions[0].gs.generation).toBe(meta.generation);
+    });
+
+    it('listVersions ordered from the newest', async () => {
+        mockNoncurrent([
+            { generation: '1', timeDeleted: '2024-01-01T00:00:00Z' },
+            { generation: '2', timeDeleted: '2024-02-01T00:00:00Z' },
+        ]);
+        const versions = await bstore.listVersions(GSPATH);
+        expect(versions.map((version) => version.live)).toEqual([
+            true,
+            false,
+            false,
+        ]);
+        expect(versions[1]).toMatchObject({
+            generation: '2',
+            timeDeleted: new Date('2024-02-01T00:00:00Z'),
+        });
+        expect(versions[2].generation).toBe('1');
+    });
+
+    it('readVersion', async () => {
+        const meta = await bstore.meta(GSPATH);
+        expect(
+            (await bstore.readVersion(GSPATH, meta.generation!)).toString(),
+        ).toBe('current');
+        expect(
+            (await bstore.read(`${GSPATH}#${meta.generation}`)).toString(),
+        ).toBe('current');
+
+        // Generation replaced by a new write
+        await bstore.write(GSPATH, 'next');
+        await expect(
+            bstore.readVersion(GSPATH, meta.generation!),
+        ).rejects.toThrow();
+    });
+
+    it('restore', async () => {
+        const meta = await bstore.meta(GSPATH);
+        const copy = jest.spyOn(LocalFile.prototype, 'copy');
+
+        const file = await bstore.restore(GSPATH, meta.generation!);
+        const source = copy.mock.contexts[0] as File;
+        expect(`${source.generation}`).toBe(meta.generation);
+        expect(file.name).toBe('data/report.csv');
+
+        const restored = await bstore.meta(GSPATH);
+        expect(restored.generation).not.toBe(meta.generation);
+        expect((await bstore.read(GSPATH)).toString()).toBe('current');
+    });
+
+    it('purgeVersions', async () => {
+        mockNoncurrent([
+            { generation: '1', timeDeleted: '2024-01-01T00:00:00Z' },
+            { generation: '2', timeDeleted: '2024-02-01T00:00:00Z' },
+            { generation: '3', timeDeleted: '2024-03-01T00:00:00Z' },
+        ]);
+        const deleted: string[] = [];
+        const remove = LocalFile.prototype.delete;
+        jest.spyOn(LocalFile.prototype, 'delete').mockImplementation(function (
+            this: LocalFile,
+        ) {
+            deleted.push(`${this.generation}`);
+            // Noncurrent generations are not kept by the local backends
+            return remove.call(this, { ignoreNotFound: true });
+        });
+
+        const dryRun = await bstore.purgeVersions(GSPATH, {
+            keepLast: 1,
+            dryRun: true,
+        });
+        expect(dryRun).toEqual({
+            dryRun: true,
+            deleted: [`${GSPATH}#2`, `${GSPATH}#1`],
+            failed: [],
+        });
+        expect(deleted).toEqual([]);
+
+        const report = await bstore.purgeVersions(GSPATH, {
+            olderThan: new Date('2024-02-15T00:00:00Z'),
+        });
+        expect(report.deleted).toEqual([`${GSPATH}#2`, `${GSPATH}#1`]);
+        expect(deleted.sort()).toEqual(['1', '2']);
+        expect(await bstore.exists(GSPATH)).toBe(true);
+    });
+});
@@ -0,0 +1,69 @@
+import { expect } from '../testlib';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import { GCUtilsError } from '@fp8proj/core';
+import { createFileCheckpoint } from '@fp8proj/cloud-storage';
+import {
+    diffSnapshots,
+    resolveWatchInterval,
+    sleep,
+} from '@fp8proj/cloud-storage/watch';
+
+describe('cloud-storage.watch', () => {
+    it('diffSnapshots', () => {
+        const events = diffSnapshots(
+            'bucket',
+            { 'a.txt': '1', 'b.txt': '1', 'c.txt': '1' },
+            { 'b.txt': '2', 'c.txt': '1', 'd.txt': '1' },
+        );
+        expect(
+            events.map((event) => [
+                event.type,
+                event.gs.path,
+                event.generation,
+                event.previousGeneration,
+            ]),
+        ).toEqual([
+            ['updated', 'b.txt', '2', '1'],
+            ['created', 'd.txt', '1', undefined],
+            ['deleted', 'a.txt', undefined, '1'],
+        ]);
+        expect(events[0].gs.bucket).toEqual('bucket');
+    });
+
+    it('resolveWatchInterval', () => {
+        expect(resolveWatchInterval({})).toEqual(60000);
+        expect(resolveWatchInterval({ interval: 10 })).toEqual(10);
+        expect(() => resolveWatchInterval({ interval: 0 })).toThrow(
+            'Invalid watch interval of 0',
+        );
+    });
+
+    it('createFileCheckpoint', async () => {
+        const root = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'watch-'));
+        const filePath = nodePath.join(root, 'checkpoint.json');
+        const checkpoint = createFileCheckpoint(filePath);
+        try {
+            await expect(checkpoint.load()).resolves.toBeUndefined();
+            await checkpoint.save({ 'a.txt': '1' });
+            await expect(checkpoint.load()).resolves.toEqual({ 'a.txt': '1' });
+            expect(fs.readdirSync(root)).toEqual(['checkpoint.json']);
+
+            fs.writeFileSync(filePath, '{');
+            await expect(checkpoint.load()).rejects.toThrow(GCUtilsError);
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+
+    it('sleep resolves when aborted', async () => {
+        const controller = new AbortController();
+        const start = Date.now();
+        const waiting = sleep(60000, controller.signal);
+        controller.abort();
+        await waiting;
+        expect(Date.now() - start).toBeLessThan(1000);
+    });
+});
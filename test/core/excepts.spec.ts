@@ -1,6 +1,7 @@
 import { expect } from '../testlib';
 import { GaxiosError } from 'googleapis-common';
 import {
+    ChecksumMismatchError,
     GCUtilsError,
     RetryError,
     RxJsRetryError,
@@ -93,4 +94,20 @@ describe('core.excepts', () => {
         expect(err).toBeInstanceOf(Error);
         expect(err).not.toBeInstanceOf(GCUtilsError);
     });
+
+    it('ChecksumMismatchError', () => {
+        const err = new ChecksumMismatchError(
+            'gs://bucket/a.txt',
+            'md5',
+            'expected-Qw3r7Zx1',
+            'actual-Qw3r7Zx1',
+        );
+        expect(err.constructor.name).toBe('ChecksumMismatchError');
+        expect(err.message).toBe(
+            'md5 checksum mismatch for gs://bucket/a.txt: expected expected-Qw3r7Zx1 but got actual-Qw3r7Zx1',
+        );
+        expect(err.path).toBe('gs://bucket/a.txt');
+        expect(err.algorithm).toBe('md5');
+        expect(err).toBeInstanceOf(GCUtilsError);
+    });
 });
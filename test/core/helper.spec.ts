@@ -6,7 +6,12 @@ import * as http from 'http';
 import * as https from 'https';
 
 import { RetryError } from '@fp8proj/core';
-import { convertToDate, retry, fetcher } from '@fp8proj/core/helper';
+import {
+    convertToDate,
+    retry,
+    fetcher,
+    settleWithConcurrency,
+} from '@fp8proj/core/helper';
 
 // Mock the http and https modules
 jest.mock('http');
@@ -358,6 +363,51 @@ describe('helper', () => {
         });
     });
 
+    describe('settleWithConcurrency', () => {
+        it('limits the number of actions in progress', async () => {
+            let running = 0;
+            let maxRunning = 0;
+            const action = async (item: number) => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                running--;
+                if (item === 3) {
+                    throw new Error('failed-3');
+                }
+                return item * 2;
+            };
+
+            const result = await settleWithConcurrency(
+                [1, 2, 3, 4, 5],
+                action,
+                2,
+            );
+            expect(maxRunning).toBe(2);
+            expect(result.map((entry) => entry.status)).toEqual([
+                'fulfilled',
+                'fulfilled',
+                'rejected',
+                'fulfilled',
+                'fulfilled',
+            ]);
+            expect(result[4]).toEqual({ status: 'fulfilled', value: 10 });
+            expect(result[2]).toHaveProperty('reason.message', 'failed-3');
+        });
+
+        it('returns empty array for no items', async () => {
+            await expect(
+                settleWithConcurrency([], () => Promise.resolve(1), 3),
+            ).resolves.toEqual([]);
+        });
+
+        it('throws on invalid concurrency', async () => {
+            await expect(
+                settleWithConcurrency([1], () => Promise.resolve(1), 0),
+            ).rejects.toThrow('Invalid concurrency of 0 provided');
+        });
+    });
+
     describe('fetcher', () => {
         const originalFetch = global.fetch;
         const originalEnv = process.env;
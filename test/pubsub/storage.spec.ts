@@ -0,0 +1,124 @@
+import { expect } from '../testlib';
+import { EventEmitter } from 'events';
+import { Message, Subscription } from '@google-cloud/pubsub';
+import { GCUtilsError } from '@fp8proj/core';
+import {
+    IStorageEvent,
+    parseStorageNotification,
+    Subscriber,
+} from '@fp8proj/pubsub';
+
+/**
+ * Create a Message of a Cloud Storage notification
+ */
+function createMessage(
+    attributes: { [key: string]: string },
+    payload?: object,
+): Message {
+    return {
+        id: `message-${attributes.objectId}`,
+        attributes,
+        data: Buffer.from(payload ? JSON.stringify(payload) : ''),
+        ack: jest.fn(),
+        nack: jest.fn(),
+    } as unknown as Message;
+}
+
+describe('pubsub.storage', () => {
+    const attributes = {
+        eventType: 'OBJECT_FINALIZE',
+        bucketId: 'bucket-uR8sQw',
+        objectId: 'exports/2024-01-01.csv',
+        objectGeneration: '1700000000000001',
+        eventTime: '2024-01-01T10:00:00.000Z',
+        payloadFormat: 'JSON_API_V1',
+    };
+
+    it('parseStorageNotification - Pub/Sub message', () => {
+        const payload = { bucket: 'bucket-uR8sQw', size: '42' };
+        const event = parseStorageNotification(
+            createMessage(attributes, payload),
+        );
+        expect(event.eventType).toEqual('OBJECT_FINALIZE');
+        expect(event.gs.bucket).toEqual('bucket-uR8sQw');
+        expect(event.gs.path).toEqual('exports/2024-01-01.csv');
+        expect(event.gs.filename).toEqual('2024-01-01.csv');
+        expect(event.generation).toEqual('1700000000000001');
+        expect(event.eventTime).toEqual(new Date('2024-01-01T10:00:00.000Z'));
+        expect(event.metadata).toEqual(payload);
+        expect(event.source).toEqual('pubsub');
+    });
+
+    it('parseStorageNotification - Pub/Sub message without payload', () => {
+        const event = parseStorageNotification(
+            createMessage({ ...attributes, payloadFormat: 'NONE' }),
+        );
+        expect(event.metadata).toBeUndefined();
+    });
+
+    it('parseStorageNotification - CloudEvent', () => {
+        const event = parseStorageNotification({
+            specversion: '1.0',
+            type: 'google.cloud.storage.object.v1.deleted',
+            source: '//storage.googleapis.com/projects/_/buckets/bucket-uR8sQw',
+            subject: 'objects/tmp/a.txt',
+            time: '2024-01-01T10:00:00.000Z',
+            data: {
+                bucket: 'bucket-uR8sQw',
+                name: 'tmp/a.txt',
+                generation: 1700000000000002,
+            },
+        });
+        expect(event.eventType).toEqual('OBJECT_DELETE');
+        expect(event.gs.path).toEqual('tmp/a.txt');
+        expect(event.generation).toEqual('1700000000000002');
+        expect(event.source).toEqual('eventarc');
+    });
+
+    it('parseStorageNotification - invalid input', () => {
+        expect(() =>
+            parseStorageNotification(createMessage({ contentType: 'x' })),
+        ).toThrow(GCUtilsError);
+        expect(() =>
+            parseStorageNotification({ type: 'google.cloud.pubsub.v1' }),
+        ).toThrow(
+            'CloudEvent google.cloud.pubsub.v1 is not a Cloud Storage object event',
+        );
+    });
+
+    it('Subscriber.listenStorageEvents filters events', async () => {
+        const subscription = Object.assign(new EventEmitter(), {
+            name: 'storage-events',
+            exists: async () => [true],
+        });
+        const subscriber = new Subscriber(
+            subscription as unknown as Subscription,
+        );
+
+        const events: IStorageEvent[] = [];
+        await subscriber.listenStorageEvents(
+            async (event) => {
+                events.push(event);
+            },
+            { eventTypes: ['OBJECT_FINALIZE'], prefix: 'exports/' },
+        );
+
+        const messages = [
+            createMessage(attributes, {}),
+            createMessage({ ...attributes, objectId: 'tmp/b.csv' }, {}),
+            createMessage({ ...attributes, eventType: 'OBJECT_DELETE' }, {}),
+        ];
+        for (const message of messages) {
+            subscription.emit('message', message);
+        }
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(events.map((event) => event.gs.path)).toEqual([
+            'exports/2024-01-01.csv',
+        ]);
+        // Skipped events are also acknowledged
+        for (const message of messages) {
+            expect(message.ack).toHaveBeenCalled();
+        }
+    });
+});
@@ -15,6 +15,7 @@ export const testLogger = createLogger('test');
 // Export test classes
 export { expect } from '@jest/globals';
 export * from './helper';
+export * from './storage';
 export * from './test-fstore';
 export * from './test-models';
 export * from './timer';
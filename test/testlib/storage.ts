@@ -0,0 +1,93 @@
+/* istanbul ignore file */
+
+import { PassThrough, Readable, Writable } from 'stream';
+import {
+    Bucket,
+    DeleteFileResponse,
+    File,
+    FileMetadata,
+    GetFileMetadataResponse,
+} from '@google-cloud/storage';
+
+/**
+ * Create a File of bucket with the metadata returned by a listing
+ *
+ * @param bucket
+ * @param name
+ * @param metadata
+ * @returns
+ */
+export function createMockFile(
+    bucket: Bucket,
+    name: string,
+    metadata: FileMetadata = {},
+): File {
+    const file = bucket.file(name);
+    file.metadata = metadata;
+    return file;
+}
+
+/**
+ * Response of `File.getMetadata`
+ *
+ * @param metadata
+ * @returns
+ */
+export function metadataResponse(
+    metadata: FileMetadata,
+): GetFileMetadataResponse {
+    return [metadata, {}];
+}
+
+/**
+ * Response of `File.delete`
+ *
+ * @returns
+ */
+export function deleteResponse(): DeleteFileResponse {
+    return [{}];
+}
+
+/**
+ * Create the stream returned by `File.createReadStream`, emitting the
+ * response with its headers before the data as done by the SDK
+ *
+ * @param data
+ * @param headers response headers such as `x-goog-hash`
+ * @returns
+ */
+export function createDownloadStream(
+    data: Buffer | string,
+    headers: object = {},
+): Readable {
+    const stream = new PassThrough();
+    setImmediate(() => {
+        stream.emit('response', { headers });
+        stream.end(data);
+    });
+    return stream;
+}
+
+/**
+ * Create the stream returned by `File.createWriteStream`, collecting the
+ * chunks written
+ *
+ * @param chunks receive the chunks written
+ * @param onFinal called once all chunks are written, before `finish`
+ * @returns
+ */
+export function createUploadStream(
+    chunks: Buffer[] = [],
+    onFinal?: () => void,
+): Writable {
+    return new Writable({
+        write: (chunk: Buffer, _encoding, callback) => {
+            chunks.push(chunk);
+            callback();
+        },
+        final: (callback) => {
+            onFinal?.();
+            callback();
+        },
+    });
+}